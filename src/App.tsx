@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { OrganizationProvider } from "@/contexts/OrganizationContext";
 import { SalesProvider } from "@/contexts/SalesContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import Login from "./pages/Login";
@@ -16,6 +17,12 @@ import CollectionHistory from "./pages/CollectionHistory";
 import CollectionItems from "./pages/CollectionItems";
 import ExtraAreaReport from "./pages/ExtraAreaReport";
 import BranchCalendar from "./pages/BranchCalendar";
+import ImportHistory from "./pages/ImportHistory";
+import ProductCodes from "./pages/ProductCodes";
+import ReferenceData from "./pages/ReferenceData";
+import Trash from "./pages/Trash";
+import Users from "./pages/Users";
+import Activity from "./pages/Activity";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -27,52 +34,84 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
-          <Routes>
-            <Route path="/login" element={<Login />} />
-            <Route path="/signup" element={<Signup />} />
-            <Route path="/forgot-password" element={<ForgotPassword />} />
-            <Route path="/reset-password" element={<ResetPassword />} />
-            <Route path="/" element={
-              <ProtectedRoute>
-                <SalesProvider>
-                  <DailySalesReport />
-                </SalesProvider>
-              </ProtectedRoute>
-            } />
-            <Route path="/history" element={
-              <ProtectedRoute>
-                <SalesProvider>
-                  <SalesHistory />
-                </SalesProvider>
-              </ProtectedRoute>
-            } />
-            <Route path="/collection-history" element={
-              <ProtectedRoute>
-                <SalesProvider>
-                  <CollectionHistory />
-                </SalesProvider>
-              </ProtectedRoute>
-            } />
-            <Route path="/collection-items" element={
-              <ProtectedRoute>
-                <SalesProvider>
-                  <CollectionItems />
-                </SalesProvider>
-              </ProtectedRoute>
-            } />
-            <Route path="/extra-area" element={
-              <ProtectedRoute>
-                <ExtraAreaReport />
-              </ProtectedRoute>
-            } />
-            <Route path="/branch-calendar" element={
-              <ProtectedRoute>
-                <BranchCalendar />
-              </ProtectedRoute>
-            } />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <OrganizationProvider>
+            <Routes>
+              <Route path="/login" element={<Login />} />
+              <Route path="/signup" element={<Signup />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
+              <Route path="/reset-password" element={<ResetPassword />} />
+              <Route path="/" element={
+                <ProtectedRoute>
+                  <SalesProvider>
+                    <DailySalesReport />
+                  </SalesProvider>
+                </ProtectedRoute>
+              } />
+              <Route path="/history" element={
+                <ProtectedRoute>
+                  <SalesProvider>
+                    <SalesHistory />
+                  </SalesProvider>
+                </ProtectedRoute>
+              } />
+              <Route path="/collection-history" element={
+                <ProtectedRoute>
+                  <SalesProvider>
+                    <CollectionHistory />
+                  </SalesProvider>
+                </ProtectedRoute>
+              } />
+              <Route path="/collection-items" element={
+                <ProtectedRoute>
+                  <SalesProvider>
+                    <CollectionItems />
+                  </SalesProvider>
+                </ProtectedRoute>
+              } />
+              <Route path="/extra-area" element={
+                <ProtectedRoute>
+                  <ExtraAreaReport />
+                </ProtectedRoute>
+              } />
+              <Route path="/branch-calendar" element={
+                <ProtectedRoute>
+                  <BranchCalendar />
+                </ProtectedRoute>
+              } />
+              <Route path="/import-history" element={
+                <ProtectedRoute>
+                  <ImportHistory />
+                </ProtectedRoute>
+              } />
+              <Route path="/product-codes" element={
+                <ProtectedRoute>
+                  <ProductCodes />
+                </ProtectedRoute>
+              } />
+              <Route path="/reference-data" element={
+                <ProtectedRoute>
+                  <ReferenceData />
+                </ProtectedRoute>
+              } />
+              <Route path="/trash" element={
+                <ProtectedRoute>
+                  <Trash />
+                </ProtectedRoute>
+              } />
+              <Route path="/users" element={
+                <ProtectedRoute>
+                  <Users />
+                </ProtectedRoute>
+              } />
+              <Route path="/activity" element={
+                <ProtectedRoute>
+                  <Activity />
+                </ProtectedRoute>
+              } />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </OrganizationProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
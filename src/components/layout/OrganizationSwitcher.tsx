@@ -0,0 +1,220 @@
+import React from 'react';
+import { Building2, Check, Mail, Plus, UserPlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { MemberAccessFields } from '@/components/users/MemberAccessFields';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { useRole } from '@/hooks/useRole';
+import { toast } from '@/hooks/use-toast';
+import { MemberAccess, ROLE_LABELS, isMemberAccessValid } from '@/utils/permissions';
+
+type DialogMode = 'create' | 'invite' | null;
+
+export const OrganizationSwitcher: React.FC = () => {
+  const {
+    organizations,
+    currentOrg,
+    currentOrgId,
+    invitations,
+    switchOrganization,
+    createOrganization,
+    inviteMember,
+    acceptInvitation,
+    declineInvitation,
+  } = useOrganization();
+  const [dialogMode, setDialogMode] = React.useState<DialogMode>(null);
+  const { canManageMembers } = useRole();
+  const [value, setValue] = React.useState('');
+  const [access, setAccess] = React.useState<MemberAccess>({ role: 'viewer', branches: [] });
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [respondingTo, setRespondingTo] = React.useState<string | null>(null);
+
+  const openDialog = (mode: DialogMode) => {
+    setValue('');
+    setAccess({ role: 'viewer', branches: [] });
+    setDialogMode(mode);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!value.trim()) return;
+
+    setIsSaving(true);
+    try {
+      if (dialogMode === 'create') {
+        await createOrganization(value);
+        toast({ title: 'Organization created', description: `Switched to ${value.trim()}.` });
+      } else {
+        await inviteMember(value, access.role, access.branches);
+        toast({
+          title: 'Invitation sent',
+          description: `${value.trim()} will join ${currentOrg?.name} as ${ROLE_LABELS[access.role].toLowerCase()} once they accept.`,
+        });
+      }
+      setDialogMode(null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Something went wrong.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleInvitation = async (id: string, accept: boolean) => {
+    const invitation = invitations.find((item) => item.id === id);
+    setRespondingTo(id);
+    try {
+      if (accept) {
+        await acceptInvitation(id);
+        toast({ title: 'Invitation accepted', description: `Switched to ${invitation?.orgName}.` });
+      } else {
+        await declineInvitation(id);
+        toast({ title: 'Invitation declined' });
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Something went wrong.',
+        variant: 'destructive',
+      });
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select value={currentOrgId ?? undefined} onValueChange={switchOrganization}>
+        <SelectTrigger className="bg-white/10 border-white/20 text-white [&>svg]:text-white/70">
+          <div className="flex items-center gap-2 min-w-0">
+            <Building2 className="h-4 w-4 shrink-0" />
+            <SelectValue placeholder="Select organization" />
+          </div>
+        </SelectTrigger>
+        <SelectContent className="bg-popover">
+          {organizations.map((org) => (
+            <SelectItem key={org.id} value={org.id}>
+              {org.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="flex-1 text-white/80 hover:text-white hover:bg-white/10 gap-1.5 text-xs"
+          onClick={() => openDialog('create')}
+        >
+          <Plus className="h-3.5 w-3.5" />
+          New
+        </Button>
+        {canManageMembers && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="flex-1 text-white/80 hover:text-white hover:bg-white/10 gap-1.5 text-xs"
+            disabled={!currentOrgId}
+            onClick={() => openDialog('invite')}
+          >
+            <UserPlus className="h-3.5 w-3.5" />
+            Invite
+          </Button>
+        )}
+      </div>
+      {invitations.map((invitation) => (
+        <div key={invitation.id} className="rounded-md bg-white/10 px-2 py-1.5 text-xs text-white/90">
+          <div className="flex items-center gap-1.5 min-w-0">
+            <Mail className="h-3.5 w-3.5 shrink-0" />
+            <span className="truncate" title={invitation.orgName}>
+              Invited to {invitation.orgName} as {ROLE_LABELS[invitation.role].toLowerCase()}
+            </span>
+          </div>
+          <div className="flex gap-1 pt-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 flex-1 text-white/80 hover:text-white hover:bg-white/10 gap-1 text-xs"
+              disabled={respondingTo === invitation.id}
+              onClick={() => handleInvitation(invitation.id, true)}
+            >
+              <Check className="h-3.5 w-3.5" />
+              Accept
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 flex-1 text-white/80 hover:text-white hover:bg-white/10 gap-1 text-xs"
+              disabled={respondingTo === invitation.id}
+              onClick={() => handleInvitation(invitation.id, false)}
+            >
+              <X className="h-3.5 w-3.5" />
+              Decline
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>{dialogMode === 'create' ? 'New organization' : `Invite member to ${currentOrg?.name}`}</DialogTitle>
+              <DialogDescription>
+                {dialogMode === 'create'
+                  ? 'Members of an organization share its DSR, extra area and calendar data.'
+                  : 'They join once they accept the invitation, which they see after signing in with this email.'}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="organization-value">{dialogMode === 'create' ? 'Name' : 'Email'}</Label>
+              <Input
+                id="organization-value"
+                type={dialogMode === 'create' ? 'text' : 'email'}
+                placeholder={dialogMode === 'create' ? 'e.g. North Region' : 'name@company.com'}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                autoFocus
+              />
+              {dialogMode === 'invite' && (
+                <div className="pt-2">
+                  <MemberAccessFields value={access} onChange={setAccess} idPrefix="organization-member" />
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogMode(null)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSaving || !value.trim() || (dialogMode === 'invite' && !isMemberAccessValid(access))}
+              >
+                {dialogMode === 'create' ? 'Create' : 'Send invitation'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
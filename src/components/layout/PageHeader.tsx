@@ -2,6 +2,7 @@ import React from 'react';
 import { FileText, Download, Calendar } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { MonthYearPicker } from '@/components/sales/MonthYearPicker';
+import { RemoteChangeIndicator } from '@/components/layout/RemoteChangeIndicator';
 import { generatePDF } from '@/utils/pdfUtils';
 import { toast } from '@/hooks/use-toast';
 
@@ -12,6 +13,7 @@ interface PageHeaderProps {
   selectedMonth: Date;
   onMonthChange: (date: Date) => void;
   pdfElementId?: string;
+  remoteChangeAt?: Date | null;
 }
 
 export const PageHeader: React.FC<PageHeaderProps> = ({
@@ -21,6 +23,7 @@ export const PageHeader: React.FC<PageHeaderProps> = ({
   selectedMonth,
   onMonthChange,
   pdfElementId,
+  remoteChangeAt = null,
 }) => {
   const [isGeneratingPDF, setIsGeneratingPDF] = React.useState(false);
 
@@ -63,6 +66,7 @@ export const PageHeader: React.FC<PageHeaderProps> = ({
                   {entryCount} entries
                 </span>
               )}
+              <RemoteChangeIndicator changedAt={remoteChangeAt} className="ml-2" />
             </p>
           </div>
           
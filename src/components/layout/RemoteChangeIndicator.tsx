@@ -0,0 +1,37 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface RemoteChangeIndicatorProps {
+  // When another user last changed the data on screen
+  changedAt: Date | null;
+  className?: string;
+}
+
+const VISIBLE_MS = 30_000;
+
+export const RemoteChangeIndicator: React.FC<RemoteChangeIndicatorProps> = ({ changedAt, className }) => {
+  const [visible, setVisible] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!changedAt) return;
+
+    setVisible(true);
+    const timer = setTimeout(() => setVisible(false), VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [changedAt]);
+
+  if (!visible || !changedAt) return null;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-white/20 text-white text-xs font-medium',
+        className
+      )}
+      title={`Updated at ${changedAt.toLocaleTimeString()}`}
+    >
+      <span className="h-1.5 w-1.5 rounded-full bg-white animate-pulse" />
+      Updated by another user
+    </span>
+  );
+};
@@ -1,10 +1,12 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
-import { FileText, History, Menu, Wallet, MapPin, CalendarDays, LogOut } from 'lucide-react';
+import { FileText, History, Menu, Wallet, MapPin, CalendarDays, FileClock, Barcode, Tags, Trash2, Users, Activity, LogOut } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { useAuth } from '@/contexts/AuthContext';
+import { useRole } from '@/hooks/useRole';
+import { OrganizationSwitcher } from './OrganizationSwitcher';
 
 const navItems = [
   { to: '/', label: 'DSR', icon: FileText },
@@ -12,30 +14,40 @@ const navItems = [
   { to: '/collection-history', label: 'Collection History', icon: Wallet },
   { to: '/extra-area', label: 'Extra Area', icon: MapPin },
   { to: '/branch-calendar', label: 'Branch Calendar', icon: CalendarDays },
+  { to: '/import-history', label: 'Import History', icon: FileClock },
+  { to: '/product-codes', label: 'Product Codes', icon: Barcode },
+  { to: '/reference-data', label: 'Branches & Categories', icon: Tags },
+  { to: '/trash', label: 'Trash', icon: Trash2 },
+  { to: '/users', label: 'Users', icon: Users, adminOnly: true },
+  { to: '/activity', label: 'Activity', icon: Activity, adminOnly: true },
 ];
 
-const NavLinks = ({ onClick }: { onClick?: () => void }) => (
-  <>
-    {navItems.map((item) => (
-      <NavLink
-        key={item.to}
-        to={item.to}
-        onClick={onClick}
-        className={({ isActive }) =>
-          cn(
-            'flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors',
-            isActive
-              ? 'bg-white/20 text-white'
-              : 'text-white/80 hover:bg-white/10 hover:text-white'
-          )
-        }
-      >
-        <item.icon className="h-4 w-4" />
-        {item.label}
-      </NavLink>
-    ))}
-  </>
-);
+const NavLinks = ({ onClick }: { onClick?: () => void }) => {
+  const { canManageMembers } = useRole();
+
+  return (
+    <>
+      {navItems.filter((item) => !item.adminOnly || canManageMembers).map((item) => (
+        <NavLink
+          key={item.to}
+          to={item.to}
+          onClick={onClick}
+          className={({ isActive }) =>
+            cn(
+              'flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors',
+              isActive
+                ? 'bg-white/20 text-white'
+                : 'text-white/80 hover:bg-white/10 hover:text-white'
+            )
+          }
+        >
+          <item.icon className="h-4 w-4" />
+          {item.label}
+        </NavLink>
+      ))}
+    </>
+  );
+};
 
 export const Sidebar: React.FC = () => {
   const [open, setOpen] = React.useState(false);
@@ -58,6 +70,10 @@ export const Sidebar: React.FC = () => {
             <p className="text-xs text-white/70">Tracking System</p>
           </div>
         </div>
+
+        <div className="mb-4">
+          <OrganizationSwitcher />
+        </div>
         
         <nav className="flex flex-col gap-2">
           <NavLinks />
@@ -103,6 +119,9 @@ export const Sidebar: React.FC = () => {
                 <span className="text-lg font-bold text-white">Sales Monitor</span>
               </div>
             </div>
+            <div className="mb-4">
+              <OrganizationSwitcher />
+            </div>
             <nav className="flex flex-col gap-2">
               <NavLinks onClick={() => setOpen(false)} />
             </nav>
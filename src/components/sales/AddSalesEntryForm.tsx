@@ -2,7 +2,7 @@ import React from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Save, X, Plus, Calendar } from 'lucide-react';
+import { Save, X, Plus, Calendar, Loader2, ScanBarcode, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -13,14 +13,33 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
 import { SectionCard } from '@/components/sales/SectionCard';
 import { SalesEntry } from '@/types/sales';
-import { findCollectionItemByUPC } from '@/utils/collectionItemsUtils';
+import { useCollectionItemsStore } from '@/hooks/useCollectionItemsStore';
+import { useReferenceData } from '@/hooks/useReferenceData';
+import { useRole } from '@/hooks/useRole';
 import { toast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/utils/formatters';
+import { computeAmount, discountFromAmount, resolveAmount } from '@/utils/salesAmount';
 
 const salesEntrySchema = z.object({
   date: z.date(),
@@ -37,220 +56,307 @@ const salesEntrySchema = z.object({
 
 type SalesEntryFormData = z.infer<typeof salesEntrySchema>;
 
+type NewSalesEntry = Omit<SalesEntry, 'id' | 'createdAt'>;
+
+// A line waiting on the current receipt
+interface ReceiptLine extends NewSalesEntry {
+  key: number;
+}
+
 interface AddSalesEntryFormProps {
-  onSave: (entry: SalesEntry) => void;
+  onSave: (entry: NewSalesEntry) => Promise<void>;
 }
 
+const emptyLine = {
+  upc: '',
+  name: '',
+  description: '',
+  qty: 1,
+  category: '',
+  price: 0,
+  amount: 0,
+  discountPercent: 0,
+};
+
+// Scanners type the whole code then press Enter; typed codes look up once they're this long
+const MIN_UPC_LENGTH = 10;
+
 export const AddSalesEntryForm: React.FC<AddSalesEntryFormProps> = ({ onSave }) => {
+  const { findItemByUPC } = useCollectionItemsStore();
+  const { activeBranchCodes, activeCategoryCodes } = useReferenceData();
+  const { canWriteBranch } = useRole();
+  const [lines, setLines] = React.useState<ReceiptLine[]>([]);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const nextLineKey = React.useRef(0);
+  const lastFilledUpc = React.useRef('');
+
+  const branchOptions = React.useMemo(
+    () => activeBranchCodes.filter(canWriteBranch),
+    [activeBranchCodes, canWriteBranch]
+  );
+
   const form = useForm<SalesEntryFormData>({
     resolver: zodResolver(salesEntrySchema),
     defaultValues: {
+      ...emptyLine,
       date: new Date(),
-      upc: '',
-      name: '',
-      description: '',
-      qty: 1,
-      category: '',
-      price: 0,
-      amount: 0,
-      discountPercent: 0,
       branch: '',
     },
   });
 
+  // Members limited to one branch never have to pick it
+  React.useEffect(() => {
+    if (branchOptions.length === 1 && !form.getValues('branch')) {
+      form.setValue('branch', branchOptions[0]);
+    }
+  }, [branchOptions, form]);
+
   const watchQty = form.watch('qty');
   const watchPrice = form.watch('price');
   const watchDiscount = form.watch('discountPercent') || 0;
-  const watchAmount = form.watch('amount') || 0;
 
   // Compute the expected amount based on price, qty, and discount
-  const computedAmount = React.useMemo(() => {
-    const amount = (watchPrice || 0) * (watchQty || 0) * (1 - (watchDiscount || 0) / 100);
-    return Math.round(amount * 100) / 100;
-  }, [watchQty, watchPrice, watchDiscount]);
+  const computedAmount = React.useMemo(
+    () => computeAmount(watchPrice, watchQty, watchDiscount),
+    [watchQty, watchPrice, watchDiscount]
+  );
+
+  const receiptTotal = lines.reduce((sum, line) => sum + line.amount, 0);
 
   // When user manually enters an amount, auto-calculate discount
   const handleAmountChange = (newAmount: number) => {
     form.setValue('amount', newAmount);
-    const baseAmount = (watchPrice || 0) * (watchQty || 0);
-    if (baseAmount > 0 && newAmount > 0) {
-      const discountPercent = ((baseAmount - newAmount) / baseAmount) * 100;
-      const roundedDiscount = Math.round(Math.max(0, Math.min(100, discountPercent)) * 100) / 100;
-      form.setValue('discountPercent', roundedDiscount);
+    const discountPercent = discountFromAmount(watchPrice, watchQty, newAmount);
+    if (discountPercent !== null) {
+      form.setValue('discountPercent', discountPercent);
     }
   };
 
+  // Fills the line from the product list; returns whether the UPC was found
+  const fillFromUPC = (upc: string) => {
+    const product = findItemByUPC(upc);
+    if (!product) return false;
+
+    if (lastFilledUpc.current !== upc.trim()) {
+      lastFilledUpc.current = upc.trim();
+      form.setValue('name', product.name);
+      form.setValue('description', product.description);
+      form.setValue('category', product.category);
+      form.setValue('price', product.price);
+      toast({
+        title: 'Product found',
+        description: `Auto-filled: ${product.name}`,
+      });
+    }
+    return true;
+  };
+
   const handleUPCChange = (upc: string) => {
-    if (upc.length >= 10) {
-      const product = findCollectionItemByUPC(upc);
-      if (product) {
-        form.setValue('name', product.name);
-        form.setValue('description', product.description);
-        form.setValue('category', product.category);
-        form.setValue('price', product.price);
-        toast({
-          title: 'Product found',
-          description: `Auto-filled: ${product.name}`,
-        });
-      }
+    if (upc.length >= MIN_UPC_LENGTH) {
+      fillFromUPC(upc);
     }
   };
 
-  const onSubmit = (data: SalesEntryFormData) => {
+  // Enter on the UPC field (or the end of a scan) jumps to the next field instead of adding the line
+  const handleUPCKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter' || e.ctrlKey || e.metaKey) return;
+    e.preventDefault();
+
+    const upc = form.getValues('upc') || '';
+    if (!upc.trim()) {
+      form.setFocus('name');
+    } else if (fillFromUPC(upc)) {
+      form.setFocus('qty', { shouldSelect: true });
+    } else {
+      toast({
+        title: 'Product not found',
+        description: `No product with UPC ${upc.trim()}. Enter the details manually.`,
+        variant: 'destructive',
+      });
+      form.setFocus('name');
+    }
+  };
+
+  const resetLine = () => {
+    const { date, branch } = form.getValues();
+    form.reset({ ...emptyLine, date, branch });
+    lastFilledUpc.current = '';
+    form.setFocus('upc');
+  };
+
+  const addLine = (data: SalesEntryFormData) => {
     // Use the manually entered amount if provided, otherwise use computed
-    const finalAmount = (data.amount && data.amount > 0) ? data.amount : computedAmount;
-    
-    const entry: SalesEntry = {
-      id: `entry-${Date.now()}`,
-      date: format(data.date, 'yyyy-MM-dd'),
-      upc: data.upc || '',
-      name: data.name,
-      description: data.description || '',
-      qty: data.qty,
-      category: data.category,
-      price: data.price,
-      discountPercent: data.discountPercent || 0,
-      amount: finalAmount,
-      branch: data.branch,
-      createdAt: new Date().toISOString(),
-    };
-
-    onSave(entry);
-    form.reset({
-      date: new Date(),
-      upc: '',
-      name: '',
-      description: '',
-      qty: 1,
-      category: '',
-      price: 0,
-      amount: 0,
-      discountPercent: 0,
-      branch: '',
-    });
-    toast({
-      title: 'Entry saved',
-      description: `${entry.name} added successfully.`,
-    });
+    const finalAmount = resolveAmount(data.amount, data.price, data.qty, data.discountPercent || 0);
+
+    setLines((prev) => [
+      ...prev,
+      {
+        key: nextLineKey.current++,
+        date: format(data.date, 'yyyy-MM-dd'),
+        upc: data.upc || '',
+        name: data.name,
+        description: data.description || '',
+        qty: data.qty,
+        category: data.category,
+        price: data.price,
+        discountPercent: data.discountPercent || 0,
+        amount: finalAmount,
+        branch: data.branch,
+      },
+    ]);
+    resetLine();
+  };
+
+  const removeLine = (key: number) => {
+    setLines((prev) => prev.filter((line) => line.key !== key));
+  };
+
+  const saveReceipt = async () => {
+    if (lines.length === 0 || isSaving) return;
+
+    setIsSaving(true);
+    let saved = 0;
+    try {
+      // One by one so a failure keeps the unsaved lines on the receipt
+      for (const { key, ...entry } of lines) {
+        await onSave(entry);
+        saved++;
+        setLines((prev) => prev.filter((line) => line.key !== key));
+      }
+      toast({
+        title: 'Receipt saved',
+        description: `${saved} ${saved === 1 ? 'entry' : 'entries'} added successfully.`,
+      });
+      form.setFocus('upc');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `${saved} of ${lines.length} saved. ${error instanceof Error ? error.message : 'Failed to save entries.'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
   };
 
-  const handleClear = () => {
-    form.reset();
+  // Ctrl+Enter saves the receipt, Escape in a field clears the current line (open pickers keep their own Escape)
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLFormElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      saveReceipt();
+    } else if (e.key === 'Escape' && e.target instanceof HTMLInputElement) {
+      resetLine();
+    }
   };
 
   return (
     <SectionCard className="p-0">
       <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)}>
-          {/* Header Row: Title, UPC, Branch */}
-          <div className="p-4 border-b border-border flex flex-col lg:flex-row lg:items-center gap-4">
-            <div className="flex items-center gap-2">
+        <form onSubmit={form.handleSubmit(addLine)} onKeyDown={handleKeyDown}>
+          {/* Header Row: Title, Date, Branch, UPC */}
+          <div className="p-4 border-b border-border flex flex-col lg:flex-row lg:items-start gap-4">
+            <div className="flex items-center gap-2 lg:h-10">
               <Plus className="h-5 w-5 text-foreground" />
-              <h3 className="font-semibold text-foreground">Add Sales Entry</h3>
+              <h3 className="font-semibold text-foreground">Manual Entry</h3>
             </div>
-            
-            <div className="flex items-center gap-2">
-              <span className="text-sm text-muted-foreground font-medium">UPC:</span>
-              <FormField
-                control={form.control}
-                name="upc"
-                render={({ field }) => (
-                  <FormItem className="flex-1 lg:w-[240px]">
-                    <FormControl>
-                      <Input
-                        placeholder="Enter UPC to auto-fill"
-                        className="h-9"
-                        {...field}
-                        onChange={(e) => {
-                          field.onChange(e);
-                          handleUPCChange(e.target.value);
-                        }}
+
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem className="lg:w-[180px]">
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant="outline"
+                          className={cn(
+                            'w-full h-10 pl-3 text-left font-normal justify-start',
+                            !field.value && 'text-muted-foreground'
+                          )}
+                        >
+                          <Calendar className="mr-2 h-4 w-4" />
+                          {field.value ? format(field.value, 'MMM dd, yyyy') : 'Pick date'}
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0 bg-popover" align="start">
+                      <CalendarComponent
+                        mode="single"
+                        selected={field.value}
+                        onSelect={field.onChange}
+                        initialFocus
+                        className="p-3 pointer-events-auto"
                       />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="branch"
+              render={({ field }) => (
+                <FormItem className="lg:w-[180px]">
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select branch" />
+                      </SelectTrigger>
                     </FormControl>
-                  </FormItem>
-                )}
-              />
-            </div>
+                    <SelectContent className="bg-popover">
+                      {branchOptions.map((branch) => (
+                        <SelectItem key={branch} value={branch}>
+                          {branch}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
 
             <div className="flex-1" />
 
-            <div className="flex items-center gap-2">
-              <span className="text-sm text-muted-foreground font-medium">Branch:</span>
-              <FormField
-                control={form.control}
-                name="branch"
-                render={({ field }) => (
-                  <FormItem className="lg:w-[180px]">
+            <FormField
+              control={form.control}
+              name="upc"
+              render={({ field }) => (
+                <FormItem className="lg:w-[280px]">
+                  <div className="relative">
+                    <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <FormControl>
                       <Input
-                        placeholder="Enter branch"
-                        className="h-9"
+                        placeholder="Scan or enter UPC"
+                        className="pl-9"
+                        autoFocus
+                        autoComplete="off"
                         {...field}
+                        onChange={(e) => {
+                          field.onChange(e);
+                          handleUPCChange(e.target.value);
+                        }}
+                        onKeyDown={handleUPCKeyDown}
                       />
                     </FormControl>
-                  </FormItem>
-                )}
-              />
-            </div>
+                  </div>
+                </FormItem>
+              )}
+            />
           </div>
 
-          {/* Form Fields Row */}
+          {/* Line Item Row */}
           <div className="p-4">
-            {/* Labels Row */}
-            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-9 gap-3 mb-2">
-              <span className="text-sm font-medium text-muted-foreground">Date</span>
-              <span className="text-sm font-medium text-muted-foreground">Name</span>
-              <span className="text-sm font-medium text-muted-foreground">Description</span>
-              <span className="text-sm font-medium text-muted-foreground">QTY</span>
-              <span className="text-sm font-medium text-muted-foreground">Category</span>
-              <span className="text-sm font-medium text-muted-foreground">Price</span>
-              <span className="text-sm font-medium text-muted-foreground">Amount</span>
-              <span className="text-sm font-medium text-muted-foreground">Discount %</span>
-              <span className="text-sm font-medium text-muted-foreground"></span>
-            </div>
-
-            {/* Inputs Row */}
-            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-9 gap-3 items-start">
-              <FormField
-                control={form.control}
-                name="date"
-                render={({ field }) => (
-                  <FormItem>
-                    <Popover>
-                      <PopoverTrigger asChild>
-                        <FormControl>
-                          <Button
-                            variant="outline"
-                            className={cn(
-                              'w-full h-10 pl-3 text-left font-normal justify-start',
-                              !field.value && 'text-muted-foreground'
-                            )}
-                          >
-                            <Calendar className="mr-2 h-4 w-4" />
-                            {field.value ? format(field.value, 'MMM dd, yyyy') : 'Pick date'}
-                          </Button>
-                        </FormControl>
-                      </PopoverTrigger>
-                      <PopoverContent className="w-auto p-0 bg-popover" align="start">
-                        <CalendarComponent
-                          mode="single"
-                          selected={field.value}
-                          onSelect={field.onChange}
-                          initialFocus
-                          className="p-3 pointer-events-auto"
-                        />
-                      </PopoverContent>
-                    </Popover>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3 items-start">
               <FormField
                 control={form.control}
                 name="name"
                 render={({ field }) => (
                   <FormItem>
+                    <FormLabel className="text-muted-foreground">Name</FormLabel>
                     <FormControl>
                       <Input placeholder="Product name" {...field} />
                     </FormControl>
@@ -264,6 +370,7 @@ export const AddSalesEntryForm: React.FC<AddSalesEntryFormProps> = ({ onSave })
                 name="description"
                 render={({ field }) => (
                   <FormItem>
+                    <FormLabel className="text-muted-foreground">Description</FormLabel>
                     <FormControl>
                       <Input placeholder="Description" {...field} />
                     </FormControl>
@@ -277,6 +384,7 @@ export const AddSalesEntryForm: React.FC<AddSalesEntryFormProps> = ({ onSave })
                 name="qty"
                 render={({ field }) => (
                   <FormItem>
+                    <FormLabel className="text-muted-foreground">QTY</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
@@ -296,9 +404,21 @@ export const AddSalesEntryForm: React.FC<AddSalesEntryFormProps> = ({ onSave })
                 name="category"
                 render={({ field }) => (
                   <FormItem>
-                    <FormControl>
-                      <Input placeholder="Category" {...field} />
-                    </FormControl>
+                    <FormLabel className="text-muted-foreground">Category</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="bg-popover">
+                        {[...new Set([...activeCategoryCodes, field.value].filter(Boolean))].map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {category}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -309,6 +429,7 @@ export const AddSalesEntryForm: React.FC<AddSalesEntryFormProps> = ({ onSave })
                 name="price"
                 render={({ field }) => (
                   <FormItem>
+                    <FormLabel className="text-muted-foreground">Price</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
@@ -329,6 +450,7 @@ export const AddSalesEntryForm: React.FC<AddSalesEntryFormProps> = ({ onSave })
                 name="amount"
                 render={({ field }) => (
                   <FormItem>
+                    <FormLabel className="text-muted-foreground">Amount</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
@@ -353,12 +475,14 @@ export const AddSalesEntryForm: React.FC<AddSalesEntryFormProps> = ({ onSave })
                 name="discountPercent"
                 render={({ field }) => (
                   <FormItem>
+                    <FormLabel className="text-muted-foreground">Discount %</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
                         min={0}
                         max={100}
                         placeholder="Auto"
+                        tabIndex={-1}
                         {...field}
                         value={field.value || ''}
                         readOnly
@@ -370,18 +494,85 @@ export const AddSalesEntryForm: React.FC<AddSalesEntryFormProps> = ({ onSave })
                 )}
               />
 
-              <div className="flex items-center gap-2">
-                <Button type="submit" size="sm" className="gap-2">
-                  <Save className="h-4 w-4" />
-                  Save
+              <div className="flex items-center gap-2 lg:pt-8">
+                <Button type="submit" size="sm" variant="outline" className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Add Line
                 </Button>
-                <Button type="button" variant="ghost" size="sm" onClick={handleClear} className="gap-1">
+                <Button type="button" variant="ghost" size="sm" onClick={resetLine} className="gap-1">
                   <X className="h-4 w-4" />
                   Clear
                 </Button>
               </div>
             </div>
           </div>
+
+          {/* Receipt Lines */}
+          {lines.length > 0 && (
+            <div className="border-t border-border">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50">
+                      <TableHead>UPC</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">QTY</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead className="text-right">Disc %</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="w-[60px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map((line) => (
+                      <TableRow key={line.key}>
+                        <TableCell className="font-mono text-xs">{line.upc || '—'}</TableCell>
+                        <TableCell className="font-medium">{line.name}</TableCell>
+                        <TableCell>{line.category}</TableCell>
+                        <TableCell className="text-right">{line.qty}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(line.price)}</TableCell>
+                        <TableCell className="text-right">
+                          {line.discountPercent > 0 ? `${line.discountPercent}%` : '—'}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold text-primary">
+                          {formatCurrency(line.amount)}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                            onClick={() => removeLine(line.key)}
+                            disabled={isSaving}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          <div className="p-4 border-t border-border flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <p className="text-xs text-muted-foreground">
+              Enter adds the line · Ctrl+Enter saves the receipt · Esc clears the line
+            </p>
+            <div className="flex items-center gap-4">
+              <span className="text-sm text-muted-foreground">
+                {lines.length} {lines.length === 1 ? 'line' : 'lines'} ·{' '}
+                <span className="font-bold text-primary">{formatCurrency(receiptTotal)}</span>
+              </span>
+              <Button type="button" size="sm" className="gap-2" onClick={saveReceipt} disabled={lines.length === 0 || isSaving}>
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                Save Receipt
+              </Button>
+            </div>
+          </div>
         </form>
       </Form>
     </SectionCard>
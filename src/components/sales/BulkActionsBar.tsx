@@ -0,0 +1,239 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Calendar, Loader2, MapPin, Tag, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar as CalendarComponent } from '@/components/ui/calendar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SectionCard } from '@/components/sales/SectionCard';
+import { useReferenceData } from '@/hooks/useReferenceData';
+import { useRole } from '@/hooks/useRole';
+import { toast } from '@/hooks/use-toast';
+import { BulkEntryAction, BulkEntryChange, SalesEntry } from '@/types/sales';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+
+interface BulkActionsBarProps {
+  selectedEntries: SalesEntry[];
+  // Entries in the current filter the member could select
+  selectableCount: number;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onApply: (entries: SalesEntry[], change: BulkEntryChange) => Promise<number>;
+}
+
+const ACTION_TITLES: Record<BulkEntryAction, string> = {
+  delete: 'Delete entries',
+  branch: 'Reassign branch',
+  date: 'Change date',
+  category: 'Change category',
+};
+
+export const BulkActionsBar: React.FC<BulkActionsBarProps> = ({
+  selectedEntries,
+  selectableCount,
+  onSelectAll,
+  onClearSelection,
+  onApply,
+}) => {
+  const { activeBranchCodes, activeCategoryCodes } = useReferenceData();
+  const { canWriteBranch } = useRole();
+  const [action, setAction] = React.useState<BulkEntryAction | null>(null);
+  const [value, setValue] = React.useState('');
+  const [isApplying, setIsApplying] = React.useState(false);
+
+  const count = selectedEntries.length;
+  if (count === 0) return null;
+
+  const totalAmount = selectedEntries.reduce((sum, e) => sum + e.amount, 0);
+  const totalQty = selectedEntries.reduce((sum, e) => sum + e.qty, 0);
+  const dates = selectedEntries.map((e) => e.date).sort();
+  const branchTotals = Object.entries(
+    selectedEntries.reduce<Record<string, { count: number; amount: number }>>((acc, e) => {
+      acc[e.branch] = acc[e.branch] ?? { count: 0, amount: 0 };
+      acc[e.branch].count++;
+      acc[e.branch].amount += e.amount;
+      return acc;
+    }, {})
+  ).sort(([a], [b]) => a.localeCompare(b));
+
+  const openAction = (next: BulkEntryAction) => {
+    setAction(next);
+    setValue('');
+  };
+
+  const handleConfirm = async () => {
+    if (!action) return;
+
+    setIsApplying(true);
+    try {
+      const change: BulkEntryChange = action === 'delete' ? { action } : { action, value };
+      const changed = await onApply(selectedEntries, change);
+      toast({
+        title: action === 'delete' ? 'Entries deleted' : 'Entries updated',
+        description: `${changed} ${changed === 1 ? 'entry' : 'entries'} ${action === 'delete' ? 'moved to the trash' : 'changed'}.`,
+      });
+      setAction(null);
+      onClearSelection();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update entries.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const entriesLabel = `${count} ${count === 1 ? 'entry' : 'entries'}`;
+
+  return (
+    <>
+      <SectionCard className="py-3">
+        <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+            <span className="font-semibold text-foreground">{count} selected</span>
+            <span className="text-muted-foreground">{formatCurrency(totalAmount)}</span>
+            {count < selectableCount && (
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={onSelectAll}>
+                Select all {selectableCount} in this filter
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={onClearSelection}>
+              <X className="h-3.5 w-3.5" />
+              Clear
+            </Button>
+          </div>
+          <div className="flex-1" />
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => openAction('date')}>
+              <Calendar className="h-4 w-4" />
+              Change Date
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => openAction('branch')}>
+              <MapPin className="h-4 w-4" />
+              Reassign Branch
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => openAction('category')}>
+              <Tag className="h-4 w-4" />
+              Change Category
+            </Button>
+            <Button variant="destructive" size="sm" className="gap-2" onClick={() => openAction('delete')}>
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          </div>
+        </div>
+      </SectionCard>
+
+      <Dialog open={!!action} onOpenChange={(open) => !open && !isApplying && setAction(null)}>
+        <DialogContent className="sm:max-w-md">
+          {action && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{ACTION_TITLES[action]}</DialogTitle>
+                <DialogDescription>
+                  {action === 'delete'
+                    ? `This moves ${entriesLabel} to the trash, where they can be restored.`
+                    : `The change is applied to ${entriesLabel} at once, or not at all.`}
+                </DialogDescription>
+              </DialogHeader>
+
+              {action === 'date' && (
+                <div className="flex justify-center border border-border rounded-lg">
+                  <CalendarComponent
+                    mode="single"
+                    selected={value ? new Date(`${value}T00:00:00`) : undefined}
+                    onSelect={(date) => setValue(date ? format(date, 'yyyy-MM-dd') : '')}
+                    initialFocus
+                    className="p-3 pointer-events-auto"
+                  />
+                </div>
+              )}
+
+              {(action === 'branch' || action === 'category') && (
+                <Select value={value} onValueChange={setValue}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={action === 'branch' ? 'Select branch' : 'Select category'} />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover">
+                    {(action === 'branch' ? activeBranchCodes.filter(canWriteBranch) : activeCategoryCodes).map(
+                      (code) => (
+                        <SelectItem key={code} value={code}>
+                          {code}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {/* Confirmation summary */}
+              <div className="rounded-lg bg-muted/50 p-3 text-sm space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Rows affected</span>
+                  <span className="font-semibold">{count}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Items</span>
+                  <span className="font-semibold">{totalQty}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Amount</span>
+                  <span className="font-semibold text-primary">{formatCurrency(totalAmount)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Dates</span>
+                  <span>
+                    {formatDate(dates[0])}
+                    {dates[0] !== dates[dates.length - 1] && ` – ${formatDate(dates[dates.length - 1])}`}
+                  </span>
+                </div>
+                <div className="border-t border-border pt-2 space-y-1">
+                  {branchTotals.map(([branch, totals]) => (
+                    <div key={branch} className="flex justify-between text-xs">
+                      <span>
+                        {branch}
+                        {action === 'branch' && value && branch !== value && ` → ${value}`}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {totals.count} · {formatCurrency(totals.amount)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setAction(null)} disabled={isApplying}>
+                  Cancel
+                </Button>
+                <Button
+                  variant={action === 'delete' ? 'destructive' : 'default'}
+                  onClick={handleConfirm}
+                  disabled={isApplying || (action !== 'delete' && !value)}
+                >
+                  {isApplying && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  {action === 'delete' ? `Delete ${entriesLabel}` : `Apply to ${entriesLabel}`}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
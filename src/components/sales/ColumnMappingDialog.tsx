@@ -0,0 +1,345 @@
+import React from 'react';
+import { Columns3, Loader2, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { useColumnProfiles } from '@/hooks/useColumnProfiles';
+import { ExcelSheetSummary } from '@/utils/excel/workbook';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  findMatchingProfile,
+  getMissingRequiredFields,
+  guessColumnMapping,
+  resolveMappingHeaders,
+} from '@/utils/excel/columnMapping';
+
+const NOT_MAPPED = '__none__';
+const AUTO_DETECT = '__auto__';
+
+export interface ColumnMappingSettings {
+  mapping: ColumnMapping;
+  defaultBranch: string;
+  dayOnlyDates: boolean;
+}
+
+interface ColumnMappingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  sheet: ExcelSheetSummary | null;
+  onContinue: (settings: ColumnMappingSettings) => void;
+  // Shown on the continue button while rows are being mapped
+  processingLabel?: string | null;
+}
+
+export const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
+  open,
+  onOpenChange,
+  fileName,
+  sheet,
+  onContinue,
+  processingLabel = null,
+}) => {
+  const { profiles, loading, addProfile, updateProfile, removeProfile } = useColumnProfiles();
+  const [mapping, setMapping] = React.useState<ColumnMapping>({});
+  const [defaultBranch, setDefaultBranch] = React.useState('');
+  const [dayOnlyDates, setDayOnlyDates] = React.useState(false);
+  const [selectedProfileId, setSelectedProfileId] = React.useState<string>(AUTO_DETECT);
+  const [matchedProfileId, setMatchedProfileId] = React.useState<string | null>(null);
+  const [profileName, setProfileName] = React.useState('');
+  const [isSaving, setIsSaving] = React.useState(false);
+  const initializedSheet = React.useRef<ExcelSheetSummary | null>(null);
+
+  const headers = React.useMemo(() => sheet?.headers ?? [], [sheet]);
+
+  // Pick a saved profile by header match once per sheet, after profiles have loaded
+  React.useEffect(() => {
+    if (!sheet || loading || initializedSheet.current === sheet) return;
+    initializedSheet.current = sheet;
+
+    const matched = findMatchingProfile(sheet.headers, profiles);
+    if (matched) {
+      setMapping(resolveMappingHeaders(matched.mapping, sheet.headers));
+      setDefaultBranch(matched.branch);
+      setDayOnlyDates(matched.dayOnlyDates);
+      setSelectedProfileId(matched.id);
+      setMatchedProfileId(matched.id);
+      setProfileName(matched.name);
+    } else {
+      setMapping(guessColumnMapping(sheet.headers));
+      setDefaultBranch('');
+      setDayOnlyDates(false);
+      setSelectedProfileId(AUTO_DETECT);
+      setMatchedProfileId(null);
+      setProfileName('');
+    }
+  }, [sheet, loading, profiles]);
+
+  const sampleValues = React.useMemo(() => {
+    const samples: Record<string, string> = {};
+    for (const header of headers) {
+      const row = sheet?.sampleRows.find((r) => String(r[header] ?? '').trim() !== '');
+      samples[header] = row ? String(row[header]).trim() : '';
+    }
+    return samples;
+  }, [headers, sheet]);
+
+  const missingFields = getMissingRequiredFields(mapping);
+  const selectedProfile = profiles.find((profile) => profile.id === selectedProfileId) || null;
+
+  const handleProfileChange = (value: string) => {
+    setSelectedProfileId(value);
+    if (value === AUTO_DETECT) {
+      setMapping(guessColumnMapping(headers));
+      setDefaultBranch('');
+      setDayOnlyDates(false);
+      setProfileName('');
+      return;
+    }
+    const profile = profiles.find((p) => p.id === value);
+    if (!profile) return;
+    setMapping(resolveMappingHeaders(profile.mapping, headers));
+    setDefaultBranch(profile.branch);
+    setDayOnlyDates(profile.dayOnlyDates);
+    setProfileName(profile.name);
+  };
+
+  const handleFieldChange = (field: ImportField, header: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (header === NOT_MAPPED) {
+        delete next[field];
+      } else {
+        next[field] = header;
+      }
+      return next;
+    });
+  };
+
+  const handleSaveProfile = async (asNew: boolean) => {
+    const name = profileName.trim();
+    if (!name) {
+      toast({
+        title: 'Profile name required',
+        description: 'Enter a name for this column mapping.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = { name, branch: defaultBranch.trim().toUpperCase(), mapping, headers, dayOnlyDates };
+      if (!asNew && selectedProfile) {
+        await updateProfile(selectedProfile.id, payload);
+        toast({ title: 'Profile updated', description: `"${name}" has been updated.` });
+      } else {
+        const created = await addProfile(payload);
+        if (created) setSelectedProfileId(created.id);
+        toast({ title: 'Profile saved', description: `"${name}" will be picked automatically for matching files.` });
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save profile.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!selectedProfile) return;
+    try {
+      await removeProfile(selectedProfile.id);
+      handleProfileChange(AUTO_DETECT);
+      toast({ title: 'Profile deleted', description: `"${selectedProfile.name}" has been removed.` });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete profile.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader className="flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+              <Columns3 className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <DialogTitle className="text-xl">Map Columns</DialogTitle>
+              <p className="text-sm text-muted-foreground">
+                {fileName} • {headers.length} columns found
+              </p>
+            </div>
+          </div>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-auto space-y-5 pr-1">
+            {/* Profile selection */}
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1.5">
+                <Label>Column profile</Label>
+                <Select value={selectedProfileId} onValueChange={handleProfileChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover">
+                    <SelectItem value={AUTO_DETECT}>Auto-detect from headers</SelectItem>
+                    {profiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.name}
+                        {profile.branch ? ` (${profile.branch})` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {matchedProfileId && matchedProfileId === selectedProfileId && (
+                  <Badge variant="secondary" className="font-normal">Matched by headers</Badge>
+                )}
+              </div>
+              <div className="space-y-1.5">
+                <Label>Branch for rows without one</Label>
+                <Input
+                  value={defaultBranch}
+                  onChange={(e) => setDefaultBranch(e.target.value.toUpperCase())}
+                  placeholder="e.g. MHB"
+                />
+              </div>
+            </div>
+
+            {/* Field mapping */}
+            <div className="border border-border rounded-lg divide-y divide-border">
+              {IMPORT_FIELDS.map((definition) => {
+                const header = mapping[definition.field];
+                return (
+                  <div key={definition.field} className="grid grid-cols-[140px_1fr_1fr] items-center gap-3 px-3 py-2">
+                    <span className="text-sm font-medium text-foreground">
+                      {definition.label}
+                      {definition.required && <span className="text-destructive"> *</span>}
+                    </span>
+                    <Select
+                      value={header || NOT_MAPPED}
+                      onValueChange={(value) => handleFieldChange(definition.field, value)}
+                    >
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-popover">
+                        <SelectItem value={NOT_MAPPED}>— Not mapped —</SelectItem>
+                        {headers.map((h) => (
+                          <SelectItem key={h} value={h}>
+                            {h}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span className="text-xs text-muted-foreground truncate">
+                      {header ? sampleValues[header] || '(empty)' : ''}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex items-start justify-between gap-4 rounded-lg border border-border px-3 py-2">
+              <div>
+                <Label htmlFor="day-only-dates">Date column holds day numbers only</Label>
+                <p className="text-xs text-muted-foreground">
+                  Values like "9" or "9 (EA)" are combined with the import start month. Leave off for real dates.
+                </p>
+              </div>
+              <Switch id="day-only-dates" checked={dayOnlyDates} onCheckedChange={setDayOnlyDates} />
+            </div>
+
+            {/* Save as profile */}
+            <div className="space-y-1.5">
+              <Label>Save mapping as profile</Label>
+              <div className="flex flex-wrap gap-2">
+                <Input
+                  className="flex-1 min-w-[200px]"
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  placeholder="e.g. MHB POS export"
+                />
+                {selectedProfile && (
+                  <Button variant="outline" onClick={() => handleSaveProfile(false)} disabled={isSaving} className="gap-2">
+                    <Save className="h-4 w-4" />
+                    Update
+                  </Button>
+                )}
+                <Button variant="outline" onClick={() => handleSaveProfile(true)} disabled={isSaving} className="gap-2">
+                  {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                  Save as new
+                </Button>
+                {selectedProfile && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleDeleteProfile}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="flex-shrink-0 pt-4 border-t border-border sm:justify-between gap-3">
+          <p className="text-sm text-muted-foreground">
+            {missingFields.length > 0 && (
+              <span className="text-destructive">
+                Map required fields: {missingFields.map((f) => f.label).join(', ')}
+              </span>
+            )}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => onContinue({ mapping, defaultBranch: defaultBranch.trim(), dayOnlyDates })}
+              disabled={loading || missingFields.length > 0 || !!processingLabel}
+              className="gap-2"
+            >
+              {processingLabel && <Loader2 className="h-4 w-4 animate-spin" />}
+              {processingLabel ?? 'Continue to Preview'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,245 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Calendar, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Calendar as CalendarComponent } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useReferenceData } from '@/hooks/useReferenceData';
+import { useRole } from '@/hooks/useRole';
+import { toast } from '@/hooks/use-toast';
+import { SalesEntry } from '@/types/sales';
+import { formatCurrency } from '@/utils/formatters';
+import { computeAmount, discountFromAmount, resolveAmount } from '@/utils/salesAmount';
+
+export type SalesEntryUpdates = Partial<Omit<SalesEntry, 'id' | 'createdAt'>>;
+
+interface EditSalesEntryDialogProps {
+  entry: SalesEntry | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (entry: SalesEntry, updates: SalesEntryUpdates) => Promise<void>;
+}
+
+type FormState = Omit<SalesEntry, 'id' | 'createdAt' | 'codeParts'>;
+
+const toFormState = (entry: SalesEntry): FormState => ({
+  date: entry.date,
+  upc: entry.upc,
+  name: entry.name,
+  description: entry.description,
+  qty: entry.qty,
+  category: entry.category,
+  price: entry.price,
+  discountPercent: entry.discountPercent,
+  amount: entry.amount,
+  branch: entry.branch,
+});
+
+// Same checks as the manual entry form
+const validate = (form: FormState): string | null => {
+  if (!form.name.trim()) return 'Product name is required';
+  if (!Number.isInteger(form.qty) || form.qty < 1) return 'Quantity must be at least 1';
+  if (!form.category) return 'Category is required';
+  if (form.price < 0) return 'Price must be 0 or greater';
+  if (!form.branch) return 'Branch is required';
+  return null;
+};
+
+export const EditSalesEntryDialog: React.FC<EditSalesEntryDialogProps> = ({ entry, onOpenChange, onSave }) => {
+  const { activeBranchCodes, activeCategoryCodes } = useReferenceData();
+  const { canWriteBranch } = useRole();
+  const [form, setForm] = React.useState<FormState | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    setForm(entry ? toFormState(entry) : null);
+  }, [entry]);
+
+  if (!entry || !form) return null;
+
+  const update = (changes: Partial<FormState>) => setForm((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  // Qty and price keep the discount and recompute the amount
+  const handleQtyOrPriceChange = (changes: Pick<Partial<FormState>, 'qty' | 'price'>) => {
+    const next = { ...form, ...changes };
+    update({ ...changes, amount: computeAmount(next.price, next.qty, next.discountPercent) });
+  };
+
+  // A typed amount recomputes the discount, like on the entry form
+  const handleAmountChange = (amount: number) => {
+    const discountPercent = discountFromAmount(form.price, form.qty, amount);
+    update(discountPercent === null ? { amount } : { amount, discountPercent });
+  };
+
+  const handleSave = async () => {
+    const problem = validate(form);
+    if (problem) {
+      toast({ title: 'Check the entry', description: problem, variant: 'destructive' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(entry, {
+        ...form,
+        name: form.name.trim(),
+        amount: resolveAmount(form.amount, form.price, form.qty, form.discountPercent),
+      });
+      toast({ title: 'Entry updated', description: `${form.name.trim()} saved.` });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update entry.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Keep the entry's own codes selectable even if they were deactivated since
+  const branchOptions = [...new Set([...activeBranchCodes.filter(canWriteBranch), entry.branch])];
+  const categoryOptions = [...new Set([...activeCategoryCodes, entry.category].filter(Boolean))];
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Sales Entry</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-4">
+          <div className="space-y-2">
+            <Label>Date</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-full justify-start font-normal">
+                  <Calendar className="mr-2 h-4 w-4" />
+                  {format(parseISO(form.date), 'MMM dd, yyyy')}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0 bg-popover" align="start">
+                <CalendarComponent
+                  mode="single"
+                  selected={parseISO(form.date)}
+                  onSelect={(date) => date && update({ date: format(date, 'yyyy-MM-dd') })}
+                  initialFocus
+                  className="p-3 pointer-events-auto"
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-upc">UPC</Label>
+            <Input id="edit-upc" value={form.upc} onChange={(e) => update({ upc: e.target.value })} />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="edit-name">Name *</Label>
+            <Input id="edit-name" value={form.name} onChange={(e) => update({ name: e.target.value })} />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="edit-description">Description</Label>
+            <Input
+              id="edit-description"
+              value={form.description}
+              onChange={(e) => update({ description: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-branch">Branch *</Label>
+            <Select value={form.branch} onValueChange={(branch) => update({ branch })}>
+              <SelectTrigger id="edit-branch">
+                <SelectValue placeholder="Select branch" />
+              </SelectTrigger>
+              <SelectContent className="bg-popover">
+                {branchOptions.map((branch) => (
+                  <SelectItem key={branch} value={branch}>
+                    {branch}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-category">Category *</Label>
+            <Select value={form.category} onValueChange={(category) => update({ category })}>
+              <SelectTrigger id="edit-category">
+                <SelectValue placeholder="Select category" />
+              </SelectTrigger>
+              <SelectContent className="bg-popover">
+                {categoryOptions.map((category) => (
+                  <SelectItem key={category} value={category}>
+                    {category}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-qty">QTY *</Label>
+            <Input
+              id="edit-qty"
+              type="number"
+              min={1}
+              value={form.qty || ''}
+              onChange={(e) => handleQtyOrPriceChange({ qty: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-price">Price</Label>
+            <Input
+              id="edit-price"
+              type="number"
+              min={0}
+              step={0.01}
+              value={form.price || ''}
+              onChange={(e) => handleQtyOrPriceChange({ price: parseFloat(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-amount">Amount</Label>
+            <Input
+              id="edit-amount"
+              type="number"
+              min={0}
+              step={0.01}
+              value={form.amount || ''}
+              placeholder={formatCurrency(computeAmount(form.price, form.qty, form.discountPercent))}
+              onChange={(e) => handleAmountChange(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-discount">Discount %</Label>
+            <Input id="edit-discount" value={form.discountPercent || ''} placeholder="Auto" readOnly className="bg-muted/50" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Save Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -9,9 +9,23 @@ import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { DateRange } from '@/types/sales';
 import { SectionCard } from '@/components/sales/SectionCard';
-import { exportToExcel, importFromExcel, generateExcelTemplate } from '@/utils/excelUtils';
-import { SalesEntry } from '@/types/sales';
+import { ImportPreviewDialog } from '@/components/sales/ImportPreviewDialog';
+import { ColumnMappingDialog, ColumnMappingSettings } from '@/components/sales/ColumnMappingDialog';
+import { SheetPickerDialog, SheetSelection } from '@/components/sales/SheetPickerDialog';
+import { ExcelSheetSummary, inferBranchFromSheetName } from '@/utils/excel/workbook';
+import { ExcelParseProgress, ExcelWorkbook, openExcelWorkbook } from '@/utils/excel/excelWorker';
+import {
+  exportToExcel,
+  getImportDateWindow,
+  ImportReferenceData,
+  ImportRow,
+  ImportedSalesEntry,
+} from '@/utils/excelUtils';
+import { DuplicateMode, ImportOutcome, ImportRowError, SalesEntry } from '@/types/sales';
 import { toast } from '@/hooks/use-toast';
+import { useCollectionItemsStore } from '@/hooks/useCollectionItemsStore';
+import { useProductCodeSchema } from '@/hooks/useProductCodeSchema';
+import { useReferenceData } from '@/hooks/useReferenceData';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,12 +38,25 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 
+const PARSE_STAGE_LABELS: Record<ExcelParseProgress['stage'], string> = {
+  reading: 'Reading file...',
+  parsing: 'Parsing sheets...',
+  mapping: 'Mapping rows...',
+};
+
+const formatParseProgress = (progress: ExcelParseProgress) =>
+  `${PARSE_STAGE_LABELS[progress.stage]} ${progress.percent}% (${progress.rows.toLocaleString()} rows)`;
+
 interface FilterImportExportProps {
   dateRange: DateRange;
   onDateRangeChange: (range: DateRange) => void;
   entries: SalesEntry[];
-  onImport: (entries: SalesEntry[]) => Promise<void>;
-  onClearAll: () => void;
+  onImport: (entries: ImportedSalesEntry[], mode: DuplicateMode, fileName: string) => Promise<ImportOutcome>;
+  findExisting?: (entries: ImportedSalesEntry[]) => Promise<(string | null)[]>;
+  // Clear All is hidden when omitted
+  onClearAll?: () => void;
+  // Hides the import button for members who can't add entries
+  canImport?: boolean;
   isImporting?: boolean;
   importProgress?: number;
 }
@@ -39,13 +66,47 @@ export const FilterImportExport: React.FC<FilterImportExportProps> = ({
   onDateRangeChange,
   entries,
   onImport,
+  findExisting,
   onClearAll,
+  canImport = true,
   isImporting: externalIsImporting = false,
   importProgress = 0,
 }) => {
+  const { items: products } = useCollectionItemsStore();
+  const { schema: productCodeSchema } = useProductCodeSchema();
+  const { activeBranchCodes, activeCategoryCodes } = useReferenceData();
+  const reference = React.useMemo<ImportReferenceData>(
+    () => ({ branches: activeBranchCodes, categories: activeCategoryCodes }),
+    [activeBranchCodes, activeCategoryCodes]
+  );
+  const inferSheetBranch = React.useCallback(
+    (sheetName: string) => inferBranchFromSheetName(sheetName, activeBranchCodes),
+    [activeBranchCodes]
+  );
   const fileInputRef = React.useRef<HTMLInputElement>(null);
   const [isProcessingFile, setIsProcessingFile] = React.useState(false);
   const [importCalendarOpen, setImportCalendarOpen] = React.useState(false);
+  const [previewOpen, setPreviewOpen] = React.useState(false);
+  const [previewRows, setPreviewRows] = React.useState<ImportRow[]>([]);
+  const [previewFileName, setPreviewFileName] = React.useState('');
+  const [mappingOpen, setMappingOpen] = React.useState(false);
+  const [workbookSheets, setWorkbookSheets] = React.useState<ExcelSheetSummary[]>([]);
+  const [sheetPickerOpen, setSheetPickerOpen] = React.useState(false);
+  const [selection, setSelection] = React.useState<SheetSelection>({ sheetNames: [], inferBranch: false });
+  const [parseProgress, setParseProgress] = React.useState<ExcelParseProgress | null>(null);
+  const workbookRef = React.useRef<ExcelWorkbook | null>(null);
+
+  const closeWorkbook = () => {
+    workbookRef.current?.close();
+    workbookRef.current = null;
+  };
+
+  // The parsed rows stay in the workbook's worker until sheets are picked and mapped
+  React.useEffect(() => {
+    if (!sheetPickerOpen && !mappingOpen) closeWorkbook();
+  }, [sheetPickerOpen, mappingOpen]);
+
+  React.useEffect(() => closeWorkbook, []);
   
   const isImporting = externalIsImporting || isProcessingFile;
 
@@ -68,39 +129,39 @@ export const FilterImportExport: React.FC<FilterImportExportProps> = ({
     fileInputRef.current?.click();
   };
 
+  const handleSheetsSelected = (next: SheetSelection) => {
+    setSheetPickerOpen(false);
+    setSelection(next);
+    setMappingOpen(true);
+  };
+
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (file.size > 10 * 1024 * 1024) {
-      toast({
-        title: 'File too large',
-        description: 'Maximum file size is 10MB.',
-        variant: 'destructive',
-      });
-      return;
-    }
-
     setIsProcessingFile(true);
     try {
-      const result = await importFromExcel(file, {
-        dateRangeFrom: dateRange.from,
-        dateRangeTo: dateRange.to,
-      });
-      
-      if (result.success && result.data.length > 0) {
-        // Use async import for smooth UI
-        await onImport(result.data as SalesEntry[]);
-        toast({
-          title: 'Import successful',
-          description: `${result.data.length} entries imported.${result.errors.length > 0 ? ` ${result.errors.length} rows had issues.` : ''}`,
-        });
-      } else {
+      // Parsed in a worker so large workbooks don't freeze the page
+      closeWorkbook();
+      const workbook = await openExcelWorkbook(file, setParseProgress);
+      workbookRef.current = workbook;
+      const { sheets } = workbook;
+      const sheetsWithRows = sheets.filter((sheet) => sheet.rowCount > 0);
+      setPreviewFileName(file.name);
+      setWorkbookSheets(sheets);
+
+      // Sheets are picked (when there are several), columns mapped, then rows previewed before saving
+      if (sheetsWithRows.length === 0) {
+        closeWorkbook();
         toast({
           title: 'Import failed',
-          description: result.errors[0] || 'No valid entries found.',
+          description: 'No rows found in the workbook.',
           variant: 'destructive',
         });
+      } else if (sheets.length === 1) {
+        handleSheetsSelected({ sheetNames: [sheets[0].sheetName], inferBranch: false });
+      } else {
+        setSheetPickerOpen(true);
       }
     } catch (error) {
       console.error('Import error:', error);
@@ -116,12 +177,97 @@ export const FilterImportExport: React.FC<FilterImportExportProps> = ({
       });
     } finally {
       setIsProcessingFile(false);
+      setParseProgress(null);
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
     }
   };
 
+  const handleMappingContinue = async ({ mapping, defaultBranch, dayOnlyDates }: ColumnMappingSettings) => {
+    const workbook = workbookRef.current;
+    if (!workbook || selection.sheetNames.length === 0) return;
+
+    setIsProcessingFile(true);
+    try {
+      const result = await workbook.buildImportRows(
+        selection.sheetNames,
+        mapping,
+        {
+          dateRangeFrom: dateRange.from,
+          dateRangeTo: dateRange.to,
+          defaultBranch,
+          allowDayOnlyDates: dayOnlyDates,
+          inferBranchFromSheet: selection.inferBranch,
+          products,
+          productCodeSchema,
+          reference,
+        },
+        setParseProgress
+      );
+
+      if (result.success && result.rows.length > 0) {
+        setMappingOpen(false);
+        setPreviewRows(result.rows);
+        setPreviewOpen(true);
+      } else {
+        toast({
+          title: 'Import failed',
+          description: result.errors[0] || 'No valid entries found with this column mapping.',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Import error:', error);
+      toast({
+        title: 'Import error',
+        description: error instanceof Error ? error.message : 'Failed to map rows.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsProcessingFile(false);
+      setParseProgress(null);
+    }
+  };
+
+  const handleConfirmImport = async (
+    importEntries: ImportedSalesEntry[],
+    mode: DuplicateMode
+  ): Promise<ImportRowError[]> => {
+    try {
+      const outcome = await onImport(importEntries, mode, previewFileName);
+
+      if (outcome.rowErrors.length > 0) {
+        const failedRows = new Set(outcome.rowErrors.map((rowError) => rowError.rowIndex)).size;
+        toast({
+          title: 'Import rejected',
+          description: `${failedRows} rows failed validation. Nothing was saved — fix or exclude them and try again.`,
+          variant: 'destructive',
+        });
+        return outcome.rowErrors;
+      }
+
+      setPreviewOpen(false);
+      setPreviewRows([]);
+      toast({
+        title: 'Import successful',
+        description: [
+          `${outcome.inserted} entries imported.`,
+          outcome.replaced > 0 && `${outcome.replaced} existing entries replaced.`,
+          outcome.skipped > 0 && `${outcome.skipped} already imported rows skipped.`,
+        ].filter(Boolean).join(' '),
+      });
+    } catch (error) {
+      console.error('Import error:', error);
+      toast({
+        title: 'Import error',
+        description: `${error instanceof Error ? error.message : 'Failed to save imported entries.'} Nothing was saved.`,
+        variant: 'destructive',
+      });
+    }
+    return [];
+  };
+
   const handleExport = () => {
     if (entries.length === 0) {
       toast({
@@ -184,59 +330,65 @@ export const FilterImportExport: React.FC<FilterImportExportProps> = ({
             </PopoverContent>
           </Popover>
 
-          {/* Import Button with Calendar Popover */}
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept=".xlsx,.xls"
-            onChange={handleFileChange}
-            className="hidden"
-          />
-          
-          <Popover open={importCalendarOpen} onOpenChange={setImportCalendarOpen}>
-            <PopoverTrigger asChild>
-              <Button
-                variant="outline"
-                onClick={handleImportClick}
-                disabled={isImporting}
-                className="gap-2 min-w-[140px]"
-              >
-                <Upload className="h-4 w-4" />
-                {isImporting 
-                  ? `Importing... ${importProgress}%` 
-                  : 'Import Excel'}
-              </Button>
-            </PopoverTrigger>
-            <PopoverContent className="w-auto p-0 bg-popover" align="start">
-              <div className="p-3 border-b border-border">
-                <p className="text-sm font-medium text-foreground">Select Month for Import</p>
-                <p className="text-xs text-muted-foreground">The day numbers from Excel will be combined with this month/year.</p>
-              </div>
-              <Calendar
-                initialFocus
-                mode="range"
-                defaultMonth={dateRange.from || new Date()}
-                selected={{ from: dateRange.from, to: dateRange.to }}
-                onSelect={(range) => onDateRangeChange({ from: range?.from, to: range?.to })}
-                numberOfMonths={1}
-                className="p-3 pointer-events-auto"
+          {canImport && (
+            <>
+              {/* Import Button with Calendar Popover */}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".xlsx,.xls"
+                onChange={handleFileChange}
+                className="hidden"
               />
-              <div className="p-3 border-t border-border flex justify-end gap-2">
-                <Button variant="ghost" size="sm" onClick={() => setImportCalendarOpen(false)}>
-                  Cancel
-                </Button>
-                <Button size="sm" onClick={handleDateSelectAndImport} disabled={!dateRange.from}>
-                  Continue to Import
-                </Button>
-              </div>
-            </PopoverContent>
-          </Popover>
 
-          {/* Upload info text */}
-          <span className="text-sm text-muted-foreground">
-            Upload Excel file (max 10MB)
-          </span>
-          
+              <Popover open={importCalendarOpen} onOpenChange={setImportCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    onClick={handleImportClick}
+                    disabled={isImporting}
+                    className="gap-2 min-w-[140px]"
+                  >
+                    <Upload className="h-4 w-4" />
+                    {parseProgress
+                      ? formatParseProgress(parseProgress)
+                      : isImporting
+                        ? `Importing... ${importProgress}%`
+                        : 'Import Excel'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0 bg-popover" align="start">
+                  <div className="p-3 border-b border-border">
+                    <p className="text-sm font-medium text-foreground">Select Dates for Import</p>
+                    <p className="text-xs text-muted-foreground">Rows dated outside this range are rejected. Day-only dates use the start month.</p>
+                  </div>
+                  <Calendar
+                    initialFocus
+                    mode="range"
+                    defaultMonth={dateRange.from || new Date()}
+                    selected={{ from: dateRange.from, to: dateRange.to }}
+                    onSelect={(range) => onDateRangeChange({ from: range?.from, to: range?.to })}
+                    numberOfMonths={1}
+                    className="p-3 pointer-events-auto"
+                  />
+                  <div className="p-3 border-t border-border flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setImportCalendarOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" onClick={handleDateSelectAndImport} disabled={!dateRange.from}>
+                      Continue to Import
+                    </Button>
+                  </div>
+                </PopoverContent>
+              </Popover>
+
+              {/* Upload info text */}
+              <span className="text-sm text-muted-foreground">
+                Upload Excel file (.xlsx, .xls)
+              </span>
+            </>
+          )}
+
           {/* Export Button */}
           <Button
             variant="outline"
@@ -248,34 +400,68 @@ export const FilterImportExport: React.FC<FilterImportExportProps> = ({
           </Button>
 
           {/* Clear All Button */}
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
-              <Button
-                variant="destructive"
-                disabled={entries.length === 0}
-                className="gap-2"
-              >
-                <Trash2 className="h-4 w-4" />
-                Clear All
-              </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Clear all entries?</AlertDialogTitle>
-                <AlertDialogDescription>
-                  This action cannot be undone. All {entries.length} sales entries will be permanently deleted.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                <AlertDialogAction onClick={onClearAll} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+          {onClearAll && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="destructive"
+                  disabled={entries.length === 0}
+                  className="gap-2"
+                >
+                  <Trash2 className="h-4 w-4" />
                   Clear All
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Clear all entries?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    All {entries.length} sales entries will be moved to the trash, where they can be restored from the Trash page.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={onClearAll} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                    Clear All
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
         </div>
       </div>
+
+      <SheetPickerDialog
+        open={sheetPickerOpen}
+        onOpenChange={setSheetPickerOpen}
+        fileName={previewFileName}
+        sheets={workbookSheets}
+        onContinue={handleSheetsSelected}
+        inferBranch={inferSheetBranch}
+      />
+
+      <ColumnMappingDialog
+        open={mappingOpen}
+        onOpenChange={setMappingOpen}
+        fileName={previewFileName}
+        sheet={workbookSheets.find((sheet) => sheet.sheetName === selection.sheetNames[0]) ?? null}
+        onContinue={handleMappingContinue}
+        processingLabel={parseProgress ? formatParseProgress(parseProgress) : isProcessingFile ? 'Mapping rows...' : null}
+      />
+
+      <ImportPreviewDialog
+        open={previewOpen}
+        onOpenChange={setPreviewOpen}
+        fileName={previewFileName}
+        rows={previewRows}
+        onConfirm={handleConfirmImport}
+        dateWindow={getImportDateWindow({ dateRangeFrom: dateRange.from, dateRangeTo: dateRange.to })}
+        reference={reference}
+        findExisting={findExisting}
+        products={products}
+        isImporting={externalIsImporting}
+        importProgress={importProgress}
+      />
     </SectionCard>
   );
 };
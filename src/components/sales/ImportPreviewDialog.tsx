@@ -0,0 +1,544 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, Copy, FileSpreadsheet, Loader2, PackageSearch } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { TablePagination } from '@/components/ui/TablePagination';
+import { cn } from '@/lib/utils';
+import { DuplicateMode, ImportRowError } from '@/types/sales';
+import { formatCurrency } from '@/utils/formatters';
+import type { CollectionItem } from '@/utils/collectionItemsUtils';
+import { applyProductMatch, createProductMatcher } from '@/utils/excel/productMatching';
+import {
+  ImportDateWindow,
+  ImportReferenceData,
+  ImportRow,
+  ImportedSalesEntry,
+  validateImportedEntry,
+} from '@/utils/excelUtils';
+
+const ITEMS_PER_PAGE = 50;
+const NO_CATEGORY = '__none__';
+const DUPLICATE_CHECK_DELAY = 500;
+
+const DUPLICATE_MODE_LABELS: Record<DuplicateMode, string> = {
+  skip: 'Skip rows already imported',
+  replace: 'Replace rows already imported',
+  append: 'Append anyway (allow duplicates)',
+};
+
+type PreviewFilter = 'all' | 'issues' | 'duplicates' | 'unmatched' | 'excluded';
+
+interface PreviewRow extends ImportRow {
+  excluded: boolean;
+}
+
+interface ImportPreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  rows: ImportRow[];
+  // Resolves with server-side row errors (indexes into the confirmed entries); empty on success
+  onConfirm: (entries: ImportedSalesEntry[], mode: DuplicateMode) => Promise<ImportRowError[]>;
+  findExisting?: (entries: ImportedSalesEntry[]) => Promise<(string | null)[]>;
+  dateWindow?: ImportDateWindow | null;
+  // Active branches and categories; edits are validated against them
+  reference?: ImportReferenceData | null;
+  // Product master used to re-link rows whose UPC or name is edited
+  products?: CollectionItem[];
+  isImporting?: boolean;
+  importProgress?: number;
+}
+
+const hasIssues = (row: PreviewRow) => row.errors.length > 0 || !row.entry.category;
+
+export const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({
+  open,
+  onOpenChange,
+  fileName,
+  rows,
+  onConfirm,
+  findExisting,
+  dateWindow = null,
+  reference = null,
+  products,
+  isImporting = false,
+  importProgress = 0,
+}) => {
+  const [previewRows, setPreviewRows] = React.useState<PreviewRow[]>([]);
+  const [filter, setFilter] = React.useState<PreviewFilter>('all');
+  const [currentPage, setCurrentPage] = React.useState(1);
+  const [existingIds, setExistingIds] = React.useState<(string | null)[]>([]);
+  const [checkingDuplicates, setCheckingDuplicates] = React.useState(false);
+  const [duplicateMode, setDuplicateMode] = React.useState<DuplicateMode>('skip');
+  const [editRevision, setEditRevision] = React.useState(0);
+
+  const matchProduct = React.useMemo(
+    () => (products && products.length > 0 ? createProductMatcher(products) : null),
+    [products]
+  );
+
+  // Start from a fresh copy every time a new file is parsed
+  React.useEffect(() => {
+    setPreviewRows(rows.map((row) => ({ ...row, excluded: false })));
+    setExistingIds([]);
+    setDuplicateMode('skip');
+    setFilter('all');
+    setCurrentPage(1);
+  }, [rows]);
+
+  // Look up rows that are already stored; re-run shortly after edits since they change the key
+  const previewRowsRef = React.useRef(previewRows);
+  previewRowsRef.current = previewRows;
+
+  React.useEffect(() => {
+    if (!open || !findExisting || rows.length === 0) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setCheckingDuplicates(true);
+      try {
+        const matches = await findExisting(previewRowsRef.current.map((row) => row.entry));
+        if (!cancelled) setExistingIds(matches);
+      } catch (error) {
+        console.error('Duplicate check error:', error);
+      } finally {
+        if (!cancelled) setCheckingDuplicates(false);
+      }
+    }, editRevision === 0 ? 0 : DUPLICATE_CHECK_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, findExisting, rows, editRevision]);
+
+  React.useEffect(() => {
+    setCurrentPage(1);
+  }, [filter]);
+
+  const visibleRows = React.useMemo(() => {
+    const indexed = previewRows.map((row, index) => ({ row, index }));
+    if (filter === 'issues') return indexed.filter(({ row }) => !row.excluded && hasIssues(row));
+    if (filter === 'duplicates') return indexed.filter(({ row, index }) => !row.excluded && !!existingIds[index]);
+    if (filter === 'unmatched') return indexed.filter(({ row }) => !row.excluded && row.unmatchedProduct);
+    if (filter === 'excluded') return indexed.filter(({ row }) => row.excluded);
+    return indexed;
+  }, [previewRows, filter, existingIds]);
+
+  const totalPages = Math.ceil(visibleRows.length / ITEMS_PER_PAGE);
+  const paginatedRows = React.useMemo(() => {
+    const start = (currentPage - 1) * ITEMS_PER_PAGE;
+    return visibleRows.slice(start, start + ITEMS_PER_PAGE);
+  }, [visibleRows, currentPage]);
+
+  const summary = React.useMemo(() => {
+    let included = 0;
+    let withErrors = 0;
+    let noCategory = 0;
+    let excluded = 0;
+    let duplicates = 0;
+    let unmatched = 0;
+    let totalAmount = 0;
+
+    previewRows.forEach((row, index) => {
+      if (row.excluded) {
+        excluded += 1;
+        return;
+      }
+      included += 1;
+      totalAmount += row.entry.amount;
+      if (row.errors.length > 0) withErrors += 1;
+      if (!row.entry.category) noCategory += 1;
+      if (existingIds[index]) duplicates += 1;
+      if (row.unmatchedProduct) unmatched += 1;
+    });
+
+    return { included, withErrors, noCategory, excluded, duplicates, unmatched, totalAmount };
+  }, [previewRows, existingIds]);
+
+  // Per-sheet counts follow edits and exclusions, so only included rows are counted
+  const sheetSummaries = React.useMemo(() => {
+    const bySheet = new Map<string, { rowCount: number; errorCount: number }>();
+    for (const row of previewRows) {
+      const counts = bySheet.get(row.sheetName) || { rowCount: 0, errorCount: 0 };
+      if (!row.excluded) {
+        counts.rowCount += 1;
+        if (row.errors.length > 0) counts.errorCount += 1;
+      }
+      bySheet.set(row.sheetName, counts);
+    }
+    return Array.from(bySheet, ([sheetName, counts]) => ({ sheetName, ...counts }));
+  }, [previewRows]);
+  const multiSheet = sheetSummaries.length > 1;
+
+  const updateEntry = (index: number, changes: Partial<ImportedSalesEntry>) => {
+    setPreviewRows((prev) =>
+      prev.map((row, i) => {
+        if (i !== index) return row;
+        let entry = { ...row.entry, ...changes };
+        let unmatchedProduct = row.unmatchedProduct;
+
+        // A corrected UPC or product code may now be in the master
+        if (matchProduct && ('upc' in changes || 'name' in changes)) {
+          const match = matchProduct(entry);
+          if (match) entry = applyProductMatch(entry, match.product);
+          unmatchedProduct = !match;
+        }
+        return { ...row, entry, unmatchedProduct, errors: validateImportedEntry(entry, dateWindow, reference) };
+      })
+    );
+    setEditRevision((revision) => revision + 1);
+  };
+
+  const setExcluded = (index: number, excluded: boolean) => {
+    setPreviewRows((prev) => prev.map((row, i) => (i === index ? { ...row, excluded } : row)));
+  };
+
+  const handleExcludeErrors = () => {
+    setPreviewRows((prev) => prev.map((row) => (row.errors.length > 0 ? { ...row, excluded: true } : row)));
+  };
+
+  const handleConfirm = async () => {
+    const includedIndexes = previewRows
+      .map((row, index) => (row.excluded ? -1 : index))
+      .filter((index) => index !== -1);
+    const rowErrors = await onConfirm(
+      includedIndexes.map((index) => previewRows[index].entry),
+      duplicateMode
+    );
+    if (rowErrors.length === 0) return;
+
+    // Nothing was saved; surface the rejected rows so they can be fixed or excluded
+    const errorsByRow = new Map<number, string[]>();
+    for (const rowError of rowErrors) {
+      const previewIndex = includedIndexes[rowError.rowIndex];
+      errorsByRow.set(previewIndex, [...(errorsByRow.get(previewIndex) || []), rowError.message]);
+    }
+    setPreviewRows((prev) =>
+      prev.map((row, index) =>
+        errorsByRow.has(index)
+          ? { ...row, errors: Array.from(new Set([...row.errors, ...errorsByRow.get(index)!])) }
+          : row
+      )
+    );
+    setFilter('issues');
+  };
+
+  const rowsToWrite = duplicateMode === 'skip' ? summary.included - summary.duplicates : summary.included;
+  const canImport = rowsToWrite > 0 && summary.withErrors === 0 && !isImporting && !checkingDuplicates;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isImporting && onOpenChange(next)}>
+      <DialogContent className="max-w-7xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader className="flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+              <FileSpreadsheet className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <DialogTitle className="text-xl">Import Preview</DialogTitle>
+              <p className="text-sm text-muted-foreground">
+                {fileName} • {previewRows.length} rows parsed
+                {multiSheet && ` from ${sheetSummaries.length} sheets`}
+              </p>
+            </div>
+          </div>
+        </DialogHeader>
+
+        {multiSheet && (
+          <div className="flex flex-wrap gap-2 flex-shrink-0">
+            {sheetSummaries.map((sheet) => (
+              <Badge
+                key={sheet.sheetName}
+                variant={sheet.errorCount > 0 ? 'destructive' : 'secondary'}
+                className="font-normal"
+              >
+                {sheet.sheetName}: {sheet.rowCount} rows
+                {sheet.errorCount > 0 && `, ${sheet.errorCount} with errors`}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {/* Filter chips */}
+        <div className="flex flex-wrap items-center gap-2 flex-shrink-0">
+          <Button
+            variant={filter === 'all' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setFilter('all')}
+          >
+            All rows ({previewRows.length})
+          </Button>
+          <Button
+            variant={filter === 'issues' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setFilter('issues')}
+            className="gap-1"
+          >
+            <AlertTriangle className="h-3.5 w-3.5" />
+            Needs attention ({previewRows.filter((row) => !row.excluded && hasIssues(row)).length})
+          </Button>
+          {summary.duplicates > 0 && (
+            <Button
+              variant={filter === 'duplicates' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFilter('duplicates')}
+              className="gap-1"
+            >
+              <Copy className="h-3.5 w-3.5" />
+              Already imported ({summary.duplicates})
+            </Button>
+          )}
+          {summary.unmatched > 0 && (
+            <Button
+              variant={filter === 'unmatched' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFilter('unmatched')}
+              className="gap-1"
+            >
+              <PackageSearch className="h-3.5 w-3.5" />
+              Not in product master ({summary.unmatched})
+            </Button>
+          )}
+          <Button
+            variant={filter === 'excluded' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setFilter('excluded')}
+          >
+            Excluded ({summary.excluded})
+          </Button>
+          <div className="flex-1" />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleExcludeErrors}
+            disabled={summary.withErrors === 0}
+          >
+            Exclude rows with errors
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-auto border border-border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow className="table-header border-0">
+                <TableHead className="w-[40px]"></TableHead>
+                {multiSheet && <TableHead className="w-[100px]">Sheet</TableHead>}
+                <TableHead className="w-[60px]">Row</TableHead>
+                <TableHead className="w-[150px]">Date</TableHead>
+                <TableHead className="min-w-[180px]">Name</TableHead>
+                <TableHead className="min-w-[160px]">Product</TableHead>
+                <TableHead className="w-[100px]">Branch</TableHead>
+                <TableHead className="w-[110px]">Category</TableHead>
+                <TableHead className="w-[80px] text-center">Qty</TableHead>
+                <TableHead className="w-[120px] text-right">Amount</TableHead>
+                <TableHead className="min-w-[160px]">Issues</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {paginatedRows.map(({ row, index }) => (
+                <TableRow
+                  key={index}
+                  className={cn(
+                    'table-row',
+                    row.excluded && 'opacity-50',
+                    !row.excluded && row.errors.length > 0 && 'bg-destructive/5',
+                    !row.excluded && row.errors.length === 0 && !row.entry.category && 'bg-warning/10'
+                  )}
+                >
+                  <TableCell>
+                    <Checkbox
+                      checked={!row.excluded}
+                      onCheckedChange={(checked) => setExcluded(index, checked !== true)}
+                      aria-label={`Include row ${row.rowNum}`}
+                    />
+                  </TableCell>
+                  {multiSheet && (
+                    <TableCell className="text-sm text-muted-foreground">{row.sheetName}</TableCell>
+                  )}
+                  <TableCell className="text-sm text-muted-foreground">{row.rowNum}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="date"
+                      min={dateWindow?.from}
+                      max={dateWindow?.to}
+                      className="h-8"
+                      value={row.entry.date}
+                      onChange={(e) => updateEntry(index, { date: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      className="h-8"
+                      value={row.entry.name}
+                      onChange={(e) => updateEntry(index, { name: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      className="h-8"
+                      value={row.entry.description}
+                      onChange={(e) => updateEntry(index, { description: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      className="h-8"
+                      value={row.entry.branch}
+                      onChange={(e) => updateEntry(index, { branch: e.target.value.toUpperCase() })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={row.entry.category || NO_CATEGORY}
+                      onValueChange={(value) => updateEntry(index, { category: value === NO_CATEGORY ? '' : value })}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-popover">
+                        <SelectItem value={NO_CATEGORY}>—</SelectItem>
+                        {(reference?.categories ?? []).map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {category}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="h-8 text-center"
+                      value={row.entry.qty}
+                      onChange={(e) => updateEntry(index, { qty: parseInt(e.target.value) || 1 })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step={0.01}
+                      className="h-8 text-right"
+                      value={row.entry.amount}
+                      onChange={(e) => updateEntry(index, { amount: parseFloat(e.target.value) || 0 })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {row.errors.map((error) => (
+                        <Badge key={error} variant="destructive" className="text-xs font-normal">
+                          {error}
+                        </Badge>
+                      ))}
+                      {!row.entry.category && (
+                        <Badge variant="outline" className="text-xs font-normal border-warning text-warning-foreground">
+                          No category
+                        </Badge>
+                      )}
+                      {existingIds[index] && (
+                        <Badge variant="secondary" className="text-xs font-normal">
+                          Already imported
+                        </Badge>
+                      )}
+                      {row.unmatchedProduct && (
+                        <Badge variant="outline" className="text-xs font-normal">
+                          Not in product master
+                        </Badge>
+                      )}
+                      {!hasIssues(row) && !existingIds[index] && !row.unmatchedProduct && (
+                        <CheckCircle2 className="h-4 w-4 text-success" />
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {paginatedRows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={multiSheet ? 11 : 10} className="h-24 text-center text-sm text-muted-foreground">
+                    No rows to show.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {totalPages > 1 && (
+          <TablePagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            onPageChange={setCurrentPage}
+            totalItems={visibleRows.length}
+            itemsPerPage={ITEMS_PER_PAGE}
+            className="flex-shrink-0"
+          />
+        )}
+
+        <DialogFooter className="flex-shrink-0 pt-4 border-t border-border sm:justify-between gap-3">
+          <div className="text-sm text-muted-foreground">
+            <span className="font-semibold text-foreground">{summary.included}</span> rows to import •
+            Total <span className="font-semibold text-foreground">{formatCurrency(summary.totalAmount)}</span>
+            {summary.withErrors > 0 && (
+              <span className="text-destructive"> • {summary.withErrors} with errors (fix or exclude them)</span>
+            )}
+            {summary.noCategory > 0 && (
+              <span> • {summary.noCategory} without category</span>
+            )}
+            {summary.unmatched > 0 && (
+              <span> • {summary.unmatched} not in product master</span>
+            )}
+            {checkingDuplicates && <span> • Checking for existing rows...</span>}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {summary.duplicates > 0 && (
+              <Select value={duplicateMode} onValueChange={(value) => setDuplicateMode(value as DuplicateMode)}>
+                <SelectTrigger className="w-[260px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover">
+                  {(Object.keys(DUPLICATE_MODE_LABELS) as DuplicateMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {DUPLICATE_MODE_LABELS[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={!canImport} className="gap-2">
+              {isImporting && <Loader2 className="h-4 w-4 animate-spin" />}
+              {isImporting ? `Importing... ${importProgress}%` : `Import ${rowsToWrite} rows`}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Trash2 } from 'lucide-react';
+import { Pencil, Trash2 } from 'lucide-react';
 import {
   Table,
   TableBody,
@@ -10,8 +10,10 @@ import {
 } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { SectionCard } from '@/components/sales/SectionCard';
 import { EmptyState } from '@/components/sales/EmptyState';
+import { EditSalesEntryDialog, SalesEntryUpdates } from '@/components/sales/EditSalesEntryDialog';
 import { TablePagination } from '@/components/ui/TablePagination';
 import { SalesEntry } from '@/types/sales';
 import { formatCurrency, formatDate } from '@/utils/formatters';
@@ -19,6 +21,13 @@ import { formatCurrency, formatDate } from '@/utils/formatters';
 interface SalesEntryTableProps {
   entries: SalesEntry[];
   onDelete?: (id: string) => void;
+  // Rows the current member may not delete keep an empty actions cell
+  canDelete?: (entry: SalesEntry) => boolean;
+  onUpdate?: (entry: SalesEntry, updates: SalesEntryUpdates) => Promise<void>;
+  canEdit?: (entry: SalesEntry) => boolean;
+  // Row checkboxes appear when set; only rows the member can edit are selectable
+  selectedIds?: Set<string>;
+  onSelectionChange?: (ids: Set<string>) => void;
   showActions?: boolean;
   currentPage?: number;
   totalPages?: number;
@@ -30,6 +39,11 @@ interface SalesEntryTableProps {
 export const SalesEntryTable: React.FC<SalesEntryTableProps> = ({
   entries,
   onDelete,
+  canDelete = () => true,
+  onUpdate,
+  canEdit = () => true,
+  selectedIds,
+  onSelectionChange,
   showActions = true,
   currentPage = 1,
   totalPages = 1,
@@ -37,6 +51,25 @@ export const SalesEntryTable: React.FC<SalesEntryTableProps> = ({
   onPageChange,
   itemsPerPage = 50,
 }) => {
+  const [editingEntry, setEditingEntry] = React.useState<SalesEntry | null>(null);
+  const hasActions = showActions && (!!onDelete || !!onUpdate);
+  const selectable = !!selectedIds && !!onSelectionChange;
+  const selectablePageIds = selectable ? entries.filter(canEdit).map((e) => e.id) : [];
+  const selectedOnPage = selectablePageIds.filter((id) => selectedIds?.has(id)).length;
+  const allOnPageSelected = selectedOnPage > 0 && selectedOnPage === selectablePageIds.length;
+
+  const toggleRow = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) next.add(id);
+    else next.delete(id);
+    onSelectionChange?.(next);
+  };
+
+  const togglePage = (checked: boolean) => {
+    const next = new Set(selectedIds);
+    selectablePageIds.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+    onSelectionChange?.(next);
+  };
   const totalAmount = entries.reduce((sum, e) => sum + e.amount, 0);
   const totalQty = entries.reduce((sum, e) => sum + e.qty, 0);
 
@@ -60,6 +93,16 @@ export const SalesEntryTable: React.FC<SalesEntryTableProps> = ({
         <Table>
           <TableHeader>
             <TableRow className="table-header border-0">
+              {selectable && (
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    checked={allOnPageSelected ? true : selectedOnPage > 0 ? 'indeterminate' : false}
+                    onCheckedChange={(checked) => togglePage(checked === true)}
+                    disabled={selectablePageIds.length === 0}
+                    aria-label="Select all on this page"
+                  />
+                </TableHead>
+              )}
               <TableHead className="w-[100px]">Date</TableHead>
               <TableHead>Product</TableHead>
               <TableHead>Category</TableHead>
@@ -68,12 +111,26 @@ export const SalesEntryTable: React.FC<SalesEntryTableProps> = ({
               <TableHead className="text-center">Disc %</TableHead>
               <TableHead className="text-right">Amount</TableHead>
               <TableHead>Branch</TableHead>
-              {showActions && <TableHead className="w-[60px]"></TableHead>}
+              {hasActions && <TableHead className="w-[96px]"></TableHead>}
             </TableRow>
           </TableHeader>
           <TableBody>
             {entries.map((entry) => (
-              <TableRow key={entry.id} className="table-row">
+              <TableRow
+                key={entry.id}
+                className="table-row"
+                data-state={selectedIds?.has(entry.id) ? 'selected' : undefined}
+              >
+                {selectable && (
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.has(entry.id)}
+                      onCheckedChange={(checked) => toggleRow(entry.id, checked === true)}
+                      disabled={!canEdit(entry)}
+                      aria-label={`Select ${entry.name}`}
+                    />
+                  </TableCell>
+                )}
                 <TableCell className="font-medium text-sm">
                   {formatDate(entry.date)}
                 </TableCell>
@@ -109,16 +166,30 @@ export const SalesEntryTable: React.FC<SalesEntryTableProps> = ({
                     {entry.branch}
                   </Badge>
                 </TableCell>
-                {showActions && onDelete && (
+                {hasActions && (
                   <TableCell>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                      onClick={() => onDelete(entry.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <div className="flex items-center justify-end gap-1">
+                      {onUpdate && canEdit(entry) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-primary"
+                          onClick={() => setEditingEntry(entry)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {onDelete && canDelete(entry) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                          onClick={() => onDelete(entry.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
                   </TableCell>
                 )}
               </TableRow>
@@ -148,6 +219,14 @@ export const SalesEntryTable: React.FC<SalesEntryTableProps> = ({
           className="border-t border-border mt-4"
         />
       )}
+
+      {onUpdate && (
+        <EditSalesEntryDialog
+          entry={editingEntry}
+          onOpenChange={(open) => !open && setEditingEntry(null)}
+          onSave={onUpdate}
+        />
+      )}
     </SectionCard>
   );
 };
@@ -0,0 +1,146 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { ExcelSheetSummary } from '@/utils/excel/workbook';
+
+export interface SheetSelection {
+  sheetNames: string[];
+  inferBranch: boolean;
+}
+
+interface SheetPickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  sheets: ExcelSheetSummary[];
+  onContinue: (selection: SheetSelection) => void;
+  // When given, offers to use the branch found in each sheet name
+  inferBranch?: (sheetName: string) => string | null;
+}
+
+export const SheetPickerDialog: React.FC<SheetPickerDialogProps> = ({
+  open,
+  onOpenChange,
+  fileName,
+  sheets,
+  onContinue,
+  inferBranch,
+}) => {
+  const [selected, setSelected] = React.useState<Set<string>>(new Set());
+  const [useSheetBranch, setUseSheetBranch] = React.useState(false);
+
+  // Preselect every sheet that has rows; turn branch inference on if any sheet name is a branch
+  React.useEffect(() => {
+    const withRows = sheets.filter((sheet) => sheet.rowCount > 0);
+    setSelected(new Set(withRows.map((sheet) => sheet.sheetName)));
+    setUseSheetBranch(!!inferBranch && withRows.some((sheet) => inferBranch(sheet.sheetName)));
+  }, [sheets, inferBranch]);
+
+  const allSelected = sheets.length > 0 && sheets.every((sheet) => selected.has(sheet.sheetName));
+  const selectedRowCount = sheets
+    .filter((sheet) => selected.has(sheet.sheetName))
+    .reduce((sum, sheet) => sum + sheet.rowCount, 0);
+
+  const toggleSheet = (sheetName: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(sheetName);
+      else next.delete(sheetName);
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(sheets.map((sheet) => sheet.sheetName)) : new Set());
+  };
+
+  const handleContinue = () => {
+    onContinue({
+      sheetNames: sheets.filter((sheet) => selected.has(sheet.sheetName)).map((sheet) => sheet.sheetName),
+      inferBranch: useSheetBranch,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader className="flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+              <Layers className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <DialogTitle className="text-xl">Select Sheets</DialogTitle>
+              <p className="text-sm text-muted-foreground">
+                {fileName} • {sheets.length} sheets
+              </p>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 px-1">
+          <Checkbox id="select-all-sheets" checked={allSelected} onCheckedChange={(checked) => toggleAll(checked === true)} />
+          <Label htmlFor="select-all-sheets" className="cursor-pointer">Select all</Label>
+        </div>
+
+        <div className="flex-1 overflow-auto border border-border rounded-lg divide-y divide-border">
+          {sheets.map((sheet) => {
+            const branch = useSheetBranch && inferBranch ? inferBranch(sheet.sheetName) : null;
+            const id = `sheet-${sheet.sheetName}`;
+            return (
+              <div key={sheet.sheetName} className="flex items-center gap-3 px-3 py-2">
+                <Checkbox
+                  id={id}
+                  checked={selected.has(sheet.sheetName)}
+                  onCheckedChange={(checked) => toggleSheet(sheet.sheetName, checked === true)}
+                />
+                <Label htmlFor={id} className="flex-1 cursor-pointer font-medium">
+                  {sheet.sheetName}
+                </Label>
+                {branch && <Badge variant="secondary" className="font-normal">{branch}</Badge>}
+                <span className="text-xs text-muted-foreground w-20 text-right">{sheet.rowCount} rows</span>
+              </div>
+            );
+          })}
+        </div>
+
+        {inferBranch && (
+          <div className="flex items-start justify-between gap-4 rounded-lg border border-border px-3 py-2">
+            <div>
+              <Label htmlFor="infer-branch">Use branch from sheet name</Label>
+              <p className="text-xs text-muted-foreground">
+                Applies to rows with an empty branch column, e.g. a sheet named "MHB".
+              </p>
+            </div>
+            <Switch id="infer-branch" checked={useSheetBranch} onCheckedChange={setUseSheetBranch} />
+          </div>
+        )}
+
+        <DialogFooter className="flex-shrink-0 pt-4 border-t border-border sm:justify-between gap-3">
+          <p className="text-sm text-muted-foreground self-center">
+            {selected.size} sheets • {selectedRowCount} rows
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleContinue} disabled={selected.size === 0}>
+              Continue
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
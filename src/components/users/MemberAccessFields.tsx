@@ -0,0 +1,68 @@
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useReferenceData } from '@/hooks/useReferenceData';
+import { MemberAccess, ORG_ROLES, OrgRole, ROLE_DESCRIPTIONS, ROLE_LABELS } from '@/utils/permissions';
+
+interface MemberAccessFieldsProps {
+  value: MemberAccess;
+  onChange: (value: MemberAccess) => void;
+  idPrefix?: string;
+}
+
+export const MemberAccessFields: React.FC<MemberAccessFieldsProps> = ({ value, onChange, idPrefix = 'member' }) => {
+  const { activeBranchCodes } = useReferenceData();
+  // Assigned branches that were deactivated since stay visible so they can be unticked
+  const branchOptions = [...new Set([...activeBranchCodes, ...value.branches])];
+
+  const toggleBranch = (branch: string, checked: boolean) =>
+    onChange({
+      ...value,
+      branches: checked ? [...value.branches, branch] : value.branches.filter((code) => code !== branch),
+    });
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={`${idPrefix}-role`}>Role</Label>
+      <Select value={value.role} onValueChange={(role) => onChange({ ...value, role: role as OrgRole })}>
+        <SelectTrigger id={`${idPrefix}-role`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-popover">
+          {ORG_ROLES.map((option) => (
+            <SelectItem key={option} value={option}>
+              {ROLE_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[value.role]}</p>
+      {value.role !== 'admin' && (
+        <>
+          <Label className="block pt-2">Branches</Label>
+          <p className="text-xs text-muted-foreground">
+            {value.role === 'encoder' ? 'Pick at least one branch.' : 'Leave empty to give access to every branch.'}
+          </p>
+          <div className="grid grid-cols-3 gap-2 pt-1">
+            {branchOptions.map((branch) => (
+              <label key={branch} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={value.branches.includes(branch)}
+                  onCheckedChange={(checked) => toggleBranch(branch, checked === true)}
+                />
+                {branch}
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
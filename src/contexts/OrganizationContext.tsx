@@ -0,0 +1,239 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { OrgRole, isOrgRole } from '@/utils/permissions';
+
+export interface Organization {
+  id: string;
+  name: string;
+  // The signed-in user's membership
+  role: OrgRole;
+  branches: string[];
+}
+
+// An invitation waiting for the signed-in user to accept or decline
+export interface OrganizationInvitation {
+  id: string;
+  orgId: string;
+  orgName: string;
+  role: OrgRole;
+  invitedAt: string;
+}
+
+interface OrganizationContextType {
+  organizations: Organization[];
+  currentOrg: Organization | null;
+  // Null until the user's organizations have loaded
+  currentOrgId: string | null;
+  invitations: OrganizationInvitation[];
+  loading: boolean;
+  error: string | null;
+  switchOrganization: (id: string) => void;
+  createOrganization: (name: string) => Promise<string | undefined>;
+  inviteMember: (email: string, role: OrgRole, branches?: string[]) => Promise<void>;
+  acceptInvitation: (id: string) => Promise<void>;
+  declineInvitation: (id: string) => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+const OrganizationContext = createContext<OrganizationContextType | undefined>(undefined);
+
+const storageKey = (userId: string) => `current-org:${userId}`;
+
+export const OrganizationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [currentOrgId, setCurrentOrgId] = useState<string | null>(null);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrganizations = useCallback(async () => {
+    if (!user) {
+      setOrganizations([]);
+      setCurrentOrgId(null);
+      setInvitations([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const [{ data, error: fetchError }, { data: invitationData, error: invitationsError }] = await Promise.all([
+        supabase
+          .from('organization_members')
+          .select('role, branches, organizations(id, name)')
+          .eq('user_id', user.id),
+        // Admins can also see the invitations they sent, so match on the user's own email
+        supabase
+          .from('organization_invitations')
+          .select('id, role, created_at, organizations(id, name)')
+          .eq('email', (user.email ?? '').toLowerCase())
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (fetchError) throw fetchError;
+      if (invitationsError) throw invitationsError;
+
+      const orgs: Organization[] = (data || [])
+        .filter((membership) => membership.organizations)
+        .map((membership) => ({
+          id: membership.organizations.id,
+          name: membership.organizations.name,
+          role: isOrgRole(membership.role) ? membership.role : 'viewer',
+          branches: membership.branches,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      setOrganizations(orgs);
+      setInvitations(
+        (invitationData || [])
+          .filter((invitation) => invitation.organizations)
+          .map((invitation) => ({
+            id: invitation.id,
+            orgId: invitation.organizations.id,
+            orgName: invitation.organizations.name,
+            role: isOrgRole(invitation.role) ? invitation.role : 'viewer',
+            invitedAt: invitation.created_at,
+          }))
+      );
+      // Keep the last used organization for this user when it is still available
+      setCurrentOrgId((prev) => {
+        const preferred = prev ?? localStorage.getItem(storageKey(user.id));
+        return orgs.some((org) => org.id === preferred) ? preferred : orgs[0]?.id ?? null;
+      });
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching organizations:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch organizations');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, [fetchOrganizations]);
+
+  useEffect(() => {
+    if (user && currentOrgId) localStorage.setItem(storageKey(user.id), currentOrgId);
+  }, [user, currentOrgId]);
+
+  const switchOrganization = useCallback((id: string) => {
+    setCurrentOrgId(id);
+  }, []);
+
+  const createOrganization = useCallback(async (name: string) => {
+    if (!user) return;
+
+    try {
+      const { data: orgId, error: createError } = await supabase.rpc('create_organization', { p_name: name });
+      if (createError) throw createError;
+
+      setOrganizations((prev) =>
+        [...prev, { id: orgId, name: name.trim(), role: 'admin' as const, branches: [] }].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setCurrentOrgId(orgId);
+      setError(null);
+      return orgId;
+    } catch (err) {
+      console.error('Error creating organization:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create organization');
+      throw err;
+    }
+  }, [user]);
+
+  // The invitee joins only once they accept
+  const inviteMember = useCallback(async (email: string, role: OrgRole, branches: string[] = []) => {
+    if (!user || !currentOrgId) return;
+
+    try {
+      const { error: inviteError } = await supabase.rpc('invite_organization_member', {
+        p_org_id: currentOrgId,
+        p_email: email,
+        p_role: role,
+        p_branches: role === 'admin' ? [] : branches,
+      });
+      if (inviteError) throw inviteError;
+      setError(null);
+    } catch (err) {
+      console.error('Error inviting organization member:', err);
+      setError(err instanceof Error ? err.message : 'Failed to invite member');
+      throw err;
+    }
+  }, [user, currentOrgId]);
+
+  const acceptInvitation = useCallback(async (id: string) => {
+    if (!user) return;
+
+    try {
+      const { data: orgId, error: acceptError } = await supabase.rpc('accept_organization_invitation', {
+        p_invitation_id: id,
+      });
+      if (acceptError) throw acceptError;
+
+      await fetchOrganizations();
+      setCurrentOrgId(orgId);
+      setError(null);
+    } catch (err) {
+      console.error('Error accepting invitation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation');
+      throw err;
+    }
+  }, [user, fetchOrganizations]);
+
+  const declineInvitation = useCallback(async (id: string) => {
+    if (!user) return;
+
+    try {
+      const { error: declineError } = await supabase.from('organization_invitations').delete().eq('id', id);
+      if (declineError) throw declineError;
+
+      setInvitations((prev) => prev.filter((invitation) => invitation.id !== id));
+      setError(null);
+    } catch (err) {
+      console.error('Error declining invitation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to decline invitation');
+      throw err;
+    }
+  }, [user]);
+
+  const value = useMemo(
+    () => ({
+      organizations,
+      currentOrg: organizations.find((org) => org.id === currentOrgId) ?? null,
+      currentOrgId,
+      invitations,
+      loading,
+      error,
+      switchOrganization,
+      createOrganization,
+      inviteMember,
+      acceptInvitation,
+      declineInvitation,
+      refetch: fetchOrganizations,
+    }),
+    [
+      organizations,
+      currentOrgId,
+      invitations,
+      loading,
+      error,
+      switchOrganization,
+      createOrganization,
+      inviteMember,
+      acceptInvitation,
+      declineInvitation,
+      fetchOrganizations,
+    ]
+  );
+
+  return <OrganizationContext.Provider value={value}>{children}</OrganizationContext.Provider>;
+};
+
+export const useOrganization = () => {
+  const context = useContext(OrganizationContext);
+  if (context === undefined) {
+    throw new Error('useOrganization must be used within an OrganizationProvider');
+  }
+  return context;
+};
@@ -1,9 +1,40 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, startOfMonth, endOfMonth } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
-import { SalesEntry } from '@/types/sales';
+import type { Tables } from '@/integrations/supabase/types';
+import { BulkEntryChange, DuplicateMode, ImportOutcome, ImportRowError, SalesEntry, SalesQueryFilters } from '@/types/sales';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { useProductCodeSchema } from '@/hooks/useProductCodeSchema';
+import {
+  REALTIME_SETTLE_MS,
+  RealtimeChange,
+  TrashChange,
+  isChangeByOtherUser,
+  useRealtimeChanges,
+  useTrashChanges,
+} from '@/hooks/useRealtimeChanges';
+import { useRole } from '@/hooks/useRole';
+import { decodeProductCode } from '@/utils/productCode';
+import { getMonthYearKey, parseMonthYear } from '@/utils/formatters';
 
 const BATCH_SIZE = 500;
+// Staging uploads account for this share of the progress bar; promotion is the rest
+const STAGING_PROGRESS_SHARE = 90;
+const PAGE_SIZE = 1000;
+
+const DEFAULT_FILTERS: SalesQueryFilters = {
+  dateRange: { from: undefined, to: undefined },
+  branch: 'all',
+  category: 'all',
+};
+
+interface BatchInsertOptions {
+  fileName?: string;
+  // Existing entries deleted in the same transaction as the insert
+  replaceIds?: string[];
+}
 
 interface SalesContextType {
   entries: SalesEntry[];
@@ -13,97 +44,234 @@ interface SalesContextType {
   error: string | null;
   selectedMonth: Date;
   setSelectedMonth: (date: Date) => void;
+  filters: SalesQueryFilters;
+  setFilters: (filters: Partial<SalesQueryFilters>) => void;
   addEntry: (entry: Omit<SalesEntry, 'id' | 'createdAt'>) => Promise<void>;
-  addEntriesBatch: (entries: Omit<SalesEntry, 'id' | 'createdAt'>[], onProgress?: (progress: number) => void) => Promise<void>;
+  addEntriesBatch: (
+    entries: Omit<SalesEntry, 'id' | 'createdAt'>[],
+    onProgress?: (progress: number) => void,
+    options?: BatchInsertOptions
+  ) => Promise<ImportRowError[]>;
+  findExistingEntries: (entries: Omit<SalesEntry, 'id' | 'createdAt'>[]) => Promise<(string | null)[]>;
+  importEntries: (
+    entries: Omit<SalesEntry, 'id' | 'createdAt'>[],
+    mode: DuplicateMode,
+    fileName: string
+  ) => Promise<ImportOutcome>;
+  updateEntry: (entry: SalesEntry, updates: Partial<Omit<SalesEntry, 'id' | 'createdAt'>>) => Promise<void>;
   removeEntry: (id: string) => Promise<void>;
+  bulkUpdateEntries: (entries: SalesEntry[], change: BulkEntryChange) => Promise<number>;
   clearAllEntries: () => Promise<void>;
-  getEntriesForMonth: (date: Date) => SalesEntry[];
-  getTotalSalesForMonth: (date: Date) => number;
   refetch: () => Promise<void>;
+  // Last time another user changed an entry in the selected month
+  remoteChangeAt: Date | null;
 }
 
 const SalesContext = createContext<SalesContextType | undefined>(undefined);
 
+const mapSalesRow = (row: Tables<'sales_entries'>): SalesEntry => ({
+  id: row.id,
+  date: row.date,
+  upc: row.upc,
+  name: row.name,
+  description: row.description || '',
+  qty: row.qty,
+  category: row.category,
+  price: Number(row.price),
+  discountPercent: Number(row.discount_percent),
+  amount: Number(row.amount),
+  branch: row.branch,
+  createdAt: row.created_at,
+});
+
+// Clamp the selected month to the optional date range so only that window is requested
+const getQueryWindow = (month: Date, dateRange: SalesQueryFilters['dateRange']) => {
+  const monthStart = startOfMonth(month);
+  const monthEnd = endOfMonth(month);
+  const from = dateRange.from && dateRange.from > monthStart ? dateRange.from : monthStart;
+  const to = dateRange.to && dateRange.to < monthEnd ? dateRange.to : monthEnd;
+  return { from: format(from, 'yyyy-MM-dd'), to: format(to, 'yyyy-MM-dd') };
+};
+
+// Fetch one month of an organization's entries, paging past Supabase's 1000 row limit
+const fetchMonthEntries = async (orgId: string, month: Date, filters: SalesQueryFilters): Promise<SalesEntry[]> => {
+  const { from: dateFrom, to: dateTo } = getQueryWindow(month, filters.dateRange);
+  if (dateFrom > dateTo) return [];
+
+  const rows: Tables<'sales_entries'>[] = [];
+  let from = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    let query = supabase
+      .from('sales_entries')
+      .select('*')
+      .eq('org_id', orgId)
+      .gte('date', dateFrom)
+      .lte('date', dateTo);
+
+    if (filters.branch !== 'all') query = query.eq('branch', filters.branch);
+    if (filters.category !== 'all') query = query.eq('category', filters.category);
+
+    const { data, error: fetchError } = await query
+      .order('date', { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (fetchError) throw fetchError;
+
+    rows.push(...(data || []));
+    from += PAGE_SIZE;
+    hasMore = (data?.length || 0) === PAGE_SIZE;
+  }
+
+  return rows.map(mapSalesRow);
+};
+
+// One import_batches record per upload so the whole file can be rolled back later.
+// It stays 'pending' until promote_import_batch moves the staged rows in.
+const createImportBatch = async (
+  userId: string,
+  orgId: string,
+  uploadedBy: string | null,
+  fileName: string,
+  entries: Omit<SalesEntry, 'id' | 'createdAt'>[]
+) => {
+  const firstDate = entries.map((entry) => entry.date).filter(Boolean).sort()[0];
+
+  const { data, error: insertError } = await supabase
+    .from('import_batches')
+    .insert({
+      user_id: userId,
+      org_id: orgId,
+      file_name: fileName,
+      uploaded_by: uploadedBy,
+      month: (firstDate || format(new Date(), 'yyyy-MM-dd')).slice(0, 7),
+      status: 'pending',
+    })
+    .select()
+    .single();
+
+  if (insertError) throw insertError;
+  return data;
+};
+
+const discardImportBatch = async (batchId: string) => {
+  const { error: deleteError } = await supabase.from('import_batches').delete().eq('id', batchId);
+  if (deleteError) console.error('Error discarding import batch:', deleteError);
+};
+
 export const SalesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user } = useAuth();
-  const [entries, setEntries] = useState<SalesEntry[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { currentOrgId: orgId } = useOrganization();
+  const queryClient = useQueryClient();
   const [isImporting, setIsImporting] = useState(false);
   const [importProgress, setImportProgress] = useState(0);
-  const [error, setError] = useState<string | null>(null);
+  const [mutationError, setMutationError] = useState<string | null>(null);
   const [selectedMonth, setSelectedMonth] = useState(new Date());
+  const [filters, setFilterState] = useState<SalesQueryFilters>(DEFAULT_FILTERS);
+  const { schema: productCodeSchema } = useProductCodeSchema();
+  const { readableBranches } = useRole();
+  // Staff assigned to a single branch start on it
+  const defaultBranch = readableBranches?.length === 1 ? readableBranches[0] : 'all';
 
-  // Fetch ALL entries from database using pagination (Supabase has 1000 row limit per query)
-  const fetchEntries = useCallback(async () => {
-    if (!user) {
-      setEntries([]);
-      setLoading(false);
-      return;
-    }
+  useEffect(() => {
+    setFilterState((prev) => ({ ...prev, branch: defaultBranch }));
+  }, [orgId, defaultBranch]);
+
+  const monthKey = getMonthYearKey(selectedMonth);
+
+  const entriesQuery = useQuery({
+    queryKey: ['sales-entries', orgId, monthKey, filters],
+    queryFn: () => fetchMonthEntries(orgId!, parseMonthYear(monthKey), filters),
+    enabled: !!user && !!orgId,
+    placeholderData: keepPreviousData,
+  });
+
+  // Code parts are decoded here rather than cached so schema edits apply without refetching
+  const entries = useMemo(
+    () =>
+      (entriesQuery.data ?? []).map((entry) => ({
+        ...entry,
+        codeParts: decodeProductCode(entry.name, productCodeSchema) ?? {},
+      })),
+    [entriesQuery.data, productCodeSchema]
+  );
+  const queryError = entriesQuery.error
+    ? entriesQuery.error instanceof Error ? entriesQuery.error.message : 'Failed to fetch entries'
+    : null;
+
+  const setFilters = useCallback((next: Partial<SalesQueryFilters>) => {
+    setFilterState((prev) => ({ ...prev, ...next }));
+  }, []);
+
+  // Only the months touched by a change are refetched (entries and aggregates); other cached months stay warm
+  const invalidateMonths = useCallback(
+    async (dates: string[]) => {
+      const monthKeys = new Set(dates.map((date) => date.slice(0, 7)));
+      await Promise.all(
+        Array.from(monthKeys).flatMap((key) => [
+          queryClient.invalidateQueries({ queryKey: ['sales-entries', orgId, key] }),
+          queryClient.invalidateQueries({ queryKey: ['sales-summary', orgId, key] }),
+        ])
+      );
+    },
+    [queryClient, orgId]
+  );
 
-    try {
-      setLoading(true);
-      const PAGE_SIZE = 1000;
-      let allData: any[] = [];
-      let from = 0;
-      let hasMore = true;
-
-      // Paginate through all entries
-      while (hasMore) {
-        const { data, error: fetchError } = await supabase
-          .from('sales_entries')
-          .select('*')
-          .order('date', { ascending: false })
-          .range(from, from + PAGE_SIZE - 1);
-
-        if (fetchError) throw fetchError;
-
-        if (data && data.length > 0) {
-          allData = [...allData, ...data];
-          from += PAGE_SIZE;
-          hasMore = data.length === PAGE_SIZE;
-        } else {
-          hasMore = false;
-        }
+  const [remoteChangeAt, setRemoteChangeAt] = useState<Date | null>(null);
+  const realtimeTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(realtimeTimer.current), []);
+
+  // Changes from other tabs and teammates. An update's previous date isn't in the event, so every
+  // cached month is marked stale; only the ones on screen refetch.
+  const scheduleInvalidation = useCallback(() => {
+    clearTimeout(realtimeTimer.current);
+    realtimeTimer.current = setTimeout(() => {
+      queryClient.invalidateQueries({ queryKey: ['sales-entries', orgId] });
+      queryClient.invalidateQueries({ queryKey: ['sales-summary', orgId] });
+    }, REALTIME_SETTLE_MS);
+  }, [queryClient, orgId]);
+
+  const handleRealtimeChange = useCallback(
+    (change: RealtimeChange<'sales_entries'>) => {
+      scheduleInvalidation();
+      if (isChangeByOtherUser(change, user?.id) && change.new.date.startsWith(monthKey)) {
+        setRemoteChangeAt(new Date());
       }
+    },
+    [scheduleInvalidation, user, monthKey]
+  );
 
-      const mappedEntries: SalesEntry[] = allData.map((row) => ({
-        id: row.id,
-        date: row.date,
-        upc: row.upc,
-        name: row.name,
-        description: row.description || '',
-        qty: row.qty,
-        category: row.category,
-        price: Number(row.price),
-        discountPercent: Number(row.discount_percent),
-        amount: Number(row.amount),
-        branch: row.branch,
-        createdAt: row.created_at,
-      }));
-
-      setEntries(mappedEntries);
-      setError(null);
-    } catch (err) {
-      console.error('Error fetching entries:', err);
-      setError(err instanceof Error ? err.message : 'Failed to fetch entries');
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
+  // Trash moves carry only ids, so they can't be matched to the month on screen
+  const handleTrashChange = useCallback(
+    (change: TrashChange) => {
+      if (change.table !== 'sales_entries') return;
 
-  useEffect(() => {
-    fetchEntries();
-  }, [fetchEntries]);
+      scheduleInvalidation();
+      if (change.userId !== user?.id) setRemoteChangeAt(new Date());
+    },
+    [scheduleInvalidation, user]
+  );
 
-  const addEntry = async (entry: Omit<SalesEntry, 'id' | 'createdAt'>) => {
-    if (!user) return;
+  useRealtimeChanges('sales_entries', orgId, handleRealtimeChange);
+  useTrashChanges(orgId, handleTrashChange);
+
+  const { refetch: refetchEntries } = entriesQuery;
+  const refetch = useCallback(async () => {
+    await refetchEntries();
+  }, [refetchEntries]);
+
+  const addEntry = useCallback(async (entry: Omit<SalesEntry, 'id' | 'createdAt'>) => {
+    if (!user || !orgId) return;
 
     try {
-      const { data, error: insertError } = await supabase
+      const { error: insertError } = await supabase
         .from('sales_entries')
         .insert({
           user_id: user.id,
+          org_id: orgId,
           date: entry.date,
           upc: entry.upc,
           name: entry.name,
@@ -114,59 +282,61 @@ export const SalesProvider: React.FC<{ children: React.ReactNode }> = ({ childre
           discount_percent: entry.discountPercent,
           amount: entry.amount,
           branch: entry.branch,
-        })
-        .select()
-        .single();
+        });
 
       if (insertError) throw insertError;
 
-      const newEntry: SalesEntry = {
-        id: data.id,
-        date: data.date,
-        upc: data.upc,
-        name: data.name,
-        description: data.description || '',
-        qty: data.qty,
-        category: data.category,
-        price: Number(data.price),
-        discountPercent: Number(data.discount_percent),
-        amount: Number(data.amount),
-        branch: data.branch,
-        createdAt: data.created_at,
-      };
-
-      setEntries((prev) => [newEntry, ...prev]);
-      setError(null);
+      await invalidateMonths([entry.date]);
+      setMutationError(null);
     } catch (err) {
       console.error('Error adding entry:', err);
-      setError(err instanceof Error ? err.message : 'Failed to add entry');
+      setMutationError(err instanceof Error ? err.message : 'Failed to add entry');
       throw err;
     }
-  };
+  }, [user, orgId, invalidateMonths]);
 
-  const addEntriesBatch = async (
+  // All-or-nothing: rows are staged in chunks (for progress), then promoted in one transaction.
+  // Returns row-level validation errors; when there are any, nothing was saved.
+  const addEntriesBatch = useCallback(async (
     newEntries: Omit<SalesEntry, 'id' | 'createdAt'>[],
-    onProgress?: (progress: number) => void
-  ) => {
-    if (!user || newEntries.length === 0) return;
+    onProgress?: (progress: number) => void,
+    options: BatchInsertOptions = {}
+  ): Promise<ImportRowError[]> => {
+    if (!user || !orgId || newEntries.length === 0) return [];
 
     setIsImporting(true);
     setImportProgress(0);
 
     const totalBatches = Math.ceil(newEntries.length / BATCH_SIZE);
-    const insertedEntries: SalesEntry[] = [];
+    const reportProgress = (progress: number) => {
+      setImportProgress(progress);
+      onProgress?.(progress);
+    };
+
+    let batchId: string | null = null;
+    let promoted = false;
 
     try {
+      const batch = await createImportBatch(
+        user.id,
+        orgId,
+        user.email ?? null,
+        options.fileName || 'Batch import',
+        newEntries
+      );
+      batchId = batch.id;
+
       for (let i = 0; i < totalBatches; i++) {
         const start = i * BATCH_SIZE;
         const end = Math.min(start + BATCH_SIZE, newEntries.length);
-        const batch = newEntries.slice(start, end);
 
-        const { data, error: insertError } = await supabase
-          .from('sales_entries')
+        const { error: stageError } = await supabase
+          .from('sales_import_staging')
           .insert(
-            batch.map((entry) => ({
+            newEntries.slice(start, end).map((entry, offset) => ({
+              batch_id: batch.id,
               user_id: user.id,
+              row_index: start + offset,
               date: entry.date,
               upc: entry.upc,
               name: entry.name,
@@ -178,123 +348,267 @@ export const SalesProvider: React.FC<{ children: React.ReactNode }> = ({ childre
               amount: entry.amount,
               branch: entry.branch,
             }))
-          )
-          .select();
-
-        if (insertError) throw insertError;
-
-        const mappedBatch: SalesEntry[] = (data || []).map((row) => ({
-          id: row.id,
-          date: row.date,
-          upc: row.upc,
-          name: row.name,
-          description: row.description || '',
-          qty: row.qty,
-          category: row.category,
-          price: Number(row.price),
-          discountPercent: Number(row.discount_percent),
-          amount: Number(row.amount),
-          branch: row.branch,
-          createdAt: row.created_at,
-        }));
-
-        insertedEntries.push(...mappedBatch);
-
-        const progress = Math.round(((i + 1) / totalBatches) * 100);
-        setImportProgress(progress);
-        onProgress?.(progress);
+          );
+
+        if (stageError) throw stageError;
+
+        reportProgress(Math.round(((i + 1) / totalBatches) * STAGING_PROGRESS_SHARE));
+      }
+
+      const { data: rowErrors, error: promoteError } = await supabase.rpc('promote_import_batch', {
+        p_batch_id: batch.id,
+        p_replace_ids: options.replaceIds?.length ? options.replaceIds : undefined,
+      });
+
+      if (promoteError) throw promoteError;
+
+      if (rowErrors && rowErrors.length > 0) {
+        setMutationError(`${rowErrors.length} rows failed validation`);
+        return rowErrors.map((row) => ({ rowIndex: row.row_index, message: row.message }));
       }
 
-      setEntries((prev) => [...insertedEntries, ...prev]);
-      setError(null);
+      promoted = true;
+      reportProgress(100);
+      setMutationError(null);
+      return [];
     } catch (err) {
       console.error('Batch import error:', err);
-      setError(err instanceof Error ? err.message : 'Failed to import entries');
+      setMutationError(err instanceof Error ? err.message : 'Failed to import entries');
       throw err;
     } finally {
+      if (promoted) {
+        await invalidateMonths(newEntries.map((entry) => entry.date));
+      } else if (batchId) {
+        // Drops the staged rows with it
+        await discardImportBatch(batchId);
+      }
       setIsImporting(false);
-      setImportProgress(100);
     }
-  };
+  }, [user, orgId, invalidateMonths]);
+
+  // Returns, per incoming row, the id of the stored entry with the same natural key (or null)
+  const findExistingEntries = useCallback(async (
+    candidates: Omit<SalesEntry, 'id' | 'createdAt'>[]
+  ): Promise<(string | null)[]> => {
+    const matches: (string | null)[] = candidates.map(() => null);
+    if (!user || !orgId || candidates.length === 0) return matches;
+
+    const { data, error: matchError } = await supabase.rpc('find_existing_sales_entries', {
+      p_org_id: orgId,
+      p_rows: candidates.map((entry) => ({
+        date: entry.date,
+        branch: entry.branch,
+        name: entry.name,
+        description: entry.description,
+        qty: entry.qty,
+        amount: entry.amount,
+      })),
+    });
+
+    if (matchError) throw matchError;
+
+    for (const row of data || []) {
+      matches[row.row_index] = row.entry_id;
+    }
+    return matches;
+  }, [user, orgId]);
+
+  const importEntries = useCallback(async (
+    newEntries: Omit<SalesEntry, 'id' | 'createdAt'>[],
+    mode: DuplicateMode,
+    fileName: string
+  ): Promise<ImportOutcome> => {
+    const emptyOutcome: ImportOutcome = { inserted: 0, skipped: 0, replaced: 0, rowErrors: [] };
+    if (!user) return emptyOutcome;
+
+    // Re-check at save time since rows may have been edited in the preview
+    const existingIds = mode === 'append' ? [] : await findExistingEntries(newEntries);
+    const duplicateIds = existingIds.filter((id): id is string => id !== null);
+
+    // Keep each inserted row's position in newEntries so errors point at the right row
+    const sourceIndexes = newEntries
+      .map((_, index) => index)
+      .filter((index) => mode !== 'skip' || !existingIds[index]);
+    const rowsToInsert = sourceIndexes.map((index) => newEntries[index]);
+
+    if (rowsToInsert.length === 0) {
+      return { ...emptyOutcome, skipped: duplicateIds.length };
+    }
+
+    const rowErrors = await addEntriesBatch(rowsToInsert, undefined, {
+      fileName,
+      replaceIds: mode === 'replace' ? duplicateIds : undefined,
+    });
+
+    if (rowErrors.length > 0) {
+      return {
+        ...emptyOutcome,
+        rowErrors: rowErrors.map((rowError) => ({ ...rowError, rowIndex: sourceIndexes[rowError.rowIndex] })),
+      };
+    }
+
+    if (mode === 'replace') {
+      return {
+        ...emptyOutcome,
+        inserted: rowsToInsert.length - duplicateIds.length,
+        replaced: duplicateIds.length,
+      };
+    }
+    return { ...emptyOutcome, inserted: rowsToInsert.length, skipped: duplicateIds.length };
+  }, [user, addEntriesBatch, findExistingEntries]);
 
-  const removeEntry = async (id: string) => {
+  const updateEntry = useCallback(async (
+    entry: SalesEntry,
+    updates: Partial<Omit<SalesEntry, 'id' | 'createdAt'>>
+  ) => {
     if (!user) return;
 
     try {
-      const { error: deleteError } = await supabase
+      const { data, error: updateError } = await supabase
         .from('sales_entries')
-        .delete()
-        .eq('id', id);
+        .update({
+          date: updates.date,
+          upc: updates.upc,
+          name: updates.name,
+          description: updates.description,
+          qty: updates.qty,
+          category: updates.category,
+          price: updates.price,
+          discount_percent: updates.discountPercent,
+          amount: updates.amount,
+          branch: updates.branch,
+        })
+        .eq('id', entry.id)
+        .select('id');
+
+      if (updateError) throw updateError;
+      // RLS filters out rows the member may not change instead of raising
+      if (!data || data.length === 0) throw new Error('You are not allowed to edit this entry');
+
+      // A changed date can move the entry to another month
+      await invalidateMonths([entry.date, updates.date ?? entry.date]);
+      setMutationError(null);
+    } catch (err) {
+      console.error('Error updating entry:', err);
+      setMutationError(err instanceof Error ? err.message : 'Failed to update entry');
+      throw err;
+    }
+  }, [user, invalidateMonths]);
+
+  // Moves the entry to the trash; it can be restored from the Trash page
+  const removeEntry = useCallback(async (id: string) => {
+    if (!user || !orgId) return;
+
+    try {
+      const { error: deleteError } = await supabase.rpc('trash_records', {
+        p_org_id: orgId,
+        p_table: 'sales_entries',
+        p_ids: [id],
+      });
 
       if (deleteError) throw deleteError;
 
-      setEntries((prev) => prev.filter((e) => e.id !== id));
-      setError(null);
+      const entry = entries.find((e) => e.id === id);
+      await invalidateMonths(entry ? [entry.date] : []);
+      setMutationError(null);
     } catch (err) {
       console.error('Error removing entry:', err);
-      setError(err instanceof Error ? err.message : 'Failed to remove entry');
+      setMutationError(err instanceof Error ? err.message : 'Failed to remove entry');
       throw err;
     }
-  };
+  }, [user, orgId, entries, invalidateMonths]);
 
-  const clearAllEntries = async () => {
-    if (!user) return;
+  const bulkUpdateEntries = useCallback(async (entries: SalesEntry[], change: BulkEntryChange) => {
+    if (!user || !orgId || entries.length === 0) return 0;
 
     try {
-      const { error: deleteError } = await supabase
-        .from('sales_entries')
-        .delete()
-        .eq('user_id', user.id);
+      // All or nothing: the function rolls back if any selected row can't be changed
+      const { data, error: bulkError } = await supabase.rpc('bulk_update_sales_entries', {
+        p_org_id: orgId,
+        p_ids: entries.map((entry) => entry.id),
+        p_action: change.action,
+        p_value: change.action === 'delete' ? undefined : change.value,
+      });
+
+      if (bulkError) throw bulkError;
+
+      const dates = entries.map((entry) => entry.date);
+      await invalidateMonths(change.action === 'date' ? [...dates, change.value] : dates);
+      setMutationError(null);
+      return data ?? 0;
+    } catch (err) {
+      console.error('Error updating entries:', err);
+      setMutationError(err instanceof Error ? err.message : 'Failed to update entries');
+      throw err;
+    }
+  }, [user, orgId, invalidateMonths]);
+
+  const clearAllEntries = useCallback(async () => {
+    if (!user || !orgId) return;
+
+    try {
+      // Admin-only; the function checks the caller's role and moves everything to the trash
+      const { error: deleteError } = await supabase.rpc('clear_sales_entries', { p_org_id: orgId });
 
       if (deleteError) throw deleteError;
 
-      setEntries([]);
-      setError(null);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['sales-entries', orgId] }),
+        queryClient.invalidateQueries({ queryKey: ['sales-summary', orgId] }),
+      ]);
+      setMutationError(null);
     } catch (err) {
       console.error('Error clearing entries:', err);
-      setError(err instanceof Error ? err.message : 'Failed to clear entries');
+      setMutationError(err instanceof Error ? err.message : 'Failed to clear entries');
       throw err;
     }
-  };
-
-  const getEntriesForMonth = useCallback(
-    (date: Date) => {
-      const month = date.getMonth();
-      const year = date.getFullYear();
-      return entries.filter((entry) => {
-        const entryDate = new Date(entry.date);
-        return entryDate.getMonth() === month && entryDate.getFullYear() === year;
-      });
-    },
-    [entries]
-  );
-
-  const getTotalSalesForMonth = useCallback(
-    (date: Date) => {
-      const monthEntries = getEntriesForMonth(date);
-      return monthEntries.reduce((sum, entry) => sum + entry.amount, 0);
-    },
-    [getEntriesForMonth]
-  );
+  }, [user, orgId, queryClient]);
 
   const value = useMemo(
     () => ({
       entries,
-      loading,
+      loading: !!user && (!orgId || entriesQuery.isLoading),
       isImporting,
       importProgress,
-      error,
+      error: mutationError ?? queryError,
       selectedMonth,
       setSelectedMonth,
+      filters,
+      setFilters,
       addEntry,
       addEntriesBatch,
+      findExistingEntries,
+      importEntries,
+      updateEntry,
       removeEntry,
+      bulkUpdateEntries,
       clearAllEntries,
-      getEntriesForMonth,
-      getTotalSalesForMonth,
-      refetch: fetchEntries,
+      refetch,
+      remoteChangeAt,
     }),
-    [entries, loading, isImporting, importProgress, error, selectedMonth, getEntriesForMonth, getTotalSalesForMonth, fetchEntries]
+    [
+      entries,
+      user,
+      orgId,
+      entriesQuery.isLoading,
+      isImporting,
+      importProgress,
+      mutationError,
+      queryError,
+      selectedMonth,
+      filters,
+      setFilters,
+      addEntry,
+      addEntriesBatch,
+      findExistingEntries,
+      importEntries,
+      updateEntry,
+      removeEntry,
+      bulkUpdateEntries,
+      clearAllEntries,
+      refetch,
+      remoteChangeAt,
+    ]
   );
 
   return <SalesContext.Provider value={value}>{children}</SalesContext.Provider>;
@@ -1,4 +1,6 @@
-import { SalesEntry, ProductMaster, BRANCHES, CATEGORIES } from '@/types/sales';
+import { SalesEntry, ProductMaster } from '@/types/sales';
+
+const SAMPLE_BRANCHES = ['MHB', 'MLP', 'MSH', 'MUM', 'MQC'];
 
 export const productMasterList: ProductMaster[] = [
   { upc: '8901234567890', name: 'Wireless Mouse', description: 'Ergonomic wireless mouse with USB receiver', category: 'Electronics', defaultPrice: 599 },
@@ -46,7 +48,7 @@ const generateMockSalesData = (): SalesEntry[] => {
     
     for (let i = 0; i < entriesCount; i++) {
       const product = productMasterList[Math.floor(Math.random() * productMasterList.length)];
-      const branch = BRANCHES[Math.floor(Math.random() * BRANCHES.length)];
+      const branch = SAMPLE_BRANCHES[Math.floor(Math.random() * SAMPLE_BRANCHES.length)];
       const day = Math.floor(Math.random() * daysInMonth) + 1;
       const qty = Math.floor(Math.random() * 10) + 1;
       const discountPercent = Math.random() > 0.7 ? Math.floor(Math.random() * 20) + 5 : 0;
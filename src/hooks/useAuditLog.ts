@@ -0,0 +1,79 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { AuditAction, AuditData } from '@/utils/audit';
+
+export interface AuditLogEntry {
+  id: string;
+  tableName: string;
+  rowId: string;
+  action: AuditAction;
+  oldData: AuditData | null;
+  newData: AuditData | null;
+  userEmail: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  tableName: string;
+  action: string;
+  // Narrows to one record's history
+  rowId: string;
+  userEmail: string;
+}
+
+export const DEFAULT_AUDIT_FILTERS: AuditLogFilters = {
+  tableName: 'all',
+  action: 'all',
+  rowId: '',
+  userEmail: '',
+};
+
+const mapAuditRow = (row: Tables<'audit_log'>): AuditLogEntry => ({
+  id: row.id,
+  tableName: row.table_name,
+  rowId: row.row_id,
+  action: row.action as AuditAction,
+  oldData: row.old_data as AuditData | null,
+  newData: row.new_data as AuditData | null,
+  userEmail: row.user_email,
+  createdAt: row.created_at,
+});
+
+export const useAuditLog = (filters: AuditLogFilters, page: number, pageSize: number) => {
+  const { user } = useAuth();
+  const { currentOrgId } = useOrganization();
+
+  const query = useQuery({
+    queryKey: ['audit-log', currentOrgId, filters, page],
+    queryFn: async () => {
+      let request = supabase
+        .from('audit_log')
+        .select('*', { count: 'exact' })
+        .eq('org_id', currentOrgId!)
+        .order('created_at', { ascending: false })
+        .range((page - 1) * pageSize, page * pageSize - 1);
+
+      if (filters.tableName !== 'all') request = request.eq('table_name', filters.tableName);
+      if (filters.action !== 'all') request = request.eq('action', filters.action);
+      if (filters.rowId) request = request.eq('row_id', filters.rowId);
+      if (filters.userEmail.trim()) request = request.ilike('user_email', `%${filters.userEmail.trim()}%`);
+
+      const { data, count, error } = await request;
+      if (error) throw error;
+
+      return { entries: (data || []).map(mapAuditRow), total: count ?? 0 };
+    },
+    enabled: !!user && !!currentOrgId,
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    entries: query.data?.entries ?? [],
+    total: query.data?.total ?? 0,
+    loading: query.isLoading,
+    error: query.error,
+  };
+};
@@ -1,6 +1,15 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import {
+  RealtimeChange,
+  TrashChange,
+  isChangeByOtherUser,
+  useRealtimeChanges,
+  useTrashChanges,
+} from '@/hooks/useRealtimeChanges';
 
 export interface BranchCalendarTask {
   id: string;
@@ -14,14 +23,32 @@ export interface BranchCalendarTask {
   updatedAt: string;
 }
 
+const mapTaskRow = (row: Tables<'branch_calendar_tasks'>): BranchCalendarTask => ({
+  id: row.id,
+  title: row.title,
+  description: row.description || '',
+  branch: row.branch,
+  taskDate: row.task_date,
+  taskType: row.task_type,
+  color: row.color || 'blue',
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+// Same order as the initial fetch: latest task date first
+const sortTasks = (tasks: BranchCalendarTask[]) => [...tasks].sort((a, b) => b.taskDate.localeCompare(a.taskDate));
+
 export const useBranchCalendarStore = () => {
   const { user } = useAuth();
+  const { currentOrgId } = useOrganization();
   const [tasks, setTasks] = useState<BranchCalendarTask[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Last time another user changed a task
+  const [remoteChangeAt, setRemoteChangeAt] = useState<Date | null>(null);
 
   const fetchTasks = useCallback(async () => {
-    if (!user) {
+    if (!user || !currentOrgId) {
       setTasks([]);
       setLoading(false);
       return;
@@ -32,23 +59,12 @@ export const useBranchCalendarStore = () => {
       const { data, error: fetchError } = await supabase
         .from('branch_calendar_tasks')
         .select('*')
+        .eq('org_id', currentOrgId)
         .order('task_date', { ascending: false });
 
       if (fetchError) throw fetchError;
 
-      const mappedTasks: BranchCalendarTask[] = (data || []).map((row) => ({
-        id: row.id,
-        title: row.title,
-        description: row.description || '',
-        branch: row.branch,
-        taskDate: row.task_date,
-        taskType: row.task_type,
-        color: row.color || 'blue',
-        createdAt: row.created_at,
-        updatedAt: row.updated_at,
-      }));
-
-      setTasks(mappedTasks);
+      setTasks((data || []).map(mapTaskRow));
       setError(null);
     } catch (err) {
       console.error('Error fetching calendar tasks:', err);
@@ -56,20 +72,67 @@ export const useBranchCalendarStore = () => {
     } finally {
       setLoading(false);
     }
-  }, [user]);
+  }, [user, currentOrgId]);
 
   useEffect(() => {
     fetchTasks();
   }, [fetchTasks]);
 
+  // Inserts and updates carry the whole row, so they merge without a refetch
+  const handleRealtimeChange = useCallback(
+    (change: RealtimeChange<'branch_calendar_tasks'>) => {
+      const row = change.new;
+      setTasks((prev) => sortTasks([...prev.filter((t) => t.id !== row.id), mapTaskRow(row)]));
+      if (isChangeByOtherUser(change, user?.id)) setRemoteChangeAt(new Date());
+    },
+    [user]
+  );
+
+  // Reloads the given tasks; ones no longer readable drop out of the list
+  const refreshTasks = useCallback(async (ids: string[]) => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('branch_calendar_tasks')
+        .select('*')
+        .in('id', ids);
+
+      if (fetchError) throw fetchError;
+
+      const fresh = (data || []).map(mapTaskRow);
+      setTasks((prev) => sortTasks([...prev.filter((t) => !ids.includes(t.id)), ...fresh]));
+    } catch (err) {
+      console.error('Error refreshing calendar tasks:', err);
+    }
+  }, []);
+
+  const handleTrashChange = useCallback(
+    (change: TrashChange) => {
+      if (change.table !== 'branch_calendar_tasks') return;
+
+      if (!change.ids) {
+        fetchTasks();
+      } else if (change.action === 'trashed') {
+        setTasks((prev) => prev.filter((t) => !change.ids.includes(t.id)));
+      } else {
+        refreshTasks(change.ids);
+      }
+      if (change.userId !== user?.id) setRemoteChangeAt(new Date());
+    },
+    [user, fetchTasks, refreshTasks]
+  );
+
+  useRealtimeChanges('branch_calendar_tasks', currentOrgId, handleRealtimeChange);
+  useTrashChanges(currentOrgId, handleTrashChange);
+
   const addTask = async (task: Omit<BranchCalendarTask, 'id' | 'createdAt' | 'updatedAt'>) => {
-    if (!user) return;
+    if (!user || !currentOrgId) return;
 
     try {
       const { data, error: insertError } = await supabase
         .from('branch_calendar_tasks')
         .insert({
           user_id: user.id,
+          org_id: currentOrgId,
           title: task.title,
           description: task.description,
           branch: task.branch,
@@ -146,14 +209,16 @@ export const useBranchCalendarStore = () => {
     }
   };
 
+  // Moves the task to the trash
   const removeTask = async (id: string) => {
-    if (!user) return;
+    if (!user || !currentOrgId) return;
 
     try {
-      const { error: deleteError } = await supabase
-        .from('branch_calendar_tasks')
-        .delete()
-        .eq('id', id);
+      const { error: deleteError } = await supabase.rpc('trash_records', {
+        p_org_id: currentOrgId,
+        p_table: 'branch_calendar_tasks',
+        p_ids: [id],
+      });
 
       if (deleteError) throw deleteError;
 
@@ -173,6 +238,7 @@ export const useBranchCalendarStore = () => {
     addTask,
     updateTask,
     removeTask,
+    remoteChangeAt,
     refetch: fetchTasks,
   };
 };
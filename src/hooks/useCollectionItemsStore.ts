@@ -0,0 +1,268 @@
+import { useState, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import {
+  CollectionItem,
+  clearLegacyCollectionItems,
+  getLegacyCollectionItems,
+} from '@/utils/collectionItemsUtils';
+
+type CollectionItemInput = Omit<CollectionItem, 'id'>;
+
+const INSERT_CHUNK_SIZE = 500;
+const PAGE_SIZE = 1000;
+const NO_ITEMS: CollectionItem[] = [];
+
+const mapItemRow = (row: Tables<'collection_items'>): CollectionItem => ({
+  id: row.id,
+  name: row.name,
+  upc: row.upc,
+  description: row.description || '',
+  category: row.category || '',
+  price: Number(row.price),
+});
+
+const sortByName = (items: CollectionItem[]) => [...items].sort((a, b) => a.name.localeCompare(b.name));
+
+// Inserts in chunks; rows whose UPC already exists are left untouched. Returns the inserted rows.
+const insertCollectionItems = async (
+  userId: string,
+  orgId: string,
+  newItems: CollectionItemInput[]
+): Promise<CollectionItem[]> => {
+  const inserted: CollectionItem[] = [];
+  for (let i = 0; i < newItems.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = newItems.slice(i, i + INSERT_CHUNK_SIZE).map((item) => ({
+      user_id: userId,
+      org_id: orgId,
+      name: item.name,
+      upc: item.upc,
+      description: item.description,
+      category: item.category,
+      price: item.price,
+    }));
+
+    const { data, error: insertError } = await supabase
+      .from('collection_items')
+      .upsert(chunk, { onConflict: 'org_id,upc', ignoreDuplicates: true })
+      .select();
+
+    if (insertError) throw insertError;
+    inserted.push(...(data || []).map(mapItemRow));
+  }
+  return inserted;
+};
+
+// First load after the move to the cloud: upload what this browser had into the current
+// organization, then forget it. Members who can't add items keep the local copy for someone who can.
+const uploadLegacyItems = async (userId: string, orgId: string) => {
+  const legacyItems = getLegacyCollectionItems().filter((item) => item.name && item.upc);
+  if (legacyItems.length === 0) return;
+
+  try {
+    await insertCollectionItems(
+      userId,
+      orgId,
+      legacyItems.map(({ id: _id, ...item }) => ({ ...item, upc: String(item.upc) }))
+    );
+    clearLegacyCollectionItems();
+  } catch (err) {
+    console.error('Error uploading saved collection items:', err);
+  }
+};
+
+// Paged past PostgREST's row cap
+const fetchCollectionItems = async (userId: string, orgId: string): Promise<CollectionItem[]> => {
+  await uploadLegacyItems(userId, orgId);
+
+  const rows: Tables<'collection_items'>[] = [];
+  let from = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error: fetchError } = await supabase
+      .from('collection_items')
+      .select('*')
+      .eq('org_id', orgId)
+      .order('name', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (fetchError) throw fetchError;
+
+    rows.push(...(data || []));
+    from += PAGE_SIZE;
+    hasMore = (data?.length || 0) === PAGE_SIZE;
+  }
+
+  return rows.map(mapItemRow);
+};
+
+// Every component using the store shares one cached list per organization; changes made here
+// update that cache, so the list is only loaded again on refetch
+export const useCollectionItemsStore = () => {
+  const { user } = useAuth();
+  const { currentOrgId } = useOrganization();
+  const queryClient = useQueryClient();
+  const [mutationError, setError] = useState<string | null>(null);
+  const queryKey = ['collection-items', currentOrgId];
+
+  const itemsQuery = useQuery({
+    queryKey,
+    queryFn: () => fetchCollectionItems(user!.id, currentOrgId!),
+    enabled: !!user && !!currentOrgId,
+    staleTime: Infinity,
+  });
+
+  const items = itemsQuery.data ?? NO_ITEMS;
+  const loading = !!user && !!currentOrgId && itemsQuery.isLoading;
+  const queryError = itemsQuery.error
+    ? itemsQuery.error instanceof Error ? itemsQuery.error.message : 'Failed to fetch collection items'
+    : null;
+  const error = mutationError ?? queryError;
+
+  const setItems = (update: (prev: CollectionItem[]) => CollectionItem[]) =>
+    queryClient.setQueryData<CollectionItem[]>(queryKey, (prev) => update(prev ?? []));
+
+  const { refetch: refetchItems } = itemsQuery;
+  const refetch = useCallback(async () => {
+    await refetchItems();
+  }, [refetchItems]);
+
+  const addItem = async (item: CollectionItemInput) => {
+    if (!user || !currentOrgId) return;
+
+    try {
+      const { data, error: insertError } = await supabase
+        .from('collection_items')
+        .insert({
+          user_id: user.id,
+          org_id: currentOrgId,
+          name: item.name,
+          upc: item.upc,
+          description: item.description,
+          category: item.category,
+          price: item.price,
+        })
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      const newItem = mapItemRow(data);
+      setItems((prev) => sortByName([...prev, newItem]));
+      setError(null);
+      return newItem;
+    } catch (err) {
+      console.error('Error adding collection item:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add collection item');
+      throw err;
+    }
+  };
+
+  const addItems = async (newItems: CollectionItemInput[]) => {
+    if (!user || !currentOrgId) return [];
+
+    try {
+      const inserted = await insertCollectionItems(user.id, currentOrgId, newItems);
+      setItems((prev) => sortByName([...prev, ...inserted]));
+      setError(null);
+      return inserted;
+    } catch (err) {
+      console.error('Error importing collection items:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import collection items');
+      throw err;
+    }
+  };
+
+  const updateItem = async (id: string, item: CollectionItemInput) => {
+    if (!user) return;
+
+    try {
+      const { data, error: updateError } = await supabase
+        .from('collection_items')
+        .update({
+          name: item.name,
+          upc: item.upc,
+          description: item.description,
+          category: item.category,
+          price: item.price,
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+
+      const updatedItem = mapItemRow(data);
+      setItems((prev) => sortByName(prev.map((i) => (i.id === id ? updatedItem : i))));
+      setError(null);
+      return updatedItem;
+    } catch (err) {
+      console.error('Error updating collection item:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update collection item');
+      throw err;
+    }
+  };
+
+  const removeItem = async (id: string) => {
+    if (!user) return;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('collection_items')
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+
+      setItems((prev) => prev.filter((i) => i.id !== id));
+      setError(null);
+    } catch (err) {
+      console.error('Error removing collection item:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove collection item');
+      throw err;
+    }
+  };
+
+  const clearItems = async () => {
+    if (!user || !currentOrgId) return;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('collection_items')
+        .delete()
+        .eq('org_id', currentOrgId);
+
+      if (deleteError) throw deleteError;
+
+      setItems(() => []);
+      setError(null);
+    } catch (err) {
+      console.error('Error clearing collection items:', err);
+      setError(err instanceof Error ? err.message : 'Failed to clear collection items');
+      throw err;
+    }
+  };
+
+  const findItemByUPC = useCallback(
+    (upc: string) => items.find((item) => item.upc === upc.trim()),
+    [items]
+  );
+
+  return {
+    items,
+    loading,
+    error,
+    addItem,
+    addItems,
+    updateItem,
+    removeItem,
+    clearItems,
+    findItemByUPC,
+    refetch,
+  };
+};
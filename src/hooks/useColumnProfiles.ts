@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { ColumnMapping } from '@/utils/excel/columnMapping';
+
+export interface ColumnProfile {
+  id: string;
+  name: string;
+  branch: string;
+  mapping: ColumnMapping;
+  headers: string[];
+  dayOnlyDates: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type ColumnProfileInput = Omit<ColumnProfile, 'id' | 'createdAt' | 'updatedAt'>;
+
+const mapProfileRow = (row: Tables<'import_column_profiles'>): ColumnProfile => ({
+  id: row.id,
+  name: row.name,
+  branch: row.branch,
+  mapping: (row.mapping ?? {}) as ColumnMapping,
+  headers: row.headers || [],
+  dayOnlyDates: row.day_only_dates,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const useColumnProfiles = () => {
+  const { user } = useAuth();
+  const { currentOrgId } = useOrganization();
+  const [profiles, setProfiles] = useState<ColumnProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfiles = useCallback(async () => {
+    if (!user || !currentOrgId) {
+      setProfiles([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error: fetchError } = await supabase
+        .from('import_column_profiles')
+        .select('*')
+        .eq('org_id', currentOrgId)
+        .order('name', { ascending: true });
+
+      if (fetchError) throw fetchError;
+
+      setProfiles((data || []).map(mapProfileRow));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching column profiles:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch column profiles');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, currentOrgId]);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  const addProfile = async (profile: ColumnProfileInput) => {
+    if (!user || !currentOrgId) return;
+
+    try {
+      const { data, error: insertError } = await supabase
+        .from('import_column_profiles')
+        .insert({
+          user_id: user.id,
+          org_id: currentOrgId,
+          name: profile.name,
+          branch: profile.branch,
+          mapping: profile.mapping,
+          headers: profile.headers,
+          day_only_dates: profile.dayOnlyDates,
+        })
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      const newProfile = mapProfileRow(data);
+      setProfiles((prev) => [...prev, newProfile].sort((a, b) => a.name.localeCompare(b.name)));
+      setError(null);
+      return newProfile;
+    } catch (err) {
+      console.error('Error adding column profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save column profile');
+      throw err;
+    }
+  };
+
+  const updateProfile = async (id: string, profile: ColumnProfileInput) => {
+    if (!user) return;
+
+    try {
+      const { data, error: updateError } = await supabase
+        .from('import_column_profiles')
+        .update({
+          name: profile.name,
+          branch: profile.branch,
+          mapping: profile.mapping,
+          headers: profile.headers,
+          day_only_dates: profile.dayOnlyDates,
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+
+      const updatedProfile = mapProfileRow(data);
+      setProfiles((prev) => prev.map((p) => (p.id === id ? updatedProfile : p)));
+      setError(null);
+      return updatedProfile;
+    } catch (err) {
+      console.error('Error updating column profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update column profile');
+      throw err;
+    }
+  };
+
+  const removeProfile = async (id: string) => {
+    if (!user) return;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('import_column_profiles')
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+
+      setProfiles((prev) => prev.filter((p) => p.id !== id));
+      setError(null);
+    } catch (err) {
+      console.error('Error removing column profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove column profile');
+      throw err;
+    }
+  };
+
+  return {
+    profiles,
+    loading,
+    error,
+    addProfile,
+    updateProfile,
+    removeProfile,
+    refetch: fetchProfiles,
+  };
+};
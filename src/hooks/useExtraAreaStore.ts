@@ -1,6 +1,17 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import {
+  REALTIME_SETTLE_MS,
+  RealtimeChange,
+  TrashChange,
+  isChangeByOtherUser,
+  useRealtimeChanges,
+  useTrashChanges,
+} from '@/hooks/useRealtimeChanges';
+import { EXTRA_AREA_PHOTOS_BUCKET, getPhotoStoragePath } from '@/utils/extraAreaPhotos';
 
 interface PhotoGroup {
   approvedBoss: string[];
@@ -8,12 +19,8 @@ interface PhotoGroup {
   msas: string[];
 }
 
-interface SalesPerCategory {
-  MHB: number;
-  MLP: number;
-  MSH: number;
-  MUM: number;
-}
+// Amount per category code; categories without sales are left out
+export type SalesPerCategory = Record<string, number>;
 
 export interface ExtraAreaEntry {
   id: string;
@@ -30,14 +37,44 @@ export interface ExtraAreaEntry {
   createdAt: string;
 }
 
+type ExtraAreaEntryRow = Tables<'extra_area_entries'> & {
+  extra_area_sales: Pick<Tables<'extra_area_sales'>, 'category' | 'amount'>[];
+};
+
+const ENTRY_SELECT = '*, extra_area_sales(category, amount)';
+
+const mapEntryRow = (row: ExtraAreaEntryRow): ExtraAreaEntry => ({
+  id: row.id,
+  branch: row.branch,
+  category: row.category,
+  locationArea: row.location_area,
+  rentalRate: Number(row.rental_rate),
+  noFixtures: row.no_fixtures || '',
+  date: row.entry_date,
+  noDays: row.no_days,
+  sales: Object.fromEntries((row.extra_area_sales || []).map((s) => [s.category, Number(s.amount)])),
+  photos: {
+    approvedBoss: row.photos_approved_boss || [],
+    loi: row.photos_loi || [],
+    msas: row.photos_msas || [],
+  },
+  remarks: row.remarks || '',
+  createdAt: row.created_at,
+});
+
 export const useExtraAreaStore = () => {
   const { user } = useAuth();
+  const { currentOrgId } = useOrganization();
   const [entries, setEntries] = useState<ExtraAreaEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Last time another user changed an entry
+  const [remoteChangeAt, setRemoteChangeAt] = useState<Date | null>(null);
+  const pendingIdsRef = useRef<Set<string>>(new Set());
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout>>();
 
   const fetchEntries = useCallback(async () => {
-    if (!user) {
+    if (!user || !currentOrgId) {
       setEntries([]);
       setLoading(false);
       return;
@@ -47,36 +84,13 @@ export const useExtraAreaStore = () => {
       setLoading(true);
       const { data, error: fetchError } = await supabase
         .from('extra_area_entries')
-        .select('*')
+        .select(ENTRY_SELECT)
+        .eq('org_id', currentOrgId)
         .order('entry_date', { ascending: false });
 
       if (fetchError) throw fetchError;
 
-      const mappedEntries: ExtraAreaEntry[] = (data || []).map((row) => ({
-        id: row.id,
-        branch: row.branch,
-        category: row.category,
-        locationArea: row.location_area,
-        rentalRate: Number(row.rental_rate),
-        noFixtures: row.no_fixtures || '',
-        date: row.entry_date,
-        noDays: row.no_days,
-        sales: {
-          MHB: Number(row.sales_mhb),
-          MLP: Number(row.sales_mlp),
-          MSH: Number(row.sales_msh),
-          MUM: Number(row.sales_mum),
-        },
-        photos: {
-          approvedBoss: row.photos_approved_boss || [],
-          loi: row.photos_loi || [],
-          msas: row.photos_msas || [],
-        },
-        remarks: row.remarks || '',
-        createdAt: row.created_at,
-      }));
-
-      setEntries(mappedEntries);
+      setEntries((data || []).map(mapEntryRow));
       setError(null);
     } catch (err) {
       console.error('Error fetching extra area entries:', err);
@@ -84,26 +98,99 @@ export const useExtraAreaStore = () => {
     } finally {
       setLoading(false);
     }
-  }, [user]);
+  }, [user, currentOrgId]);
 
   useEffect(() => {
     fetchEntries();
   }, [fetchEntries]);
 
+  // Reloads the given entries with their sales; ones no longer readable drop out of the list
+  const refreshEntries = useCallback(async (ids: string[]) => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('extra_area_entries')
+        .select(ENTRY_SELECT)
+        .in('id', ids);
+
+      if (fetchError) throw fetchError;
+
+      const fresh = (data || []).map(mapEntryRow);
+      setEntries((prev) =>
+        [...prev.filter((e) => !ids.includes(e.id)), ...fresh].sort((a, b) => b.date.localeCompare(a.date))
+      );
+    } catch (err) {
+      console.error('Error refreshing extra area entries:', err);
+    }
+  }, []);
+
+  // An entry and its per-category sales are saved in several steps, so changed ids are collected
+  // and reloaded together once the writes settle
+  const scheduleRefresh = useCallback(
+    (id: string) => {
+      pendingIdsRef.current.add(id);
+      clearTimeout(refreshTimerRef.current);
+      refreshTimerRef.current = setTimeout(() => {
+        const ids = [...pendingIdsRef.current];
+        pendingIdsRef.current = new Set();
+        refreshEntries(ids);
+      }, REALTIME_SETTLE_MS);
+    },
+    [refreshEntries]
+  );
+
+  useEffect(() => () => clearTimeout(refreshTimerRef.current), []);
+
+  const handleEntryChange = useCallback(
+    (change: RealtimeChange<'extra_area_entries'>) => {
+      scheduleRefresh(change.new.id);
+      if (isChangeByOtherUser(change, user?.id)) setRemoteChangeAt(new Date());
+    },
+    [user, scheduleRefresh]
+  );
+
+  // Sales rows are replaced on every save, together with an update of their entry
+  const handleSalesChange = useCallback(
+    (change: RealtimeChange<'extra_area_sales'>) => {
+      scheduleRefresh(change.new.entry_id);
+    },
+    [scheduleRefresh]
+  );
+
+  const handleTrashChange = useCallback(
+    (change: TrashChange) => {
+      if (change.table !== 'extra_area_entries') return;
+
+      if (!change.ids) {
+        fetchEntries();
+      } else if (change.action === 'trashed') {
+        setEntries((prev) => prev.filter((e) => !change.ids.includes(e.id)));
+      } else {
+        change.ids.forEach(scheduleRefresh);
+      }
+      if (change.userId !== user?.id) setRemoteChangeAt(new Date());
+    },
+    [user, fetchEntries, scheduleRefresh]
+  );
+
+  useRealtimeChanges('extra_area_entries', currentOrgId, handleEntryChange);
+  useRealtimeChanges('extra_area_sales', currentOrgId, handleSalesChange);
+  useTrashChanges(currentOrgId, handleTrashChange);
+
   const uploadPhoto = async (file: File, type: string): Promise<string> => {
-    if (!user) throw new Error('Not authenticated');
+    if (!user || !currentOrgId) throw new Error('Not authenticated');
 
+    // Stored under the organization so every member can manage the photo
     const fileExt = file.name.split('.').pop();
-    const fileName = `${user.id}/${type}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+    const fileName = `${currentOrgId}/${type}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
 
     const { error: uploadError } = await supabase.storage
-      .from('extra-area-photos')
+      .from(EXTRA_AREA_PHOTOS_BUCKET)
       .upload(fileName, file);
 
     if (uploadError) throw uploadError;
 
     const { data } = supabase.storage
-      .from('extra-area-photos')
+      .from(EXTRA_AREA_PHOTOS_BUCKET)
       .getPublicUrl(fileName);
 
     return data.publicUrl;
@@ -113,70 +200,53 @@ export const useExtraAreaStore = () => {
     if (!user) return;
 
     try {
-      // Extract path from URL
-      const urlObj = new URL(url);
-      const pathParts = urlObj.pathname.split('/extra-area-photos/');
-      if (pathParts.length > 1) {
-        const filePath = decodeURIComponent(pathParts[1]);
-        await supabase.storage.from('extra-area-photos').remove([filePath]);
+      const filePath = getPhotoStoragePath(url);
+      if (filePath) {
+        await supabase.storage.from(EXTRA_AREA_PHOTOS_BUCKET).remove([filePath]);
       }
     } catch (err) {
       console.error('Error deleting photo:', err);
     }
   };
 
+  // Writes the entry and replaces its per-category sales in one transaction, then reads it back
+  const saveEntry = async (id: string | null, entry: Omit<ExtraAreaEntry, 'id' | 'createdAt'>) => {
+    const { data: entryId, error: saveError } = await supabase.rpc('save_extra_area_entry', {
+      p_org_id: currentOrgId,
+      p_entry_id: id ?? undefined,
+      p_entry: {
+        branch: entry.branch,
+        category: entry.category,
+        location_area: entry.locationArea,
+        rental_rate: entry.rentalRate,
+        no_fixtures: entry.noFixtures,
+        entry_date: entry.date,
+        no_days: entry.noDays,
+        photos_approved_boss: entry.photos.approvedBoss,
+        photos_loi: entry.photos.loi,
+        photos_msas: entry.photos.msas,
+        remarks: entry.remarks,
+      },
+      p_sales: entry.sales,
+    });
+
+    if (saveError) throw saveError;
+
+    const { data, error: fetchError } = await supabase
+      .from('extra_area_entries')
+      .select(ENTRY_SELECT)
+      .eq('id', entryId)
+      .single();
+
+    if (fetchError) throw fetchError;
+    return mapEntryRow(data);
+  };
+
   const addEntry = async (entry: Omit<ExtraAreaEntry, 'id' | 'createdAt'>) => {
-    if (!user) return;
+    if (!user || !currentOrgId) return;
 
     try {
-      const { data, error: insertError } = await supabase
-        .from('extra_area_entries')
-        .insert({
-          user_id: user.id,
-          branch: entry.branch,
-          category: entry.category,
-          location_area: entry.locationArea,
-          rental_rate: entry.rentalRate,
-          no_fixtures: entry.noFixtures,
-          entry_date: entry.date,
-          no_days: entry.noDays,
-          sales_mhb: entry.sales.MHB,
-          sales_mlp: entry.sales.MLP,
-          sales_msh: entry.sales.MSH,
-          sales_mum: entry.sales.MUM,
-          photos_approved_boss: entry.photos.approvedBoss,
-          photos_loi: entry.photos.loi,
-          photos_msas: entry.photos.msas,
-          remarks: entry.remarks,
-        })
-        .select()
-        .single();
-
-      if (insertError) throw insertError;
-
-      const newEntry: ExtraAreaEntry = {
-        id: data.id,
-        branch: data.branch,
-        category: data.category,
-        locationArea: data.location_area,
-        rentalRate: Number(data.rental_rate),
-        noFixtures: data.no_fixtures || '',
-        date: data.entry_date,
-        noDays: data.no_days,
-        sales: {
-          MHB: Number(data.sales_mhb),
-          MLP: Number(data.sales_mlp),
-          MSH: Number(data.sales_msh),
-          MUM: Number(data.sales_mum),
-        },
-        photos: {
-          approvedBoss: data.photos_approved_boss || [],
-          loi: data.photos_loi || [],
-          msas: data.photos_msas || [],
-        },
-        remarks: data.remarks || '',
-        createdAt: data.created_at,
-      };
+      const newEntry = await saveEntry(null, entry);
 
       setEntries((prev) => [newEntry, ...prev]);
       setError(null);
@@ -189,57 +259,10 @@ export const useExtraAreaStore = () => {
   };
 
   const updateEntry = async (id: string, entry: Omit<ExtraAreaEntry, 'id' | 'createdAt'>) => {
-    if (!user) return;
+    if (!user || !currentOrgId) return;
 
     try {
-      const { data, error: updateError } = await supabase
-        .from('extra_area_entries')
-        .update({
-          branch: entry.branch,
-          category: entry.category,
-          location_area: entry.locationArea,
-          rental_rate: entry.rentalRate,
-          no_fixtures: entry.noFixtures,
-          entry_date: entry.date,
-          no_days: entry.noDays,
-          sales_mhb: entry.sales.MHB,
-          sales_mlp: entry.sales.MLP,
-          sales_msh: entry.sales.MSH,
-          sales_mum: entry.sales.MUM,
-          photos_approved_boss: entry.photos.approvedBoss,
-          photos_loi: entry.photos.loi,
-          photos_msas: entry.photos.msas,
-          remarks: entry.remarks,
-        })
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (updateError) throw updateError;
-
-      const updatedEntry: ExtraAreaEntry = {
-        id: data.id,
-        branch: data.branch,
-        category: data.category,
-        locationArea: data.location_area,
-        rentalRate: Number(data.rental_rate),
-        noFixtures: data.no_fixtures || '',
-        date: data.entry_date,
-        noDays: data.no_days,
-        sales: {
-          MHB: Number(data.sales_mhb),
-          MLP: Number(data.sales_mlp),
-          MSH: Number(data.sales_msh),
-          MUM: Number(data.sales_mum),
-        },
-        photos: {
-          approvedBoss: data.photos_approved_boss || [],
-          loi: data.photos_loi || [],
-          msas: data.photos_msas || [],
-        },
-        remarks: data.remarks || '',
-        createdAt: data.created_at,
-      };
+      const updatedEntry = await saveEntry(id, entry);
 
       setEntries((prev) => prev.map((e) => (e.id === id ? updatedEntry : e)));
       setError(null);
@@ -251,25 +274,16 @@ export const useExtraAreaStore = () => {
     }
   };
 
+  // Moves the entry to the trash; its photos are kept until it is purged from there
   const removeEntry = async (id: string) => {
-    if (!user) return;
+    if (!user || !currentOrgId) return;
 
     try {
-      // Get entry to delete its photos
-      const entry = entries.find((e) => e.id === id);
-      if (entry) {
-        const allPhotos = [
-          ...entry.photos.approvedBoss,
-          ...entry.photos.loi,
-          ...entry.photos.msas,
-        ];
-        await Promise.all(allPhotos.map((url) => deletePhoto(url)));
-      }
-
-      const { error: deleteError } = await supabase
-        .from('extra_area_entries')
-        .delete()
-        .eq('id', id);
+      const { error: deleteError } = await supabase.rpc('trash_records', {
+        p_org_id: currentOrgId,
+        p_table: 'extra_area_entries',
+        p_ids: [id],
+      });
 
       if (deleteError) throw deleteError;
 
@@ -291,6 +305,7 @@ export const useExtraAreaStore = () => {
     removeEntry,
     uploadPhoto,
     deletePhoto,
+    remoteChangeAt,
     refetch: fetchEntries,
   };
 };
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+
+export interface ImportBatch {
+  id: string;
+  fileName: string;
+  uploadedBy: string;
+  month: string;
+  rowCount: number;
+  totalQty: number;
+  totalAmount: number;
+  createdAt: string;
+}
+
+const mapBatchRow = (row: Tables<'import_batches'>): ImportBatch => ({
+  id: row.id,
+  fileName: row.file_name,
+  uploadedBy: row.uploaded_by || '',
+  month: row.month,
+  rowCount: row.row_count,
+  totalQty: row.total_qty,
+  totalAmount: Number(row.total_amount),
+  createdAt: row.created_at,
+});
+
+export const useImportBatches = () => {
+  const { user } = useAuth();
+  const { currentOrgId } = useOrganization();
+  const queryClient = useQueryClient();
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBatches = useCallback(async () => {
+    if (!user || !currentOrgId) {
+      setBatches([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error: fetchError } = await supabase
+        .from('import_batches')
+        .select('*')
+        .eq('org_id', currentOrgId)
+        .eq('status', 'completed')
+        .order('created_at', { ascending: false });
+
+      if (fetchError) throw fetchError;
+
+      setBatches((data || []).map(mapBatchRow));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching import batches:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch import history');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, currentOrgId]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  // Moves every entry the import created to the trash; the batch stays on record as rolled back
+  const rollbackBatch = async (id: string) => {
+    if (!user) return;
+
+    try {
+      const { error: rollbackError } = await supabase.rpc('rollback_import_batch', { p_batch_id: id });
+
+      if (rollbackError) throw rollbackError;
+
+      setBatches((prev) => prev.filter((batch) => batch.id !== id));
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['sales-entries', currentOrgId] }),
+        queryClient.invalidateQueries({ queryKey: ['sales-summary', currentOrgId] }),
+      ]);
+      setError(null);
+    } catch (err) {
+      console.error('Error rolling back import:', err);
+      setError(err instanceof Error ? err.message : 'Failed to roll back import');
+      throw err;
+    }
+  };
+
+  return {
+    batches,
+    loading,
+    error,
+    rollbackBatch,
+    refetch: fetchBatches,
+  };
+};
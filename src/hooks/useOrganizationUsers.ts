@@ -0,0 +1,205 @@
+import { useState, useEffect, useCallback } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { OrgRole, isOrgRole } from '@/utils/permissions';
+
+export interface OrganizationUser {
+  memberId: string;
+  userId: string;
+  email: string | null;
+  role: OrgRole;
+  branches: string[];
+  joinedAt: string;
+  lastSignInAt: string | null;
+  disabled: boolean;
+  // Created by this organization and in no other, so its password and sign-in can be changed here
+  managed: boolean;
+}
+
+export interface NewOrganizationUser {
+  email: string;
+  role: OrgRole;
+  branches: string[];
+  // Leave empty to send an invite email instead
+  password?: string;
+}
+
+type AdminUsersRequest =
+  | { action: 'list' }
+  | ({ action: 'create' } & NewOrganizationUser)
+  | { action: 'disable' | 'enable'; userId: string }
+  | { action: 'set_password'; userId: string; password: string };
+
+// The create-admin-user edge function checks the caller is an admin of the organization
+const invokeAdminUsers = async <T>(orgId: string, request: AdminUsersRequest): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('create-admin-user', {
+    body: { ...request, orgId },
+  });
+
+  if (error) {
+    // Surface the function's own message rather than the generic non-2xx one
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    throw error;
+  }
+
+  return data as T;
+};
+
+export const useOrganizationUsers = () => {
+  const { user } = useAuth();
+  const { currentOrgId, refetch: refetchOrganizations } = useOrganization();
+  const [users, setUsers] = useState<OrganizationUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    if (!user || !currentOrgId) {
+      setUsers([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const data = await invokeAdminUsers<{ users: OrganizationUser[] }>(currentOrgId, { action: 'list' });
+
+      setUsers(
+        data.users.map((orgUser) => ({ ...orgUser, role: isOrgRole(orgUser.role) ? orgUser.role : 'viewer' }))
+      );
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching users:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch users');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, currentOrgId]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const createUser = async (newUser: NewOrganizationUser) => {
+    if (!user || !currentOrgId) return;
+
+    try {
+      // Existing accounts get an invitation to accept instead of being added
+      const result = await invokeAdminUsers<{ invited: boolean; existingAccount: boolean }>(currentOrgId, {
+        action: 'create',
+        ...newUser,
+        email: newUser.email.trim(),
+        branches: newUser.role === 'admin' ? [] : newUser.branches,
+      });
+      await fetchUsers();
+      setError(null);
+      return result;
+    } catch (err) {
+      console.error('Error creating user:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create user');
+      throw err;
+    }
+  };
+
+  // Role and branch changes go straight through RLS, which only lets admins update members
+  const updateUser = async (memberId: string, changes: { role: OrgRole; branches: string[] }) => {
+    if (!user) return;
+
+    try {
+      const { error: updateError } = await supabase
+        .from('organization_members')
+        .update({ role: changes.role, branches: changes.role === 'admin' ? [] : changes.branches })
+        .eq('id', memberId);
+
+      if (updateError) throw updateError;
+
+      setUsers((prev) =>
+        prev.map((orgUser) => (orgUser.memberId === memberId ? { ...orgUser, ...changes } : orgUser))
+      );
+      // The admin's own membership may have changed
+      if (users.find((orgUser) => orgUser.memberId === memberId)?.userId === user.id) {
+        await refetchOrganizations();
+      }
+      setError(null);
+    } catch (err) {
+      console.error('Error updating user:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update user');
+      throw err;
+    }
+  };
+
+  const removeUser = async (memberId: string) => {
+    if (!user) return;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('id', memberId);
+
+      if (deleteError) throw deleteError;
+
+      setUsers((prev) => prev.filter((orgUser) => orgUser.memberId !== memberId));
+      setError(null);
+    } catch (err) {
+      console.error('Error removing user:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove user');
+      throw err;
+    }
+  };
+
+  const setDisabled = async (userId: string, disabled: boolean) => {
+    if (!user || !currentOrgId) return;
+
+    try {
+      await invokeAdminUsers(currentOrgId, { action: disabled ? 'disable' : 'enable', userId });
+      setUsers((prev) => prev.map((orgUser) => (orgUser.userId === userId ? { ...orgUser, disabled } : orgUser)));
+      setError(null);
+    } catch (err) {
+      console.error('Error updating account:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update account');
+      throw err;
+    }
+  };
+
+  const setPassword = async (userId: string, password: string) => {
+    if (!user || !currentOrgId) return;
+
+    try {
+      await invokeAdminUsers(currentOrgId, { action: 'set_password', userId, password });
+      setError(null);
+    } catch (err) {
+      console.error('Error setting password:', err);
+      setError(err instanceof Error ? err.message : 'Failed to set password');
+      throw err;
+    }
+  };
+
+  const sendPasswordReset = async (email: string) => {
+    const { error: resetError } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}/reset-password`,
+    });
+
+    if (resetError) {
+      console.error('Error sending password reset:', resetError);
+      throw resetError;
+    }
+  };
+
+  return {
+    users,
+    loading,
+    error,
+    createUser,
+    updateUser,
+    removeUser,
+    setDisabled,
+    setPassword,
+    sendPasswordReset,
+    refetch: fetchUsers,
+  };
+};
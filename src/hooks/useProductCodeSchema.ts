@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { DEFAULT_PRODUCT_CODE_SCHEMA, ProductCodeSchema, ProductCodeSegment } from '@/utils/productCode';
+
+const mapSchemaRow = (row: Tables<'product_code_schemas'>): ProductCodeSchema => ({
+  segments: (row.segments as unknown as ProductCodeSegment[]) || [],
+  separator: row.separator,
+  categoryFormat: row.category_format,
+});
+
+// Organizations without a saved schema get the default 2025 code layout
+export const useProductCodeSchema = () => {
+  const { user } = useAuth();
+  const { currentOrgId } = useOrganization();
+  const [schema, setSchema] = useState<ProductCodeSchema>(DEFAULT_PRODUCT_CODE_SCHEMA);
+  const [isCustom, setIsCustom] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchema = useCallback(async () => {
+    if (!user || !currentOrgId) {
+      setSchema(DEFAULT_PRODUCT_CODE_SCHEMA);
+      setIsCustom(false);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error: fetchError } = await supabase
+        .from('product_code_schemas')
+        .select('*')
+        .eq('org_id', currentOrgId)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+
+      setSchema(data ? mapSchemaRow(data) : DEFAULT_PRODUCT_CODE_SCHEMA);
+      setIsCustom(!!data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching product code schema:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch product code schema');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, currentOrgId]);
+
+  useEffect(() => {
+    fetchSchema();
+  }, [fetchSchema]);
+
+  const saveSchema = async (next: ProductCodeSchema) => {
+    if (!user || !currentOrgId) return;
+
+    try {
+      const { data, error: upsertError } = await supabase
+        .from('product_code_schemas')
+        .upsert(
+          {
+            user_id: user.id,
+            org_id: currentOrgId,
+            segments: next.segments as unknown as Json,
+            separator: next.separator,
+            category_format: next.categoryFormat,
+          },
+          { onConflict: 'org_id' }
+        )
+        .select()
+        .single();
+
+      if (upsertError) throw upsertError;
+
+      const saved = mapSchemaRow(data);
+      setSchema(saved);
+      setIsCustom(true);
+      setError(null);
+      return saved;
+    } catch (err) {
+      console.error('Error saving product code schema:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save product code schema');
+      throw err;
+    }
+  };
+
+  // Back to the default layout by dropping the saved rules
+  const resetSchema = async () => {
+    if (!user || !currentOrgId) return;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('product_code_schemas')
+        .delete()
+        .eq('org_id', currentOrgId);
+
+      if (deleteError) throw deleteError;
+
+      setSchema(DEFAULT_PRODUCT_CODE_SCHEMA);
+      setIsCustom(false);
+      setError(null);
+    } catch (err) {
+      console.error('Error resetting product code schema:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reset product code schema');
+      throw err;
+    }
+  };
+
+  return {
+    schema,
+    isCustom,
+    loading,
+    error,
+    saveSchema,
+    resetSchema,
+    refetch: fetchSchema,
+  };
+};
@@ -0,0 +1,115 @@
+import { useEffect, useId, useRef } from 'react';
+import type {
+  RealtimeChannel,
+  RealtimePostgresInsertPayload,
+  RealtimePostgresUpdatePayload,
+} from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type RealtimeTable = 'sales_entries' | 'extra_area_entries' | 'extra_area_sales' | 'branch_calendar_tasks';
+
+export type RealtimeChange<T extends RealtimeTable> =
+  | RealtimePostgresInsertPayload<Tables<T>>
+  | RealtimePostgresUpdatePayload<Tables<T>>;
+
+export type TrashTable = 'sales_entries' | 'extra_area_entries' | 'branch_calendar_tasks';
+
+// A move into or out of the trash, broadcast by the database
+export interface TrashChange {
+  table: TrashTable;
+  action: 'trashed' | 'restored';
+  // Null when too many rows moved at once to list them
+  ids: string[] | null;
+  userId: string | null;
+}
+
+// Bursts of changes (an import, a bulk edit) are applied once they settle
+export const REALTIME_SETTLE_MS = 500;
+
+// Subscribes to inserts and updates of the organization's rows on one table while the caller is
+// mounted. RLS applies, so rows moving into or out of the trash never arrive here (they aren't
+// readable on one side of the move); useTrashChanges reports those. Only rows already in the
+// trash are deleted for good, so deletes aren't subscribed to.
+export const useRealtimeChanges = <T extends RealtimeTable>(
+  table: T,
+  orgId: string | null,
+  onChange: (change: RealtimeChange<T>) => void
+) => {
+  // Every mounted store gets its own channel
+  const instanceId = useId();
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    if (!orgId) return;
+
+    const filter = { schema: 'public', table, filter: `org_id=eq.${orgId}` };
+    const channel = supabase
+      .channel(`${table}:${orgId}:${instanceId}`)
+      .on<Tables<T>>('postgres_changes', { ...filter, event: 'INSERT' }, (change) => onChangeRef.current(change))
+      .on<Tables<T>>('postgres_changes', { ...filter, event: 'UPDATE' }, (change) => onChangeRef.current(change))
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table, orgId, instanceId]);
+};
+
+// The broadcast topic is fixed per organization and the client keeps one channel per topic, so
+// stores share a subscription that closes with the last of them
+const trashSubscriptions = new Map<string, { channel: RealtimeChannel; listeners: Set<(change: TrashChange) => void> }>();
+
+const subscribeToTrash = (orgId: string, listener: (change: TrashChange) => void) => {
+  let subscription = trashSubscriptions.get(orgId);
+  if (!subscription) {
+    const listeners = new Set<(change: TrashChange) => void>();
+    const channel = supabase
+      .channel(`trash:${orgId}`, { config: { private: true } })
+      .on('broadcast', { event: 'trash' }, ({ payload }) => {
+        const change: TrashChange = {
+          table: payload.table,
+          action: payload.action,
+          ids: payload.ids ?? null,
+          userId: payload.user_id ?? null,
+        };
+        listeners.forEach((notify) => notify(change));
+      })
+      .subscribe();
+    subscription = { channel, listeners };
+    trashSubscriptions.set(orgId, subscription);
+  }
+
+  subscription.listeners.add(listener);
+  return () => {
+    subscription.listeners.delete(listener);
+    if (subscription.listeners.size === 0) {
+      trashSubscriptions.delete(orgId);
+      supabase.removeChannel(subscription.channel);
+    }
+  };
+};
+
+// Reports rows of the organization moving into or out of the trash while the caller is mounted
+export const useTrashChanges = (orgId: string | null, onChange: (change: TrashChange) => void) => {
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    if (!orgId) return;
+    return subscribeToTrash(orgId, (change) => onChangeRef.current(change));
+  }, [orgId]);
+};
+
+// Inserts and updates say who made them
+export const isChangeByOtherUser = (
+  change: { new: { updated_by: string | null } },
+  userId: string | undefined
+) => !!change.new.updated_by && change.new.updated_by !== userId;
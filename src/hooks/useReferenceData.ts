@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+
+export type ReferenceKind = 'branches' | 'categories';
+
+export interface ReferenceItem {
+  id: string;
+  code: string;
+  name: string;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+type ReferenceItemChanges = Partial<Pick<ReferenceItem, 'code' | 'name' | 'isActive'>>;
+
+// Both tables share one shape, so branches' row type stands in for either
+const mapReferenceRow = (row: Tables<'branches'>): ReferenceItem => ({
+  id: row.id,
+  code: row.code,
+  name: row.name || row.code,
+  isActive: row.is_active,
+  sortOrder: row.sort_order,
+});
+
+const sortReferenceItems = (items: ReferenceItem[]) =>
+  [...items].sort((a, b) => a.sortOrder - b.sortOrder || a.code.localeCompare(b.code));
+
+export const normalizeReferenceCode = (code: string) => code.trim().toUpperCase();
+
+// Branch and category lists; inactive items stay listed so older entries keep their labels
+export const useReferenceData = () => {
+  const { user } = useAuth();
+  const { currentOrgId } = useOrganization();
+  const queryClient = useQueryClient();
+  const [branches, setBranches] = useState<ReferenceItem[]>([]);
+  const [categories, setCategories] = useState<ReferenceItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const setItems = (kind: ReferenceKind) => (kind === 'branches' ? setBranches : setCategories);
+
+  const fetchReferenceData = useCallback(async () => {
+    if (!user || !currentOrgId) {
+      setBranches([]);
+      setCategories([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const [branchResult, categoryResult] = await Promise.all([
+        supabase.from('branches').select('*').eq('org_id', currentOrgId).order('sort_order').order('code'),
+        supabase.from('categories').select('*').eq('org_id', currentOrgId).order('sort_order').order('code'),
+      ]);
+
+      if (branchResult.error) throw branchResult.error;
+      if (categoryResult.error) throw categoryResult.error;
+
+      setBranches((branchResult.data || []).map(mapReferenceRow));
+      setCategories((categoryResult.data || []).map(mapReferenceRow));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching reference data:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch branches and categories');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, currentOrgId]);
+
+  useEffect(() => {
+    fetchReferenceData();
+  }, [fetchReferenceData]);
+
+  const addReference = async (kind: ReferenceKind, item: { code: string; name: string }) => {
+    if (!user || !currentOrgId) return;
+
+    const current = kind === 'branches' ? branches : categories;
+    try {
+      const { data, error: insertError } = await supabase
+        .from(kind as 'branches')
+        .insert({
+          user_id: user.id,
+          org_id: currentOrgId,
+          code: normalizeReferenceCode(item.code),
+          name: item.name.trim(),
+          sort_order: current.reduce((max, i) => Math.max(max, i.sortOrder), 0) + 1,
+        })
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      const newItem = mapReferenceRow(data);
+      setItems(kind)((prev) => sortReferenceItems([...prev, newItem]));
+      setError(null);
+      return newItem;
+    } catch (err) {
+      console.error(`Error adding ${kind}:`, err);
+      setError(err instanceof Error ? err.message : `Failed to add ${kind}`);
+      throw err;
+    }
+  };
+
+  // A code change is carried over to the organization's existing rows by the database, so its
+  // cached entries are refreshed
+  const updateReference = async (kind: ReferenceKind, id: string, changes: ReferenceItemChanges) => {
+    if (!user) return;
+
+    try {
+      const { data, error: updateError } = await supabase
+        .from(kind as 'branches')
+        .update({
+          ...(changes.code !== undefined && { code: normalizeReferenceCode(changes.code) }),
+          ...(changes.name !== undefined && { name: changes.name.trim() }),
+          ...(changes.isActive !== undefined && { is_active: changes.isActive }),
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+
+      const updatedItem = mapReferenceRow(data);
+      setItems(kind)((prev) => sortReferenceItems(prev.map((i) => (i.id === id ? updatedItem : i))));
+      setError(null);
+
+      if (changes.code !== undefined) {
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: ['sales-entries', currentOrgId] }),
+          queryClient.invalidateQueries({ queryKey: ['sales-summary', currentOrgId] }),
+        ]);
+      }
+      return updatedItem;
+    } catch (err) {
+      console.error(`Error updating ${kind}:`, err);
+      setError(err instanceof Error ? err.message : `Failed to update ${kind}`);
+      throw err;
+    }
+  };
+
+  const branchCodes = useMemo(() => branches.map((b) => b.code), [branches]);
+  const activeBranchCodes = useMemo(() => branches.filter((b) => b.isActive).map((b) => b.code), [branches]);
+  const categoryCodes = useMemo(() => categories.map((c) => c.code), [categories]);
+  const activeCategoryCodes = useMemo(
+    () => categories.filter((c) => c.isActive).map((c) => c.code),
+    [categories]
+  );
+
+  return {
+    branches,
+    categories,
+    branchCodes,
+    activeBranchCodes,
+    categoryCodes,
+    activeCategoryCodes,
+    loading,
+    error,
+    addReference,
+    updateReference,
+    refetch: fetchReferenceData,
+  };
+};
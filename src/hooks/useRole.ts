@@ -0,0 +1,12 @@
+import { useMemo } from 'react';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { getPermissions } from '@/utils/permissions';
+
+// Permissions in the current organization. Read-only until the membership has loaded.
+export function useRole() {
+  const { currentOrg } = useOrganization();
+  const role = currentOrg?.role ?? 'viewer';
+  const branches = currentOrg?.branches;
+
+  return useMemo(() => getPermissions(role, branches), [role, branches]);
+}
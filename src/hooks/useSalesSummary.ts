@@ -0,0 +1,115 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { format, startOfMonth, endOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { DailySalesSummary, ItemSalesSummary, SalesKpis } from '@/types/sales';
+import { getMonthYearKey } from '@/utils/formatters';
+
+export interface SalesSummaryParams {
+  month: Date;
+  categories: readonly string[];
+  branch: string;
+  search: string;
+}
+
+const EMPTY_KPIS: SalesKpis = {
+  totalSales: 0,
+  totalItemsSold: 0,
+  activeBranches: 0,
+  uniqueProducts: 0,
+};
+
+const toRpcArgs = (orgId: string, { month, categories, branch, search }: SalesSummaryParams) => ({
+  p_org_id: orgId,
+  p_from: format(startOfMonth(month), 'yyyy-MM-dd'),
+  p_to: format(endOfMonth(month), 'yyyy-MM-dd'),
+  p_categories: [...categories],
+  p_branch: branch === 'all' ? undefined : branch,
+  p_search: search.trim() || undefined,
+});
+
+type SummaryKind = 'daily' | 'items' | 'kpis';
+
+// Summary queries share the ['sales-summary', org, month] prefix so SalesContext can
+// invalidate a month's aggregates together with its entries.
+const useSummaryQuery = <T>(
+  kind: SummaryKind,
+  params: SalesSummaryParams,
+  fetcher: (args: ReturnType<typeof toRpcArgs>) => Promise<T>
+) => {
+  const { user } = useAuth();
+  const { currentOrgId } = useOrganization();
+  const args = toRpcArgs(currentOrgId ?? '', params);
+
+  return useQuery({
+    queryKey: ['sales-summary', currentOrgId, getMonthYearKey(params.month), kind, args],
+    queryFn: () => fetcher(args),
+    enabled: !!user && !!currentOrgId,
+    placeholderData: keepPreviousData,
+  });
+};
+
+export const useSalesDailySummary = (params: SalesSummaryParams) => {
+  const query = useSummaryQuery('daily', params, async (args) => {
+    const { data, error } = await supabase.rpc('get_sales_daily_summary', args);
+    if (error) throw error;
+
+    return (data || []).map((row): DailySalesSummary => ({
+      date: row.sale_date,
+      branch: row.branch,
+      category: row.category,
+      totalAmount: Number(row.total_amount),
+      totalQty: Number(row.total_qty),
+      totalPrice: Number(row.total_price),
+      totalDiscount: Number(row.total_discount),
+      entryCount: Number(row.entry_count),
+    }));
+  });
+
+  return { rows: query.data ?? [], loading: query.isLoading, error: query.error };
+};
+
+export const useSalesItemSummary = (params: SalesSummaryParams) => {
+  const query = useSummaryQuery('items', params, async (args) => {
+    const { data, error } = await supabase.rpc('get_sales_item_summary', args);
+    if (error) throw error;
+
+    return (data || []).map((row): ItemSalesSummary => {
+      const totalQty = Number(row.total_qty);
+      const entryCount = Number(row.entry_count);
+      const branches = (row.branches as { branch: string; qty: number; amount: number }[] | null) || [];
+      return {
+        upc: row.upc,
+        name: row.name,
+        description: row.description || '',
+        category: row.category,
+        totalQty,
+        totalAmount: Number(row.total_amount),
+        avgPrice: totalQty > 0 ? Number(row.total_price) / totalQty : 0,
+        avgDiscount: entryCount > 0 ? Number(row.total_discount) / entryCount : 0,
+        branches: branches.map((b) => ({ branch: b.branch, qty: Number(b.qty), amount: Number(b.amount) })),
+      };
+    });
+  });
+
+  return { items: query.data ?? [], loading: query.isLoading, error: query.error };
+};
+
+export const useSalesKpis = (params: SalesSummaryParams) => {
+  const query = useSummaryQuery('kpis', params, async (args) => {
+    const { data, error } = await supabase.rpc('get_sales_kpis', args);
+    if (error) throw error;
+
+    const row = data?.[0];
+    if (!row) return EMPTY_KPIS;
+    return {
+      totalSales: Number(row.total_amount),
+      totalItemsSold: Number(row.total_qty),
+      activeBranches: Number(row.branch_count),
+      uniqueProducts: Number(row.product_count),
+    };
+  });
+
+  return { kpis: query.data ?? EMPTY_KPIS, loading: query.isLoading, error: query.error };
+};
@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+
+export type TrashTable = 'sales_entries' | 'extra_area_entries' | 'branch_calendar_tasks';
+
+export const TRASH_TABLES: TrashTable[] = ['sales_entries', 'extra_area_entries', 'branch_calendar_tasks'];
+
+export interface TrashItem {
+  id: string;
+  tableName: TrashTable;
+  branch: string;
+  date: string;
+  label: string;
+  // Sales and extra area reports only
+  amount: number | null;
+  photos: string[];
+  deletedAt: string;
+  deletedByEmail: string | null;
+}
+
+type TrashRow = Database['public']['Functions']['get_trash']['Returns'][number];
+
+const mapTrashRow = (row: TrashRow): TrashItem => ({
+  id: row.id,
+  tableName: row.table_name as TrashTable,
+  branch: row.branch,
+  date: row.record_date,
+  label: row.label,
+  amount: row.amount === null ? null : Number(row.amount),
+  photos: row.photos || [],
+  deletedAt: row.deleted_at,
+  deletedByEmail: row.deleted_by_email,
+});
+
+const groupByTable = (items: TrashItem[]) =>
+  TRASH_TABLES.map((table) => {
+    const tableItems = items.filter((item) => item.tableName === table);
+    return { table, items: tableItems, ids: tableItems.map((item) => item.id) };
+  }).filter(({ ids }) => ids.length > 0);
+
+export const useTrash = () => {
+  const { user } = useAuth();
+  const { currentOrgId } = useOrganization();
+  const queryClient = useQueryClient();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchItems = useCallback(async () => {
+    if (!user || !currentOrgId) {
+      setItems([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error: fetchError } = await supabase.rpc('get_trash', { p_org_id: currentOrgId });
+
+      if (fetchError) throw fetchError;
+
+      setItems((data || []).map(mapTrashRow));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching trash:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch trash');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, currentOrgId]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  // Sales pages read through react-query; the other stores refetch when their page mounts
+  const refreshSales = async (changed: TrashItem[]) => {
+    if (!changed.some((item) => item.tableName === 'sales_entries')) return;
+
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: ['sales-entries', currentOrgId] }),
+      queryClient.invalidateQueries({ queryKey: ['sales-summary', currentOrgId] }),
+    ]);
+  };
+
+  const forget = (changed: TrashItem[]) => {
+    const keys = new Set(changed.map((item) => `${item.tableName}:${item.id}`));
+    setItems((prev) => prev.filter((item) => !keys.has(`${item.tableName}:${item.id}`)));
+  };
+
+  const restoreItems = async (selected: TrashItem[]) => {
+    if (!user || !currentOrgId) return;
+
+    try {
+      for (const { table, ids } of groupByTable(selected)) {
+        const { error: restoreError } = await supabase.rpc('restore_records', {
+          p_org_id: currentOrgId,
+          p_table: table,
+          p_ids: ids,
+        });
+
+        if (restoreError) throw restoreError;
+      }
+
+      forget(selected);
+      await refreshSales(selected);
+      setError(null);
+    } catch (err) {
+      console.error('Error restoring from trash:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore');
+      await fetchItems();
+      throw err;
+    }
+  };
+
+  // Admin-only. Extra area photos are kept while an entry is in the trash; the purge-trash
+  // function removes them together with the records.
+  const purgeItems = async (selected: TrashItem[]) => {
+    if (!user || !currentOrgId) return;
+
+    try {
+      for (const { table, ids } of groupByTable(selected)) {
+        const { error: purgeError } = await supabase.functions.invoke('purge-trash', {
+          body: { orgId: currentOrgId, table, ids },
+        });
+
+        if (purgeError) {
+          // Surface the function's own message rather than the generic non-2xx one
+          if (purgeError instanceof FunctionsHttpError) {
+            const body = await purgeError.context.json().catch(() => null);
+            if (body?.error) throw new Error(body.error);
+          }
+          throw purgeError;
+        }
+      }
+
+      forget(selected);
+      setError(null);
+    } catch (err) {
+      console.error('Error purging trash:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete permanently');
+      await fetchItems();
+      throw err;
+    }
+  };
+
+  return {
+    items,
+    loading,
+    error,
+    restoreItems,
+    purgeItems,
+    refetch: fetchItems,
+  };
+};
@@ -14,108 +14,616 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          org_id: string | null
+          row_id: string
+          table_name: string
+          user_email: string | null
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          org_id?: string | null
+          row_id: string
+          table_name: string
+          user_email?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          org_id?: string | null
+          row_id?: string
+          table_name?: string
+          user_email?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      branches: {
+        Row: {
+          code: string
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          org_id: string
+          sort_order: number
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          org_id: string
+          sort_order?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          org_id?: string
+          sort_order?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "branches_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       branch_calendar_tasks: {
         Row: {
           branch: string
           color: string | null
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           id: string
+          org_id: string
           task_date: string
           task_type: string
           title: string
           updated_at: string
-          user_id: string
+          updated_by: string | null
+          user_id: string | null
         }
         Insert: {
           branch: string
           color?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           id?: string
+          org_id: string
           task_date: string
           task_type?: string
           title: string
           updated_at?: string
-          user_id: string
+          updated_by?: string | null
+          user_id?: string | null
         }
         Update: {
           branch?: string
           color?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           id?: string
+          org_id?: string
           task_date?: string
           task_type?: string
           title?: string
           updated_at?: string
-          user_id?: string
+          updated_by?: string | null
+          user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "branch_calendar_tasks_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          code: string
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          org_id: string
+          sort_order: number
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          org_id: string
+          sort_order?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          org_id?: string
+          sort_order?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collection_items: {
+        Row: {
+          category: string
+          created_at: string
+          description: string
+          id: string
+          name: string
+          org_id: string
+          price: number
+          upc: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          description?: string
+          id?: string
+          name: string
+          org_id: string
+          price?: number
+          upc: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          description?: string
+          id?: string
+          name?: string
+          org_id?: string
+          price?: number
+          upc?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_items_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       extra_area_entries: {
         Row: {
           branch: string
           category: string
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           entry_date: string
           id: string
           location_area: string
           no_days: number
           no_fixtures: string | null
+          org_id: string
           photos_approved_boss: string[] | null
           photos_loi: string[] | null
           photos_msas: string[] | null
           remarks: string | null
           rental_rate: number
-          sales_mhb: number
-          sales_mlp: number
-          sales_msh: number
-          sales_mum: number
-          user_id: string
+          updated_by: string | null
+          user_id: string | null
         }
         Insert: {
           branch: string
           category: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           entry_date: string
           id?: string
           location_area: string
           no_days?: number
           no_fixtures?: string | null
+          org_id: string
           photos_approved_boss?: string[] | null
           photos_loi?: string[] | null
           photos_msas?: string[] | null
           remarks?: string | null
           rental_rate?: number
-          sales_mhb?: number
-          sales_mlp?: number
-          sales_msh?: number
-          sales_mum?: number
-          user_id: string
+          updated_by?: string | null
+          user_id?: string | null
         }
         Update: {
           branch?: string
           category?: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           entry_date?: string
           id?: string
           location_area?: string
           no_days?: number
           no_fixtures?: string | null
+          org_id?: string
           photos_approved_boss?: string[] | null
           photos_loi?: string[] | null
           photos_msas?: string[] | null
           remarks?: string | null
           rental_rate?: number
-          sales_mhb?: number
-          sales_mlp?: number
-          sales_msh?: number
-          sales_mum?: number
+          updated_by?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "extra_area_entries_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      extra_area_sales: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string
+          entry_id: string
+          id: string
+          org_id: string
+          user_id: string | null
+        }
+        Insert: {
+          amount?: number
+          category: string
+          created_at?: string
+          entry_id: string
+          id?: string
+          org_id: string
+          user_id?: string | null
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string
+          entry_id?: string
+          id?: string
+          org_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "extra_area_sales_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "extra_area_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "extra_area_sales_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_batches: {
+        Row: {
+          created_at: string
+          file_name: string
+          id: string
+          month: string
+          org_id: string
+          row_count: number
+          status: string
+          total_amount: number
+          total_qty: number
+          uploaded_by: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          id?: string
+          month: string
+          org_id: string
+          row_count?: number
+          status?: string
+          total_amount?: number
+          total_qty?: number
+          uploaded_by?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          id?: string
+          month?: string
+          org_id?: string
+          row_count?: number
+          status?: string
+          total_amount?: number
+          total_qty?: number
+          uploaded_by?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_batches_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_column_profiles: {
+        Row: {
+          branch: string
+          created_at: string
+          day_only_dates: boolean
+          headers: string[]
+          id: string
+          mapping: Json
+          name: string
+          org_id: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          branch?: string
+          created_at?: string
+          day_only_dates?: boolean
+          headers?: string[]
+          id?: string
+          mapping?: Json
+          name: string
+          org_id: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          branch?: string
+          created_at?: string
+          day_only_dates?: boolean
+          headers?: string[]
+          id?: string
+          mapping?: Json
+          name?: string
+          org_id?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_column_profiles_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invitations: {
+        Row: {
+          branches: string[]
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          org_id: string
+          role: string
+        }
+        Insert: {
+          branches?: string[]
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          org_id: string
+          role?: string
+        }
+        Update: {
+          branches?: string[]
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          org_id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_managed_accounts: {
+        Row: {
+          created_at: string
+          org_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          org_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          org_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_managed_accounts_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          branches: string[]
+          created_at: string
+          id: string
+          org_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          branches?: string[]
+          created_at?: string
+          id?: string
+          org_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          branches?: string[]
+          created_at?: string
+          id?: string
+          org_id?: string
+          role?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
         Relationships: []
       }
+      product_code_schemas: {
+        Row: {
+          category_format: string
+          created_at: string
+          id: string
+          org_id: string
+          segments: Json
+          separator: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          category_format?: string
+          created_at?: string
+          id?: string
+          org_id: string
+          segments?: Json
+          separator?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          category_format?: string
+          created_at?: string
+          id?: string
+          org_id?: string
+          segments?: Json
+          separator?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_code_schemas_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sales_entries: {
         Row: {
           amount: number
@@ -123,14 +631,20 @@ export type Database = {
           category: string
           created_at: string
           date: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           discount_percent: number
+          entry_key: string
           id: string
+          import_batch_id: string | null
           name: string
+          org_id: string
           price: number
           qty: number
           upc: string
-          user_id: string
+          updated_by: string | null
+          user_id: string | null
         }
         Insert: {
           amount?: number
@@ -138,14 +652,20 @@ export type Database = {
           category: string
           created_at?: string
           date: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           discount_percent?: number
+          entry_key?: string
           id?: string
+          import_batch_id?: string | null
           name: string
+          org_id: string
           price?: number
           qty?: number
           upc: string
-          user_id: string
+          updated_by?: string | null
+          user_id?: string | null
         }
         Update: {
           amount?: number
@@ -153,23 +673,353 @@ export type Database = {
           category?: string
           created_at?: string
           date?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           discount_percent?: number
+          entry_key?: string
           id?: string
+          import_batch_id?: string | null
           name?: string
+          org_id?: string
           price?: number
           qty?: number
           upc?: string
+          updated_by?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_entries_import_batch_id_fkey"
+            columns: ["import_batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_entries_org_id_fkey"
+            columns: ["org_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_import_staging: {
+        Row: {
+          amount: number | null
+          batch_id: string
+          branch: string | null
+          category: string | null
+          created_at: string
+          date: string | null
+          description: string | null
+          discount_percent: number | null
+          id: string
+          name: string | null
+          price: number | null
+          qty: number | null
+          row_index: number
+          upc: string | null
+          user_id: string
+        }
+        Insert: {
+          amount?: number | null
+          batch_id: string
+          branch?: string | null
+          category?: string | null
+          created_at?: string
+          date?: string | null
+          description?: string | null
+          discount_percent?: number | null
+          id?: string
+          name?: string | null
+          price?: number | null
+          qty?: number | null
+          row_index: number
+          upc?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number | null
+          batch_id?: string
+          branch?: string | null
+          category?: string | null
+          created_at?: string
+          date?: string | null
+          description?: string | null
+          discount_percent?: number | null
+          id?: string
+          name?: string | null
+          price?: number | null
+          qty?: number | null
+          row_index?: number
+          upc?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "sales_import_staging_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_organization_invitation: {
+        Args: {
+          p_invitation_id: string
+        }
+        Returns: string
+      }
+      assert_trash_table: {
+        Args: {
+          p_table: string
+        }
+        Returns: undefined
+      }
+      bulk_update_sales_entries: {
+        Args: {
+          p_action: string
+          p_ids: string[]
+          p_org_id: string
+          p_value?: string
+        }
+        Returns: number
+      }
+      can_read_branch: {
+        Args: {
+          p_branch: string
+          p_org_id: string
+        }
+        Returns: boolean
+      }
+      can_write_branch: {
+        Args: {
+          p_branch: string
+          p_org_id: string
+        }
+        Returns: boolean
+      }
+      clear_sales_entries: {
+        Args: {
+          p_org_id: string
+        }
+        Returns: number
+      }
+      create_organization: {
+        Args: {
+          p_name: string
+        }
+        Returns: string
+      }
+      create_personal_organization: {
+        Args: {
+          p_email: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      current_user_email: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      find_existing_sales_entries: {
+        Args: {
+          p_org_id: string
+          p_rows: Json
+        }
+        Returns: {
+          entry_id: string
+          row_index: number
+        }[]
+      }
+      get_sales_daily_summary: {
+        Args: {
+          p_branch?: string
+          p_categories?: string[]
+          p_from: string
+          p_org_id: string
+          p_search?: string
+          p_to: string
+        }
+        Returns: {
+          branch: string
+          category: string
+          entry_count: number
+          sale_date: string
+          total_amount: number
+          total_discount: number
+          total_price: number
+          total_qty: number
+        }[]
+      }
+      get_sales_item_summary: {
+        Args: {
+          p_branch?: string
+          p_categories?: string[]
+          p_from: string
+          p_org_id: string
+          p_search?: string
+          p_to: string
+        }
+        Returns: {
+          branches: Json
+          category: string
+          description: string
+          entry_count: number
+          name: string
+          total_amount: number
+          total_discount: number
+          total_price: number
+          total_qty: number
+          upc: string
+        }[]
+      }
+      get_sales_kpis: {
+        Args: {
+          p_branch?: string
+          p_categories?: string[]
+          p_from: string
+          p_org_id: string
+          p_search?: string
+          p_to: string
+        }
+        Returns: {
+          branch_count: number
+          product_count: number
+          total_amount: number
+          total_qty: number
+        }[]
+      }
+      get_trash: {
+        Args: {
+          p_org_id: string
+        }
+        Returns: {
+          amount: number | null
+          branch: string
+          deleted_at: string
+          deleted_by_email: string | null
+          id: string
+          label: string
+          photos: string[]
+          record_date: string
+          table_name: string
+        }[]
+      }
+      invite_organization_member: {
+        Args: {
+          p_branches?: string[]
+          p_email: string
+          p_org_id: string
+          p_role?: string
+        }
+        Returns: string
+      }
+      is_extra_area_photo_in_use: {
+        Args: {
+          p_name: string
+        }
+        Returns: boolean
+      }
+      is_org_member: {
+        Args: {
+          p_org_id: string
+        }
+        Returns: boolean
+      }
+      managed_account_ids: {
+        Args: {
+          p_org_id: string
+        }
+        Returns: string[]
+      }
+      org_role: {
+        Args: {
+          p_org_id: string
+        }
+        Returns: string
+      }
+      promote_import_batch: {
+        Args: {
+          p_batch_id: string
+          p_replace_ids?: string[]
+        }
+        Returns: {
+          message: string
+          row_index: number
+        }[]
+      }
+      purge_records: {
+        Args: {
+          p_ids: string[]
+          p_org_id: string
+          p_table: string
+        }
+        Returns: number
+      }
+      restore_records: {
+        Args: {
+          p_ids: string[]
+          p_org_id: string
+          p_table: string
+        }
+        Returns: number
+      }
+      rollback_import_batch: {
+        Args: {
+          p_batch_id: string
+        }
+        Returns: number
+      }
+      sales_entry_key: {
+        Args: {
+          p_amount: number
+          p_branch: string
+          p_date: string
+          p_description: string
+          p_name: string
+          p_qty: number
+        }
+        Returns: string
+      }
+      save_extra_area_entry: {
+        Args: {
+          p_entry: Json
+          p_entry_id?: string
+          p_org_id: string
+          p_sales: Json
+        }
+        Returns: string
+      }
+      seed_reference_data: {
+        Args: {
+          p_org_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      trash_records: {
+        Args: {
+          p_ids: string[]
+          p_org_id: string
+          p_table: string
+        }
+        Returns: number
+      }
+      try_parse_date: {
+        Args: {
+          p_value: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
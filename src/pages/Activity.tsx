@@ -0,0 +1,293 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Activity as ActivityIcon, History, Loader2, Search, X } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { SectionCard } from '@/components/sales/SectionCard';
+import { TablePagination } from '@/components/ui/TablePagination';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AuditLogEntry, AuditLogFilters, DEFAULT_AUDIT_FILTERS, useAuditLog } from '@/hooks/useAuditLog';
+import { useRole } from '@/hooks/useRole';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_TABLE_LABELS,
+  AuditAction,
+  describeAuditRecord,
+  formatAuditValue,
+  getChangedFields,
+} from '@/utils/audit';
+import { cn } from '@/lib/utils';
+
+const ITEMS_PER_PAGE = 50;
+
+const ACTION_BADGE_CLASSES: Record<AuditAction, string> = {
+  insert: 'bg-emerald-100 text-emerald-700 hover:bg-emerald-100',
+  update: 'bg-sky-100 text-sky-700 hover:bg-sky-100',
+  delete: 'bg-red-100 text-red-700 hover:bg-red-100',
+};
+
+const ActionBadge: React.FC<{ action: AuditAction }> = ({ action }) => (
+  <Badge className={cn('font-medium', ACTION_BADGE_CLASSES[action])}>{AUDIT_ACTION_LABELS[action]}</Badge>
+);
+
+const ActivityLog: React.FC = () => {
+  const [filters, setFilterState] = React.useState<AuditLogFilters>(DEFAULT_AUDIT_FILTERS);
+  const [emailInput, setEmailInput] = React.useState('');
+  const [currentPage, setCurrentPage] = React.useState(1);
+  const [selected, setSelected] = React.useState<AuditLogEntry | null>(null);
+
+  const deferredEmail = React.useDeferredValue(emailInput);
+  const activeFilters = React.useMemo(() => ({ ...filters, userEmail: deferredEmail }), [filters, deferredEmail]);
+  const { entries, total, loading } = useAuditLog(activeFilters, currentPage, ITEMS_PER_PAGE);
+  const totalPages = Math.ceil(total / ITEMS_PER_PAGE);
+
+  React.useEffect(() => {
+    setCurrentPage(1);
+  }, [activeFilters]);
+
+  const setFilters = (next: Partial<AuditLogFilters>) => setFilterState((prev) => ({ ...prev, ...next }));
+
+  const showRecordHistory = (entry: AuditLogEntry) => {
+    setSelected(null);
+    setFilterState({ ...DEFAULT_AUDIT_FILTERS, tableName: entry.tableName, rowId: entry.rowId });
+    setEmailInput('');
+  };
+
+  const selectedFields = selected ? getChangedFields(selected.oldData, selected.newData) : [];
+
+  return (
+    <>
+      <SectionCard className="mb-4">
+        <div className="flex flex-col lg:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Filter by user email..."
+              value={emailInput}
+              onChange={(e) => setEmailInput(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Select value={filters.tableName} onValueChange={(tableName) => setFilters({ tableName, rowId: '' })}>
+            <SelectTrigger className="w-full lg:w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover">
+              <SelectItem value="all">All records</SelectItem>
+              {Object.entries(AUDIT_TABLE_LABELS).map(([tableName, label]) => (
+                <SelectItem key={tableName} value={tableName}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.action} onValueChange={(action) => setFilters({ action })}>
+            <SelectTrigger className="w-full lg:w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover">
+              <SelectItem value="all">All changes</SelectItem>
+              {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+                <SelectItem key={action} value={action}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {filters.rowId && (
+          <div className="flex items-center gap-2 mt-3 text-sm">
+            <History className="h-4 w-4 text-muted-foreground" />
+            <span className="text-muted-foreground">
+              History of one {(AUDIT_TABLE_LABELS[filters.tableName] ?? 'record').toLowerCase()}
+            </span>
+            <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={() => setFilters({ rowId: '' })}>
+              <X className="h-3.5 w-3.5" />
+              Clear
+            </Button>
+          </div>
+        )}
+      </SectionCard>
+
+      <SectionCard className="p-0 overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="table-header border-0">
+                <TableHead>When</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Fields</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-32 text-center">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-32 text-center">
+                    <div className="flex flex-col items-center justify-center text-muted-foreground">
+                      <p className="text-lg font-medium">No activity found</p>
+                      <p className="text-sm">Changes to entries, reports, tasks, imports and members appear here</p>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.map((entry) => {
+                  const fields = getChangedFields(entry.oldData, entry.newData);
+                  return (
+                    <TableRow
+                      key={entry.id}
+                      className="table-row cursor-pointer"
+                      onClick={() => setSelected(entry)}
+                    >
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {format(new Date(entry.createdAt), 'MMM dd, yyyy h:mm a')}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{entry.userEmail || 'System'}</TableCell>
+                      <TableCell>
+                        <ActionBadge action={entry.action} />
+                      </TableCell>
+                      <TableCell>
+                        <p className="text-xs text-muted-foreground">
+                          {AUDIT_TABLE_LABELS[entry.tableName] ?? entry.tableName}
+                        </p>
+                        <p className="text-sm font-medium">
+                          {describeAuditRecord(entry.tableName, entry.newData ?? entry.oldData)}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground max-w-[240px] truncate">
+                        {entry.action === 'update' ? fields.join(', ') : '—'}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        <TablePagination
+          currentPage={currentPage}
+          totalPages={totalPages}
+          onPageChange={setCurrentPage}
+          totalItems={total}
+          itemsPerPage={ITEMS_PER_PAGE}
+          className="px-4 pb-4"
+        />
+      </SectionCard>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <ActionBadge action={selected.action} />
+                  {AUDIT_TABLE_LABELS[selected.tableName] ?? selected.tableName}
+                </DialogTitle>
+                <DialogDescription>
+                  {selected.userEmail || 'System'} · {format(new Date(selected.createdAt), 'MMM dd, yyyy h:mm:ss a')}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="border border-border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50">
+                      <TableHead className="w-[160px]">Field</TableHead>
+                      <TableHead>Before</TableHead>
+                      <TableHead>After</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedFields.map((field) => (
+                      <TableRow key={field}>
+                        <TableCell className="font-mono text-xs">{field}</TableCell>
+                        <TableCell className="text-sm break-all text-muted-foreground">
+                          {selected.oldData ? formatAuditValue(selected.oldData[field]) : '—'}
+                        </TableCell>
+                        <TableCell className="text-sm break-all">
+                          {selected.newData ? formatAuditValue(selected.newData[field]) : '—'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <div className="flex justify-end">
+                <Button variant="outline" className="gap-2" onClick={() => showRecordHistory(selected)}>
+                  <History className="h-4 w-4" />
+                  Full history of this record
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+const Activity: React.FC = () => {
+  const { canViewActivity } = useRole();
+
+  return (
+    <MainLayout>
+      {/* Header */}
+      <div className="gradient-header px-4 lg:px-6 py-6 relative z-10">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-white/20 rounded-xl">
+              <ActivityIcon className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-white">Activity</h1>
+              <p className="text-white/70 text-sm">Who created, changed or deleted what, and when</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 lg:p-6">
+        <div className="max-w-7xl mx-auto">
+          {canViewActivity ? (
+            <ActivityLog />
+          ) : (
+            <SectionCard>
+              <p className="text-muted-foreground text-center py-8">Only admins can view the activity log.</p>
+            </SectionCard>
+          )}
+        </div>
+      </div>
+    </MainLayout>
+  );
+};
+
+export default Activity;
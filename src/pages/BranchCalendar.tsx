@@ -1,5 +1,6 @@
 import React from 'react';
 import { MainLayout } from '@/components/layout/MainLayout';
+import { RemoteChangeIndicator } from '@/components/layout/RemoteChangeIndicator';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -21,6 +22,8 @@ import {
 import { cn } from '@/lib/utils';
 import { ChevronLeft, ChevronRight, Plus, Loader2, CalendarDays, Pencil, Trash2 } from 'lucide-react';
 import { useBranchCalendarStore, BranchCalendarTask } from '@/hooks/useBranchCalendarStore';
+import { useReferenceData } from '@/hooks/useReferenceData';
+import { useRole } from '@/hooks/useRole';
 import { toast } from '@/hooks/use-toast';
 import {
   format,
@@ -36,7 +39,6 @@ import {
   subMonths,
 } from 'date-fns';
 
-const BRANCHES = ['MHB', 'MLP', 'MSH', 'MUM', 'MQC'];
 const TASK_COLORS = [
   { value: 'orange', label: 'Orange', class: 'bg-orange-500 text-white' },
   { value: 'purple', label: 'Purple', class: 'bg-purple-500 text-white' },
@@ -53,7 +55,9 @@ const getColorClass = (color: string): string => {
 const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 const BranchCalendar: React.FC = () => {
-  const { tasks, loading, addTask, updateTask, removeTask } = useBranchCalendarStore();
+  const { tasks, loading, addTask, updateTask, removeTask, remoteChangeAt } = useBranchCalendarStore();
+  const { activeBranchCodes } = useReferenceData();
+  const { canEdit, canWriteBranch, writableBranches } = useRole();
   const [selectedMonth, setSelectedMonth] = React.useState(new Date());
   const [selectedDate, setSelectedDate] = React.useState<Date | null>(null);
   const [dialogOpen, setDialogOpen] = React.useState(false);
@@ -109,7 +113,8 @@ const BranchCalendar: React.FC = () => {
     setFormData({
       title: '',
       description: '',
-      branch: '',
+      // Staff assigned to a single branch don't have to pick it
+      branch: writableBranches?.length === 1 ? writableBranches[0] : '',
       taskDate: '',
       taskType: 'event',
       color: 'blue',
@@ -142,7 +147,7 @@ const BranchCalendar: React.FC = () => {
     if (window.confirm('Delete this task?')) {
       try {
         await removeTask(id);
-        toast({ title: 'Task deleted', description: 'Calendar task removed.' });
+        toast({ title: 'Task deleted', description: 'Calendar task moved to the trash.' });
       } catch {
         toast({ title: 'Error', description: 'Failed to delete task.', variant: 'destructive' });
       }
@@ -198,7 +203,10 @@ const BranchCalendar: React.FC = () => {
             </div>
             <div>
               <h1 className="text-2xl font-bold text-white">Branch Calendar</h1>
-              <p className="text-white/70 text-sm">Manage branch activities, events, and promotions</p>
+              <p className="text-white/70 text-sm">
+                Manage branch activities, events, and promotions
+                <RemoteChangeIndicator changedAt={remoteChangeAt} className="ml-2" />
+              </p>
             </div>
           </div>
         </div>
@@ -225,10 +233,12 @@ const BranchCalendar: React.FC = () => {
                   <Button variant="ghost" size="sm" onClick={handleToday}>
                     Today
                   </Button>
-                  <Button size="sm" className="gap-2" onClick={() => handleAddNew()}>
-                    <Plus className="h-4 w-4" />
-                    Add Task
-                  </Button>
+                  {canEdit && (
+                    <Button size="sm" className="gap-2" onClick={() => handleAddNew()}>
+                      <Plus className="h-4 w-4" />
+                      Add Task
+                    </Button>
+                  )}
                 </div>
               </div>
 
@@ -262,7 +272,7 @@ const BranchCalendar: React.FC = () => {
                       key={dateKey}
                       onClick={() => {
                         setSelectedDate(day);
-                        handleAddNew(day);
+                        if (canEdit) handleAddNew(day);
                       }}
                       className={cn(
                         'min-h-[120px] border-b border-r border-border/30 p-2 cursor-pointer hover:bg-muted/30 transition-colors',
@@ -335,12 +345,21 @@ const BranchCalendar: React.FC = () => {
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="branch">Branch *</Label>
-                <Input
-                  id="branch"
-                  placeholder="Enter branch code"
+                <Select
                   value={formData.branch}
-                  onChange={(e) => setFormData({ ...formData, branch: e.target.value })}
-                />
+                  onValueChange={(branch) => setFormData({ ...formData, branch })}
+                >
+                  <SelectTrigger id="branch">
+                    <SelectValue placeholder="Select branch" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover">
+                    {[...new Set([...activeBranchCodes.filter(canWriteBranch), formData.branch].filter(Boolean))].map((branch) => (
+                      <SelectItem key={branch} value={branch}>
+                        {branch}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               <div className="space-y-2">
                 <Label htmlFor="taskDate">Date *</Label>
@@ -30,11 +30,12 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { useSales } from '@/contexts/SalesContext';
+import { useSalesDailySummary, useSalesItemSummary, useSalesKpis } from '@/hooks/useSalesSummary';
 import { formatCurrency, formatMonthYear, formatDate } from '@/utils/formatters';
 import { SalesEntry } from '@/types/sales';
-
-// Fixed 4 categories only
-const ALLOWED_CATEGORIES = ['MHB', 'MLP', 'MSH', 'MUM'] as const;
+import { useReferenceData } from '@/hooks/useReferenceData';
+import { useRole } from '@/hooks/useRole';
+import { summarizeByBranch, summarizeByCategory } from '@/utils/salesSummary';
 
 const ITEMS_PER_PAGE = 50;
 
@@ -54,11 +55,25 @@ interface CategoryBreakdownDialog {
 }
 
 const CollectionHistory: React.FC = () => {
-  const { entries, selectedMonth, setSelectedMonth, removeEntry, clearAllEntries, loading } = useSales();
+  const {
+    entries: monthEntries,
+    selectedMonth,
+    setSelectedMonth,
+    filters,
+    setFilters,
+    removeEntry,
+    clearAllEntries,
+    loading,
+    remoteChangeAt,
+  } = useSales();
+  const { branchCodes, categoryCodes } = useReferenceData();
+  const { canClearAll, readableBranches } = useRole();
   
   const [searchQuery, setSearchQuery] = React.useState('');
-  const [selectedBranch, setSelectedBranch] = React.useState<string>('all');
-  const [selectedCategory, setSelectedCategory] = React.useState<string>('all');
+  const selectedBranch = filters.branch;
+  const selectedCategory = filters.category;
+  const setSelectedBranch = (branch: string) => setFilters({ branch });
+  const setSelectedCategory = (category: string) => setFilters({ category });
   const [currentPage, setCurrentPage] = React.useState(1);
   const [categoryDialog, setCategoryDialog] = React.useState<CategoryBreakdownDialog>({
     open: false,
@@ -68,23 +83,17 @@ const CollectionHistory: React.FC = () => {
     overallQty: 0,
   });
 
-  // Memoize month entries
-  const monthEntries = React.useMemo(() => {
-    const month = selectedMonth.getMonth();
-    const year = selectedMonth.getFullYear();
-    return entries.filter((entry) => {
-      const d = new Date(entry.date);
-      return d.getMonth() === month && d.getFullYear() === year;
-    });
-  }, [entries, selectedMonth]);
-
-  // Get unique branches from data
+  // Known branches are always listed since the month is fetched for the selected branch only
   const uniqueBranches = React.useMemo(() => {
-    return [...new Set(monthEntries.map(e => e.branch))].filter(b => b && b.trim() !== '').sort();
-  }, [monthEntries]);
+    if (readableBranches) return [...readableBranches].sort();
+    const branches = new Set<string>(branchCodes);
+    monthEntries.forEach((e) => {
+      if (e.branch && e.branch.trim() !== '') branches.add(e.branch);
+    });
+    return [...branches].sort();
+  }, [monthEntries, branchCodes, readableBranches]);
 
-  // Only show the 4 allowed categories
-  const uniqueCategories = ALLOWED_CATEGORIES;
+  const uniqueCategories = categoryCodes;
 
   // Deferred search for smooth typing
   const deferredSearch = React.useDeferredValue(searchQuery);
@@ -93,84 +102,36 @@ const CollectionHistory: React.FC = () => {
   // Filter entries based on search and filters - ONLY show allowed categories
   const filteredEntries = React.useMemo(() => {
     return monthEntries.filter((entry) => {
-      const isAllowedCategory = ALLOWED_CATEGORIES.includes(entry.category as typeof ALLOWED_CATEGORIES[number]);
+      const isAllowedCategory = categoryCodes.includes(entry.category);
       if (!isAllowedCategory) return false;
       
       const matchesSearch =
         !normalizedSearch ||
         entry.name.toLowerCase().includes(normalizedSearch) ||
+        entry.upc.toLowerCase().includes(normalizedSearch) ||
         entry.description.toLowerCase().includes(normalizedSearch);
       const matchesBranch = selectedBranch === 'all' || entry.branch === selectedBranch;
       const matchesCategory = selectedCategory === 'all' || entry.category === selectedCategory;
       return matchesSearch && matchesBranch && matchesCategory;
     });
-  }, [monthEntries, normalizedSearch, selectedBranch, selectedCategory]);
+  }, [monthEntries, categoryCodes, normalizedSearch, selectedBranch, selectedCategory]);
 
   // Reset page when filters change
   React.useEffect(() => {
     setCurrentPage(1);
   }, [selectedMonth, selectedBranch, selectedCategory, normalizedSearch]);
 
-  // Aggregate entries by item code (UPC) and sort by total qty sold (highest to lowest)
-  const aggregatedItems = React.useMemo(() => {
-    const itemMap = new Map<string, {
-      upc: string;
-      name: string;
-      description: string;
-      category: string;
-      totalQty: number;
-      totalAmount: number;
-      avgPrice: number;
-      avgDiscount: number;
-      branches: { branch: string; qty: number; amount: number }[];
-      entries: SalesEntry[];
-    }>();
-
-    for (const entry of filteredEntries) {
-      const existing = itemMap.get(entry.upc);
-      if (existing) {
-        existing.totalQty += entry.qty;
-        existing.totalAmount += entry.amount;
-        existing.entries.push(entry);
-        
-        // Update branch breakdown
-        const branchEntry = existing.branches.find(b => b.branch === entry.branch);
-        if (branchEntry) {
-          branchEntry.qty += entry.qty;
-          branchEntry.amount += entry.amount;
-        } else {
-          existing.branches.push({ branch: entry.branch, qty: entry.qty, amount: entry.amount });
-        }
-      } else {
-        itemMap.set(entry.upc, {
-          upc: entry.upc,
-          name: entry.name,
-          description: entry.description,
-          category: entry.category,
-          totalQty: entry.qty,
-          totalAmount: entry.amount,
-          avgPrice: entry.price,
-          avgDiscount: entry.discountPercent,
-          branches: [{ branch: entry.branch, qty: entry.qty, amount: entry.amount }],
-          entries: [entry],
-        });
-      }
-    }
+  const summaryParams = {
+    month: selectedMonth,
+    categories: selectedCategory === 'all' ? categoryCodes : [selectedCategory],
+    branch: selectedBranch,
+    search: normalizedSearch,
+  };
 
-    // Calculate averages and sort branches
-    return Array.from(itemMap.values())
-      .map(item => {
-        const totalPrice = item.entries.reduce((sum, e) => sum + (e.price * e.qty), 0);
-        const totalDiscount = item.entries.reduce((sum, e) => sum + e.discountPercent, 0);
-        return {
-          ...item,
-          avgPrice: item.totalQty > 0 ? totalPrice / item.totalQty : 0,
-          avgDiscount: item.entries.length > 0 ? totalDiscount / item.entries.length : 0,
-          branches: item.branches.sort((a, b) => b.qty - a.qty), // Sort branches by qty
-        };
-      })
-      .sort((a, b) => b.totalQty - a.totalQty); // Sort by total qty sold (highest to lowest)
-  }, [filteredEntries]);
+  // Items aggregated by item code (UPC) server-side, sorted by total qty sold (highest to lowest)
+  const { items: aggregatedItems } = useSalesItemSummary(summaryParams);
+  const { kpis } = useSalesKpis(summaryParams);
+  const { rows: dailySummary } = useSalesDailySummary(summaryParams);
 
   // Pagination for aggregated items
   const totalPages = Math.ceil(aggregatedItems.length / ITEMS_PER_PAGE);
@@ -179,91 +140,28 @@ const CollectionHistory: React.FC = () => {
     return aggregatedItems.slice(start, start + ITEMS_PER_PAGE);
   }, [aggregatedItems, currentPage]);
 
-  // Calculate totals efficiently
-  const kpis = React.useMemo(() => {
-    let totalSales = 0;
-    let totalItemsSold = 0;
-    for (const e of filteredEntries) {
-      totalSales += e.amount;
-      totalItemsSold += e.qty;
-    }
-    return { totalSales, totalItemsSold };
-  }, [filteredEntries]);
-
-  // Category cards data - only show allowed categories (without storing entries)
+  // Category cards data - only show allowed categories
   const categoryCards = React.useMemo(() => {
-    const totals = new Map<string, { totalAmount: number; soldCount: number; totalPrice: number; totalDiscount: number; entryCount: number }>();
-    ALLOWED_CATEGORIES.forEach((cat) => totals.set(cat, { totalAmount: 0, soldCount: 0, totalPrice: 0, totalDiscount: 0, entryCount: 0 }));
-
-    for (const entry of filteredEntries) {
-      if (!ALLOWED_CATEGORIES.includes(entry.category as typeof ALLOWED_CATEGORIES[number])) continue;
-      const t = totals.get(entry.category)!;
-      t.totalAmount += entry.amount;
-      t.soldCount += entry.qty;
-      t.totalPrice += entry.price * entry.qty;
-      t.totalDiscount += entry.discountPercent;
-      t.entryCount += 1;
-    }
+    return summarizeByCategory(dailySummary, categoryCodes);
+  }, [dailySummary, categoryCodes]);
 
-    return ALLOWED_CATEGORIES.map((cat) => {
-      const t = totals.get(cat)!;
-      return {
-        category: cat,
-        totalAmount: t.totalAmount,
-        soldCount: t.soldCount,
-        avgPrice: t.soldCount > 0 ? t.totalPrice / t.soldCount : 0,
-        avgDiscount: t.entryCount > 0 ? t.totalDiscount / t.entryCount : 0,
-      };
-    });
-  }, [filteredEntries]);
-
-  // Handle category card click - compute entries on demand
+  // Handle category card click - totals come from the summary, entries are listed on demand
   const handleCategoryCardClick = (categoryData: typeof categoryCards[number]) => {
     const categoryEntries = filteredEntries.filter((e) => e.category === categoryData.category);
-    
-    const branchMap = new Map<string, {
-      branch: string;
-      totalAmount: number;
-      totalQty: number;
-      totalPrice: number;
-      totalDiscount: number;
-      entryCount: number;
-      entries: SalesEntry[];
-    }>();
-
-    categoryEntries.forEach((entry) => {
-      const existing = branchMap.get(entry.branch);
-      if (existing) {
-        existing.totalAmount += entry.amount;
-        existing.totalQty += entry.qty;
-        existing.totalPrice += entry.price * entry.qty;
-        existing.totalDiscount += entry.discountPercent;
-        existing.entryCount += 1;
-        existing.entries.push(entry);
-      } else {
-        branchMap.set(entry.branch, {
-          branch: entry.branch,
-          totalAmount: entry.amount,
-          totalQty: entry.qty,
-          totalPrice: entry.price * entry.qty,
-          totalDiscount: entry.discountPercent,
-          entryCount: 1,
-          entries: [entry],
-        });
-      }
-    });
 
-    // Sort by highest amount and calculate averages
-    const branches = Array.from(branchMap.values())
-      .map(b => ({
-        branch: b.branch,
-        totalAmount: b.totalAmount,
-        totalQty: b.totalQty,
-        avgPrice: b.totalPrice / b.totalQty,
-        avgDiscount: b.totalDiscount / b.entryCount,
-        entries: b.entries.sort((a, c) => c.amount - a.amount),
-      }))
-      .sort((a, b) => b.totalAmount - a.totalAmount);
+    // Sort by highest amount
+    const branches = summarizeByBranch(
+      dailySummary.filter((row) => row.category === categoryData.category)
+    ).map((b) => ({
+      branch: b.branch,
+      totalAmount: b.totalAmount,
+      totalQty: b.totalQty,
+      avgPrice: b.avgPrice,
+      avgDiscount: b.avgDiscount,
+      entries: categoryEntries
+        .filter((e) => e.branch === b.branch)
+        .sort((a, c) => c.amount - a.amount),
+    }));
 
     setCategoryDialog({
       open: true,
@@ -295,6 +193,7 @@ const CollectionHistory: React.FC = () => {
         selectedMonth={selectedMonth}
         onMonthChange={setSelectedMonth}
         pdfElementId="collection-history-content"
+        remoteChangeAt={remoteChangeAt}
       />
 
       <div id="collection-history-content" className="flex-1 overflow-auto p-4 lg:p-6">
@@ -320,7 +219,7 @@ const CollectionHistory: React.FC = () => {
                   <SelectValue placeholder="All Branches" />
                 </SelectTrigger>
                 <SelectContent className="bg-popover">
-                  <SelectItem value="all">All Branches</SelectItem>
+                  <SelectItem value="all">{readableBranches ? 'All My Branches' : 'All Branches'}</SelectItem>
                   {uniqueBranches.map((branch) => (
                     <SelectItem key={branch} value={branch}>
                       {branch}
@@ -441,7 +340,7 @@ const CollectionHistory: React.FC = () => {
                     <Badge variant="secondary">{aggregatedItems.length} items</Badge>
                     <Badge variant="outline" className="text-xs">By Qty Sold (High → Low)</Badge>
                   </div>
-                  {aggregatedItems.length > 0 && (
+                  {canClearAll && aggregatedItems.length > 0 && (
                     <Button 
                       variant="destructive" 
                       size="sm"
@@ -2,7 +2,7 @@ import React from 'react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { PageHeader } from '@/components/layout/PageHeader';
 import { SectionCard } from '@/components/sales/SectionCard';
-import { Search, Trash2, Upload, Download, Plus, Pencil } from 'lucide-react';
+import { Search, Trash2, Upload, Download, Plus, Pencil, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -28,32 +28,33 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
+import { SheetPickerDialog, SheetSelection } from '@/components/sales/SheetPickerDialog';
 import { formatCurrency } from '@/utils/formatters';
-import { CATEGORIES } from '@/types/sales';
+import { useReferenceData } from '@/hooks/useReferenceData';
+import { useRole } from '@/hooks/useRole';
 import { toast } from '@/hooks/use-toast';
+import { useCollectionItemsStore } from '@/hooks/useCollectionItemsStore';
 import {
   CollectionItem,
-  getCollectionItems,
-  saveCollectionItems,
-  importCollectionItemsFromExcel,
+  parseCollectionItemsFromSheets,
   exportCollectionItemsToExcel,
 } from '@/utils/collectionItemsUtils';
-
-const STORAGE_KEY = 'collection-items';
+import { ExcelSheetData, readExcelWorkbook, summarizeSheet } from '@/utils/excel/workbook';
 
 const CollectionItems: React.FC = () => {
   const [selectedMonth, setSelectedMonth] = React.useState(new Date());
   const [searchQuery, setSearchQuery] = React.useState('');
   const [selectedCategory, setSelectedCategory] = React.useState<string>('all');
-  const [items, setItems] = React.useState<CollectionItem[]>(() => getCollectionItems());
+  const { items, loading, addItem, addItems, updateItem, removeItem, clearItems } = useCollectionItemsStore();
+  const { categoryCodes, activeCategoryCodes } = useReferenceData();
+  const { canEdit, canClearAll } = useRole();
   const [addDialogOpen, setAddDialogOpen] = React.useState(false);
   const [editingItem, setEditingItem] = React.useState<CollectionItem | null>(null);
   const fileInputRef = React.useRef<HTMLInputElement>(null);
-  
-  // Save to localStorage whenever items change
-  React.useEffect(() => {
-    saveCollectionItems(items);
-  }, [items]);
+  const [importFileName, setImportFileName] = React.useState('');
+  const [workbookSheets, setWorkbookSheets] = React.useState<ExcelSheetData[]>([]);
+  const workbookSummaries = React.useMemo(() => workbookSheets.map(summarizeSheet), [workbookSheets]);
+  const [sheetPickerOpen, setSheetPickerOpen] = React.useState(false);
   
   // Form state
   const [formData, setFormData] = React.useState({
@@ -76,9 +77,21 @@ const CollectionItems: React.FC = () => {
     });
   }, [items, searchQuery, selectedCategory]);
 
-  const handleClearAll = () => {
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const handleClearAll = async () => {
     if (window.confirm('Are you sure you want to clear all items?')) {
-      setItems([]);
+      try {
+        await clearItems();
+      } catch (error) {
+        showError(error, 'Failed to clear items.');
+      }
     }
   };
 
@@ -100,40 +113,38 @@ const CollectionItems: React.FC = () => {
     setAddDialogOpen(true);
   };
 
-  const handleDeleteItem = (id: string) => {
+  const handleDeleteItem = async (id: string) => {
     if (window.confirm('Delete this item?')) {
-      setItems(items.filter((item) => item.id !== id));
+      try {
+        await removeItem(id);
+      } catch (error) {
+        showError(error, 'Failed to delete item.');
+      }
     }
   };
 
-  const handleSaveItem = () => {
+  const handleSaveItem = async () => {
     if (!formData.name || !formData.upc || !formData.category || !formData.price) {
       return;
     }
 
-    if (editingItem) {
-      setItems(items.map((item) =>
-        item.id === editingItem.id
-          ? {
-              ...item,
-              name: formData.name,
-              upc: formData.upc,
-              description: formData.description,
-              category: formData.category,
-              price: parseFloat(formData.price) || 0,
-            }
-          : item
-      ));
-    } else {
-      const newItem: CollectionItem = {
-        id: Date.now().toString(),
-        name: formData.name,
-        upc: formData.upc,
-        description: formData.description,
-        category: formData.category,
-        price: parseFloat(formData.price) || 0,
-      };
-      setItems([...items, newItem]);
+    const item = {
+      name: formData.name,
+      upc: formData.upc.trim(),
+      description: formData.description,
+      category: formData.category,
+      price: parseFloat(formData.price) || 0,
+    };
+
+    try {
+      if (editingItem) {
+        await updateItem(editingItem.id, item);
+      } else {
+        await addItem(item);
+      }
+    } catch (error) {
+      showError(error, 'Failed to save item.');
+      return;
     }
 
     setAddDialogOpen(false);
@@ -150,23 +161,28 @@ const CollectionItems: React.FC = () => {
     fileInputRef.current?.click();
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const importSheets = async (sheets: ExcelSheetData[]) => {
+    const result = parseCollectionItemsFromSheets(sheets);
 
-    const result = await importCollectionItemsFromExcel(file);
-    
     if (result.success) {
       // Add imported items (avoiding duplicate UPCs)
-      const existingUPCs = new Set(items.map(item => item.upc));
-      const newItems = result.data.filter(item => !existingUPCs.has(item.upc));
-      const duplicates = result.data.length - newItems.length;
+      let inserted: CollectionItem[];
+      try {
+        inserted = await addItems(result.data.map(({ id: _id, ...item }) => item));
+      } catch (error) {
+        showError(error, 'Failed to save imported items.');
+        return;
+      }
+      const duplicates = result.data.length - inserted.length;
+      const sheetCounts = result.sheets.length > 1
+        ? ` From ${result.sheets
+            .map(sheet => `${sheet.sheetName}: ${sheet.rowCount} rows${sheet.errorCount > 0 ? ` (${sheet.errorCount} with errors)` : ''}`)
+            .join(', ')}.`
+        : '';
 
-      setItems(prev => [...prev, ...newItems]);
-      
       toast({
         title: 'Import successful',
-        description: `${newItems.length} items imported${duplicates > 0 ? `, ${duplicates} duplicates skipped` : ''}.`,
+        description: `${inserted.length} items imported${duplicates > 0 ? `, ${duplicates} duplicates skipped` : ''}.${sheetCounts}`,
       });
 
       if (result.errors.length > 0) {
@@ -175,7 +191,34 @@ const CollectionItems: React.FC = () => {
     } else {
       toast({
         title: 'Import failed',
-        description: result.errors[0] || 'Unknown error',
+        description: result.errors[0] || 'No items found in the selected sheets.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSheetsSelected = ({ sheetNames }: SheetSelection) => {
+    setSheetPickerOpen(false);
+    importSheets(workbookSheets.filter((sheet) => sheetNames.includes(sheet.sheetName)));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const sheets = await readExcelWorkbook(file);
+      if (sheets.length === 1) {
+        await importSheets(sheets);
+      } else {
+        setImportFileName(file.name);
+        setWorkbookSheets(sheets);
+        setSheetPickerOpen(true);
+      }
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: 'Failed to parse Excel file. Please check the format.',
         variant: 'destructive',
       });
     }
@@ -224,28 +267,34 @@ const CollectionItems: React.FC = () => {
           
           {/* Action Buttons */}
           <div className="flex flex-wrap gap-2">
-            <Button 
-              variant="destructive" 
-              size="sm" 
-              className="gap-2"
-              onClick={handleClearAll}
-              disabled={items.length === 0}
-            >
-              <Trash2 className="h-4 w-4" />
-              Clear All
-            </Button>
-            <Button variant="outline" size="sm" className="gap-2" onClick={handleImportClick}>
-              <Upload className="h-4 w-4" />
-              Import Excel
-            </Button>
+            {canClearAll && (
+              <Button 
+                variant="destructive" 
+                size="sm" 
+                className="gap-2"
+                onClick={handleClearAll}
+                disabled={items.length === 0}
+              >
+                <Trash2 className="h-4 w-4" />
+                Clear All
+              </Button>
+            )}
+            {canEdit && (
+              <Button variant="outline" size="sm" className="gap-2" onClick={handleImportClick}>
+                <Upload className="h-4 w-4" />
+                Import Excel
+              </Button>
+            )}
             <Button variant="outline" size="sm" className="gap-2" onClick={handleExport}>
               <Download className="h-4 w-4" />
               Export Excel
             </Button>
-            <Button size="sm" className="gap-2" onClick={handleAddItem}>
-              <Plus className="h-4 w-4" />
-              Add Item
-            </Button>
+            {canEdit && (
+              <Button size="sm" className="gap-2" onClick={handleAddItem}>
+                <Plus className="h-4 w-4" />
+                Add Item
+              </Button>
+            )}
           </div>
 
           {/* Filters */}
@@ -265,7 +314,7 @@ const CollectionItems: React.FC = () => {
               </SelectTrigger>
               <SelectContent className="bg-popover">
                 <SelectItem value="all">All Categories</SelectItem>
-                {(uniqueCategories.length > 0 ? uniqueCategories : CATEGORIES).map((category) => (
+                {(uniqueCategories.length > 0 ? uniqueCategories : categoryCodes).map((category) => (
                   <SelectItem key={category} value={category}>
                     {category}
                   </SelectItem>
@@ -297,7 +346,13 @@ const CollectionItems: React.FC = () => {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredItems.length > 0 ? (
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-32 text-center">
+                      <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : filteredItems.length > 0 ? (
                   filteredItems.map((item) => (
                     <TableRow key={item.id} className="table-row">
                       <TableCell className="font-medium">{item.name}</TableCell>
@@ -308,24 +363,26 @@ const CollectionItems: React.FC = () => {
                       <TableCell>{item.category}</TableCell>
                       <TableCell className="text-right">{formatCurrency(item.price)}</TableCell>
                       <TableCell className="text-right">
-                        <div className="flex items-center justify-end gap-1">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-8 w-8 text-muted-foreground hover:text-foreground"
-                            onClick={() => handleEditItem(item)}
-                          >
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                            onClick={() => handleDeleteItem(item.id)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
+                        {canEdit && (
+                          <div className="flex items-center justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                              onClick={() => handleEditItem(item)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                              onClick={() => handleDeleteItem(item.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
@@ -380,12 +437,22 @@ const CollectionItems: React.FC = () => {
             </div>
             <div className="space-y-2">
               <Label htmlFor="category">Category *</Label>
-              <Input
-                id="category"
-                placeholder="Enter category"
+              <Select
                 value={formData.category}
-                onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-              />
+                onValueChange={(category) => setFormData({ ...formData, category })}
+              >
+                <SelectTrigger id="category">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent className="bg-popover">
+                  {/* Keep an item's deactivated category selectable while editing it */}
+                  {[...new Set([...activeCategoryCodes, formData.category].filter(Boolean))].map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {category}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             <div className="space-y-2">
               <Label htmlFor="price">Price *</Label>
@@ -408,6 +475,14 @@ const CollectionItems: React.FC = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <SheetPickerDialog
+        open={sheetPickerOpen}
+        onOpenChange={setSheetPickerOpen}
+        fileName={importFileName}
+        sheets={workbookSummaries}
+        onContinue={handleSheetsSelected}
+      />
     </MainLayout>
   );
 };
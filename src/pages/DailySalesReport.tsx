@@ -3,8 +3,12 @@ import { MainLayout } from '@/components/layout/MainLayout';
 import { PageHeader } from '@/components/layout/PageHeader';
 import { FilterImportExport } from '@/components/sales/FilterImportExport';
 import { SalesEntryTable } from '@/components/sales/SalesEntryTable';
+import { AddSalesEntryForm } from '@/components/sales/AddSalesEntryForm';
+import { BulkActionsBar } from '@/components/sales/BulkActionsBar';
 import { useSales } from '@/contexts/SalesContext';
-import { SalesEntry, DateRange } from '@/types/sales';
+import { useRole } from '@/hooks/useRole';
+import { DateRange, DuplicateMode } from '@/types/sales';
+import { ImportedSalesEntry } from '@/utils/excelUtils';
 import { toast } from '@/hooks/use-toast';
 import { Loader2 } from 'lucide-react';
 
@@ -12,40 +16,48 @@ const ITEMS_PER_PAGE = 50;
 
 const DailySalesReport: React.FC = () => {
   const { 
+    entries: monthEntries,
     selectedMonth, 
     setSelectedMonth, 
-    addEntriesBatch, 
+    filters,
+    setFilters,
+    addEntry,
+    importEntries,
+    findExistingEntries,
     removeEntry, 
+    updateEntry,
+    bulkUpdateEntries,
     clearAllEntries,
-    getEntriesForMonth,
     isImporting,
     importProgress,
     loading,
+    remoteChangeAt,
   } = useSales();
+  const { canEdit, canClearAll, canWriteBranch } = useRole();
 
-  const [dateRange, setDateRange] = React.useState<DateRange>({
-    from: undefined,
-    to: undefined,
-  });
+  const dateRange = filters.dateRange;
+  const setDateRange = React.useCallback(
+    (range: DateRange) => setFilters({ dateRange: range }),
+    [setFilters]
+  );
   const [currentPage, setCurrentPage] = React.useState(1);
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(new Set());
 
-  const monthEntries = React.useMemo(() => {
-    let filtered = getEntriesForMonth(selectedMonth);
-    
-    if (dateRange.from) {
-      filtered = filtered.filter(e => new Date(e.date) >= dateRange.from!);
-    }
-    if (dateRange.to) {
-      filtered = filtered.filter(e => new Date(e.date) <= dateRange.to!);
-    }
-    
-    return filtered;
-  }, [getEntriesForMonth, selectedMonth, dateRange]);
-
-  // Reset page when filters change
+  // Reset page and selection when filters change
   React.useEffect(() => {
     setCurrentPage(1);
-  }, [selectedMonth, dateRange]);
+    setSelectedIds(new Set());
+  }, [selectedMonth, filters]);
+
+  const selectableEntries = React.useMemo(
+    () => monthEntries.filter((entry) => canWriteBranch(entry.branch)),
+    [monthEntries, canWriteBranch]
+  );
+  // Ids of rows that left the filter or were deleted drop out here
+  const selectedEntries = React.useMemo(
+    () => selectableEntries.filter((entry) => selectedIds.has(entry.id)),
+    [selectableEntries, selectedIds]
+  );
 
   const totalPages = Math.ceil(monthEntries.length / ITEMS_PER_PAGE);
   const paginatedEntries = React.useMemo(() => {
@@ -53,15 +65,14 @@ const DailySalesReport: React.FC = () => {
     return monthEntries.slice(start, start + ITEMS_PER_PAGE);
   }, [monthEntries, currentPage]);
 
-  const handleImport = async (importedEntries: SalesEntry[]) => {
-    await addEntriesBatch(importedEntries);
-  };
+  const handleImport = (importedEntries: ImportedSalesEntry[], mode: DuplicateMode, fileName: string) =>
+    importEntries(importedEntries, mode, fileName);
 
   const handleDelete = async (id: string) => {
     await removeEntry(id);
     toast({
       title: 'Entry deleted',
-      description: 'Sales entry has been removed.',
+      description: 'Sales entry moved to the trash.',
     });
   };
 
@@ -69,7 +80,7 @@ const DailySalesReport: React.FC = () => {
     await clearAllEntries();
     toast({
       title: 'All entries cleared',
-      description: 'All sales data has been removed.',
+      description: 'All sales entries were moved to the trash.',
     });
   };
 
@@ -95,6 +106,7 @@ const DailySalesReport: React.FC = () => {
         selectedMonth={selectedMonth}
         onMonthChange={setSelectedMonth}
         pdfElementId="daily-sales-content"
+        remoteChangeAt={remoteChangeAt}
       />
       
       <div id="daily-sales-content" className="flex-1 overflow-auto p-4 lg:p-6 space-y-6">
@@ -104,14 +116,32 @@ const DailySalesReport: React.FC = () => {
             onDateRangeChange={setDateRange}
             entries={monthEntries}
             onImport={handleImport}
-            onClearAll={handleClearAll}
+            findExisting={findExistingEntries}
+            onClearAll={canClearAll ? handleClearAll : undefined}
+            canImport={canEdit}
             isImporting={isImporting}
             importProgress={importProgress}
           />
+
+          {canEdit && <AddSalesEntryForm onSave={addEntry} />}
+
+          <BulkActionsBar
+            selectedEntries={selectedEntries}
+            selectableCount={selectableEntries.length}
+            onSelectAll={() => setSelectedIds(new Set(selectableEntries.map((entry) => entry.id)))}
+            onClearSelection={() => setSelectedIds(new Set())}
+            onApply={bulkUpdateEntries}
+          />
           
           <SalesEntryTable
             entries={paginatedEntries}
             onDelete={handleDelete}
+            canDelete={(entry) => canWriteBranch(entry.branch)}
+            onUpdate={updateEntry}
+            canEdit={(entry) => canWriteBranch(entry.branch)}
+            selectedIds={canEdit ? selectedIds : undefined}
+            onSelectionChange={setSelectedIds}
+            showActions={canEdit}
             currentPage={currentPage}
             totalPages={totalPages}
             totalItems={monthEntries.length}
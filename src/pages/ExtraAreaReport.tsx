@@ -23,12 +23,21 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Plus, Pencil, Trash2, ImagePlus, X, MapPin, Calendar, Loader2 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { formatCurrency } from '@/utils/formatters';
 import { TablePagination } from '@/components/ui/TablePagination';
 import { format } from 'date-fns';
-import { useExtraAreaStore, ExtraAreaEntry } from '@/hooks/useExtraAreaStore';
+import { useExtraAreaStore, ExtraAreaEntry, SalesPerCategory } from '@/hooks/useExtraAreaStore';
+import { useReferenceData } from '@/hooks/useReferenceData';
+import { useRole } from '@/hooks/useRole';
 import { useAuth } from '@/contexts/AuthContext';
 
 const ITEMS_PER_PAGE = 50;
@@ -39,13 +48,6 @@ interface PhotoGroup {
   msas: string[];
 }
 
-interface SalesPerCategory {
-  MHB: number;
-  MLP: number;
-  MSH: number;
-  MUM: number;
-}
-
 const ExtraAreaReport: React.FC = () => {
   const { user } = useAuth();
   const { 
@@ -55,8 +57,11 @@ const ExtraAreaReport: React.FC = () => {
     updateEntry, 
     removeEntry, 
     uploadPhoto, 
-    deletePhoto 
+    deletePhoto,
+    remoteChangeAt,
   } = useExtraAreaStore();
+  const { activeBranchCodes, activeCategoryCodes } = useReferenceData();
+  const { canEdit, canClearAll, canWriteBranch } = useRole();
   
   const [selectedMonth, setSelectedMonth] = React.useState(new Date());
   const [dialogOpen, setDialogOpen] = React.useState(false);
@@ -75,12 +80,15 @@ const ExtraAreaReport: React.FC = () => {
     noFixtures: '',
     date: '',
     noDays: '',
-    salesMHB: '',
-    salesMLP: '',
-    salesMSH: '',
-    salesMUM: '',
     remarks: '',
   });
+  // Sales inputs keyed by category code
+  const [salesInputs, setSalesInputs] = React.useState<Record<string, string>>({});
+  // Active categories, plus any deactivated ones the entry being edited already has sales for
+  const salesCategories = React.useMemo(
+    () => [...new Set([...activeCategoryCodes, ...Object.keys(salesInputs)])],
+    [activeCategoryCodes, salesInputs]
+  );
   const [photos, setPhotos] = React.useState<PhotoGroup>({
     approvedBoss: [],
     loi: [],
@@ -101,12 +109,9 @@ const ExtraAreaReport: React.FC = () => {
       noFixtures: '',
       date: '',
       noDays: '',
-      salesMHB: '',
-      salesMLP: '',
-      salesMSH: '',
-      salesMUM: '',
       remarks: '',
     });
+    setSalesInputs({});
     setPhotos({ approvedBoss: [], loi: [], msas: [] });
     setEditingEntry(null);
   };
@@ -125,12 +130,11 @@ const ExtraAreaReport: React.FC = () => {
       noFixtures: entry.noFixtures.toString(),
       date: entry.date || '',
       noDays: entry.noDays.toString(),
-      salesMHB: (entry.sales?.MHB || 0).toString(),
-      salesMLP: (entry.sales?.MLP || 0).toString(),
-      salesMSH: (entry.sales?.MSH || 0).toString(),
-      salesMUM: (entry.sales?.MUM || 0).toString(),
       remarks: entry.remarks,
     });
+    setSalesInputs(
+      Object.fromEntries(Object.entries(entry.sales).map(([category, amount]) => [category, amount.toString()]))
+    );
     setPhotos(entry.photos);
     setEditingEntry(entry);
     setDialogOpen(true);
@@ -140,7 +144,7 @@ const ExtraAreaReport: React.FC = () => {
     if (window.confirm('Delete this entry?')) {
       try {
         await removeEntry(id);
-        toast({ title: 'Entry deleted', description: 'Extra area report removed.' });
+        toast({ title: 'Entry deleted', description: 'Extra area report moved to the trash.' });
       } catch (err) {
         toast({ title: 'Error', description: 'Failed to delete entry.', variant: 'destructive' });
       }
@@ -175,7 +179,9 @@ const ExtraAreaReport: React.FC = () => {
 
   const handleRemovePhoto = async (type: keyof PhotoGroup, index: number) => {
     const photoUrl = photos[type][index];
-    if (photoUrl && photoUrl.startsWith('http')) {
+    // Saved photos stay in storage until the edit is saved; the stored report still points at them
+    const isSaved = !!editingEntry?.photos[type].includes(photoUrl);
+    if (photoUrl && photoUrl.startsWith('http') && !isSaved) {
       await deletePhoto(photoUrl);
     }
     setPhotos(prev => ({
@@ -192,12 +198,9 @@ const ExtraAreaReport: React.FC = () => {
 
     setIsSaving(true);
 
-    const salesData: SalesPerCategory = {
-      MHB: parseFloat(formData.salesMHB) || 0,
-      MLP: parseFloat(formData.salesMLP) || 0,
-      MSH: parseFloat(formData.salesMSH) || 0,
-      MUM: parseFloat(formData.salesMUM) || 0,
-    };
+    const salesData: SalesPerCategory = Object.fromEntries(
+      salesCategories.map((category) => [category, parseFloat(salesInputs[category]) || 0])
+    );
 
     const entryData = {
       branch: formData.branch,
@@ -215,6 +218,13 @@ const ExtraAreaReport: React.FC = () => {
     try {
       if (editingEntry) {
         await updateEntry(editingEntry.id, entryData);
+        const keptPhotos = new Set([...photos.approvedBoss, ...photos.loi, ...photos.msas]);
+        const removedPhotos = [
+          ...editingEntry.photos.approvedBoss,
+          ...editingEntry.photos.loi,
+          ...editingEntry.photos.msas,
+        ].filter((url) => url.startsWith('http') && !keptPhotos.has(url));
+        await Promise.all(removedPhotos.map((url) => deletePhoto(url)));
         toast({ title: 'Entry updated', description: 'Extra area report has been updated.' });
       } else {
         await addEntry(entryData);
@@ -290,8 +300,7 @@ const ExtraAreaReport: React.FC = () => {
   };
 
   const getTotalSales = (entry: ExtraAreaEntry) => {
-    const sales = entry.sales || { MHB: 0, MLP: 0, MSH: 0, MUM: 0 };
-    return sales.MHB + sales.MLP + sales.MSH + sales.MUM;
+    return Object.values(entry.sales).reduce((sum, amount) => sum + amount, 0);
   };
 
   const formatDate = (dateStr: string) => {
@@ -332,26 +341,31 @@ const ExtraAreaReport: React.FC = () => {
         selectedMonth={selectedMonth}
         onMonthChange={setSelectedMonth}
         pdfElementId="extra-area-content"
+        remoteChangeAt={remoteChangeAt}
       />
 
       <div id="extra-area-content" className="flex-1 overflow-auto p-4 lg:p-8 xl:p-10">
         <div className="w-full space-y-6">
           {/* Action Buttons */}
           <div className="flex flex-wrap gap-2">
-            <Button size="sm" className="gap-2" onClick={handleAddNew}>
-              <Plus className="h-4 w-4" />
-              Add Report
-            </Button>
-            <Button 
-              variant="destructive" 
-              size="sm" 
-              className="gap-2"
-              onClick={handleClearAll}
-              disabled={entries.length === 0}
-            >
-              <Trash2 className="h-4 w-4" />
-              Clear All
-            </Button>
+            {canEdit && (
+              <Button size="sm" className="gap-2" onClick={handleAddNew}>
+                <Plus className="h-4 w-4" />
+                Add Report
+              </Button>
+            )}
+            {canClearAll && (
+              <Button 
+                variant="destructive" 
+                size="sm" 
+                className="gap-2"
+                onClick={handleClearAll}
+                disabled={entries.length === 0}
+              >
+                <Trash2 className="h-4 w-4" />
+                Clear All
+              </Button>
+            )}
           </div>
 
           {/* Entries Table - Full Width Expanded Card for Large Screens */}
@@ -436,7 +450,9 @@ const ExtraAreaReport: React.FC = () => {
                             </span>
                             {getTotalSales(entry) > 0 && (
                               <span className="text-xs lg:text-sm text-muted-foreground block mt-1">
-                                MHB:{formatCurrency(entry.sales?.MHB || 0).replace('₱', '')} | MLP:{formatCurrency(entry.sales?.MLP || 0).replace('₱', '')}
+                                {Object.entries(entry.sales)
+                                  .map(([category, amount]) => `${category}:${formatCurrency(amount).replace('₱', '')}`)
+                                  .join(' | ')}
                               </span>
                             )}
                           </div>
@@ -482,24 +498,26 @@ const ExtraAreaReport: React.FC = () => {
                           </span>
                         </TableCell>
                         <TableCell className="py-5 lg:py-6 px-4 lg:px-8">
-                          <div className="flex items-center justify-end gap-2 lg:gap-3">
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-9 w-9 lg:h-10 lg:w-10 rounded-lg text-muted-foreground hover:text-primary hover:bg-primary/10"
-                              onClick={() => handleEdit(entry)}
-                            >
-                              <Pencil className="h-4 w-4 lg:h-5 lg:w-5" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-9 w-9 lg:h-10 lg:w-10 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10"
-                              onClick={() => handleDelete(entry.id)}
-                            >
-                              <Trash2 className="h-4 w-4 lg:h-5 lg:w-5" />
-                            </Button>
-                          </div>
+                          {canWriteBranch(entry.branch) && (
+                            <div className="flex items-center justify-end gap-2 lg:gap-3">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-9 w-9 lg:h-10 lg:w-10 rounded-lg text-muted-foreground hover:text-primary hover:bg-primary/10"
+                                onClick={() => handleEdit(entry)}
+                              >
+                                <Pencil className="h-4 w-4 lg:h-5 lg:w-5" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-9 w-9 lg:h-10 lg:w-10 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                                onClick={() => handleDelete(entry.id)}
+                              >
+                                <Trash2 className="h-4 w-4 lg:h-5 lg:w-5" />
+                              </Button>
+                            </div>
+                          )}
                         </TableCell>
                       </TableRow>
                     ))}
@@ -540,21 +558,39 @@ const ExtraAreaReport: React.FC = () => {
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="branch">Branch *</Label>
-                <Input
-                  id="branch"
-                  placeholder="Enter branch"
+                <Select
                   value={formData.branch}
-                  onChange={(e) => setFormData({ ...formData, branch: e.target.value })}
-                />
+                  onValueChange={(branch) => setFormData({ ...formData, branch })}
+                >
+                  <SelectTrigger id="branch">
+                    <SelectValue placeholder="Select branch" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover">
+                    {[...new Set([...activeBranchCodes.filter(canWriteBranch), formData.branch].filter(Boolean))].map((branch) => (
+                      <SelectItem key={branch} value={branch}>
+                        {branch}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               <div className="space-y-2">
                 <Label htmlFor="category">Category *</Label>
-                <Input
-                  id="category"
-                  placeholder="MHB, MLP, MSH, MUM..."
+                <Select
                   value={formData.category}
-                  onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-                />
+                  onValueChange={(category) => setFormData({ ...formData, category })}
+                >
+                  <SelectTrigger id="category">
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover">
+                    {[...new Set([...activeCategoryCodes, formData.category].filter(Boolean))].map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
             </div>
 
@@ -620,46 +656,18 @@ const ExtraAreaReport: React.FC = () => {
             <div className="border-t border-border pt-4 space-y-3">
               <Label className="text-sm font-medium text-foreground">Sales per Category</Label>
               <div className="grid grid-cols-4 gap-3">
-                <div className="space-y-1.5">
-                  <Label htmlFor="salesMHB" className="text-xs text-muted-foreground">MHB</Label>
-                  <Input
-                    id="salesMHB"
-                    type="number"
-                    placeholder="0.00"
-                    value={formData.salesMHB}
-                    onChange={(e) => setFormData({ ...formData, salesMHB: e.target.value })}
-                  />
-                </div>
-                <div className="space-y-1.5">
-                  <Label htmlFor="salesMLP" className="text-xs text-muted-foreground">MLP</Label>
-                  <Input
-                    id="salesMLP"
-                    type="number"
-                    placeholder="0.00"
-                    value={formData.salesMLP}
-                    onChange={(e) => setFormData({ ...formData, salesMLP: e.target.value })}
-                  />
-                </div>
-                <div className="space-y-1.5">
-                  <Label htmlFor="salesMSH" className="text-xs text-muted-foreground">MSH</Label>
-                  <Input
-                    id="salesMSH"
-                    type="number"
-                    placeholder="0.00"
-                    value={formData.salesMSH}
-                    onChange={(e) => setFormData({ ...formData, salesMSH: e.target.value })}
-                  />
-                </div>
-                <div className="space-y-1.5">
-                  <Label htmlFor="salesMUM" className="text-xs text-muted-foreground">MUM</Label>
-                  <Input
-                    id="salesMUM"
-                    type="number"
-                    placeholder="0.00"
-                    value={formData.salesMUM}
-                    onChange={(e) => setFormData({ ...formData, salesMUM: e.target.value })}
-                  />
-                </div>
+                {salesCategories.map((category) => (
+                  <div key={category} className="space-y-1.5">
+                    <Label htmlFor={`sales-${category}`} className="text-xs text-muted-foreground">{category}</Label>
+                    <Input
+                      id={`sales-${category}`}
+                      type="number"
+                      placeholder="0.00"
+                      value={salesInputs[category] ?? ''}
+                      onChange={(e) => setSalesInputs({ ...salesInputs, [category]: e.target.value })}
+                    />
+                  </div>
+                ))}
               </div>
             </div>
 
@@ -0,0 +1,180 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { FileClock, Loader2, Undo2 } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { SectionCard } from '@/components/sales/SectionCard';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useImportBatches, ImportBatch } from '@/hooks/useImportBatches';
+import { useRole } from '@/hooks/useRole';
+import { formatCurrency, formatMonthYear, formatNumber, parseMonthYear } from '@/utils/formatters';
+import { toast } from '@/hooks/use-toast';
+
+const ImportHistory: React.FC = () => {
+  const { batches, loading, rollbackBatch } = useImportBatches();
+  const { canEdit } = useRole();
+  const [pendingRollback, setPendingRollback] = React.useState<ImportBatch | null>(null);
+  const [rollingBackId, setRollingBackId] = React.useState<string | null>(null);
+
+  const handleRollback = async () => {
+    if (!pendingRollback) return;
+    const batch = pendingRollback;
+    setPendingRollback(null);
+    setRollingBackId(batch.id);
+
+    try {
+      await rollbackBatch(batch.id);
+      toast({
+        title: 'Import rolled back',
+        description: `${batch.rowCount} entries from ${batch.fileName} were moved to the trash.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Rollback failed',
+        description: error instanceof Error ? error.message : 'Failed to roll back import.',
+        variant: 'destructive',
+      });
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <MainLayout>
+        <div className="flex-1 flex items-center justify-center">
+          <div className="flex flex-col items-center gap-4">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="text-muted-foreground">Loading import history...</p>
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      {/* Header */}
+      <div className="gradient-header px-4 lg:px-6 py-6 relative z-10">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-white/20 rounded-xl">
+              <FileClock className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-white">Import History</h1>
+              <p className="text-white/70 text-sm">Review DSR uploads and roll back a bad import</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 lg:p-6">
+        <div className="max-w-7xl mx-auto">
+          <SectionCard className="p-0 overflow-hidden">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="table-header border-0">
+                    <TableHead>Uploaded</TableHead>
+                    <TableHead>File</TableHead>
+                    <TableHead>Month</TableHead>
+                    <TableHead>Uploaded By</TableHead>
+                    <TableHead className="text-right">Rows</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="w-[120px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {batches.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="h-32 text-center">
+                        <div className="flex flex-col items-center justify-center text-muted-foreground">
+                          <p className="text-lg font-medium">No imports yet</p>
+                          <p className="text-sm">Excel uploads from the DSR page will appear here</p>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    batches.map((batch) => (
+                      <TableRow key={batch.id} className="table-row">
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {format(new Date(batch.createdAt), 'MMM dd, yyyy h:mm a')}
+                        </TableCell>
+                        <TableCell className="font-medium">{batch.fileName}</TableCell>
+                        <TableCell className="text-sm">{formatMonthYear(parseMonthYear(batch.month))}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{batch.uploadedBy || '—'}</TableCell>
+                        <TableCell className="text-right">{formatNumber(batch.rowCount)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(batch.totalQty)}</TableCell>
+                        <TableCell className="text-right font-semibold">{formatCurrency(batch.totalAmount)}</TableCell>
+                        <TableCell className="text-right">
+                          {canEdit && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="gap-1 text-destructive hover:text-destructive hover:bg-destructive/10"
+                              disabled={rollingBackId === batch.id}
+                              onClick={() => setPendingRollback(batch)}
+                            >
+                              {rollingBackId === batch.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Undo2 className="h-4 w-4" />
+                              )}
+                              Roll back
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </SectionCard>
+        </div>
+      </div>
+
+      <AlertDialog open={!!pendingRollback} onOpenChange={(open) => !open && setPendingRollback(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back this import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {pendingRollback?.rowCount} entries imported from {pendingRollback?.fileName} will be moved to the
+              trash. Entries that this import replaced stay in the trash until restored from there.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRollback}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </MainLayout>
+  );
+};
+
+export default ImportHistory;
@@ -0,0 +1,273 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Barcode, Loader2, Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { SectionCard } from '@/components/sales/SectionCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useProductCodeSchema } from '@/hooks/useProductCodeSchema';
+import { PRODUCT_CODE_PARTS } from '@/types/sales';
+import { useReferenceData } from '@/hooks/useReferenceData';
+import { useRole } from '@/hooks/useRole';
+import {
+  DEFAULT_PRODUCT_CODE_SCHEMA,
+  PRODUCT_CODE_PART_LABELS,
+  ProductCodeSchema,
+  ProductCodeSegment,
+  decodeProductCode,
+  formatProductCodeCategory,
+} from '@/utils/productCode';
+import { toast } from '@/hooks/use-toast';
+
+const SAMPLE_CODE = '2025MCLHB5502009-13';
+
+const ProductCodes: React.FC = () => {
+  const { schema, isCustom, loading, saveSchema, resetSchema } = useProductCodeSchema();
+  const { activeCategoryCodes } = useReferenceData();
+  const { canManageReferenceData } = useRole();
+  const [draft, setDraft] = React.useState<ProductCodeSchema>(DEFAULT_PRODUCT_CODE_SCHEMA);
+  const [sampleCode, setSampleCode] = React.useState(SAMPLE_CODE);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    setDraft(schema);
+  }, [schema]);
+
+  const decoded = decodeProductCode(sampleCode, draft);
+  const decodedCategory = formatProductCodeCategory(decoded, draft, activeCategoryCodes);
+
+  const updateSegment = (index: number, changes: Partial<ProductCodeSegment>) => {
+    setDraft((prev) => ({
+      ...prev,
+      segments: prev.segments.map((segment, i) => (i === index ? { ...segment, ...changes } : segment)),
+    }));
+  };
+
+  const moveSegment = (index: number, offset: number) => {
+    setDraft((prev) => {
+      const segments = [...prev.segments];
+      const [segment] = segments.splice(index, 1);
+      segments.splice(index + offset, 0, segment);
+      return { ...prev, segments };
+    });
+  };
+
+  const removeSegment = (index: number) => {
+    setDraft((prev) => ({ ...prev, segments: prev.segments.filter((_, i) => i !== index) }));
+  };
+
+  const addSegment = () => {
+    setDraft((prev) => ({ ...prev, segments: [...prev.segments, { part: 'ignore', length: 1 }] }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveSchema(draft);
+      toast({ title: 'Product code rules saved', description: 'Entries and new imports now use these rules.' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save product code rules.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await resetSchema();
+      toast({ title: 'Product code rules reset', description: 'The default code layout is used again.' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to reset product code rules.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <MainLayout>
+        <div className="flex-1 flex items-center justify-center">
+          <div className="flex flex-col items-center gap-4">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="text-muted-foreground">Loading product code rules...</p>
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      {/* Header */}
+      <div className="gradient-header px-4 lg:px-6 py-6 relative z-10">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-white/20 rounded-xl">
+              <Barcode className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-white">Product Codes</h1>
+              <p className="text-white/70 text-sm">How product codes are split into year, brand, category, style and more</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 lg:p-6">
+        <div className="max-w-4xl mx-auto space-y-4">
+          <SectionCard>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-semibold text-foreground">Segments</h3>
+              {!isCustom && <Badge variant="secondary" className="font-normal">Default layout</Badge>}
+            </div>
+            <p className="text-sm text-muted-foreground mb-4">
+              Segments are read left to right. Leave the length empty to read up to the next separator.
+            </p>
+
+            <div className="border border-border rounded-lg divide-y divide-border">
+              {draft.segments.map((segment, index) => (
+                <div key={index} className="grid grid-cols-[1fr_120px_auto] items-center gap-3 px-3 py-2">
+                  <Select
+                    value={segment.part}
+                    onValueChange={(part) => updateSegment(index, { part: part as ProductCodeSegment['part'] })}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover">
+                      {PRODUCT_CODE_PARTS.map((part) => (
+                        <SelectItem key={part} value={part}>
+                          {PRODUCT_CODE_PART_LABELS[part]}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value="ignore">Skip characters</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="h-9"
+                    placeholder="To separator"
+                    value={segment.length ?? ''}
+                    onChange={(e) => updateSegment(index, { length: parseInt(e.target.value) || null })}
+                  />
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={index === 0}
+                      onClick={() => moveSegment(index, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={index === draft.segments.length - 1}
+                      onClick={() => moveSegment(index, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => removeSegment(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <Button variant="outline" size="sm" className="gap-2 mt-3" onClick={addSegment}>
+              <Plus className="h-4 w-4" />
+              Add segment
+            </Button>
+
+            <div className="grid gap-3 sm:grid-cols-2 mt-5">
+              <div className="space-y-1.5">
+                <Label htmlFor="code-separator">Separator</Label>
+                <Input
+                  id="code-separator"
+                  value={draft.separator}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, separator: e.target.value }))}
+                  placeholder="-"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="category-format">Category format</Label>
+                <Input
+                  id="category-format"
+                  value={draft.categoryFormat}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, categoryFormat: e.target.value }))}
+                  placeholder="{brand}{category}"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Must produce an active category ({activeCategoryCodes.join(', ')}); other results are left for review.
+                </p>
+              </div>
+            </div>
+          </SectionCard>
+
+          <SectionCard>
+            <h3 className="font-semibold text-foreground mb-3">Try a code</h3>
+            <Input value={sampleCode} onChange={(e) => setSampleCode(e.target.value)} className="max-w-sm" />
+            {decoded ? (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {PRODUCT_CODE_PARTS.filter((part) => decoded[part]).map((part) => (
+                  <Badge key={part} variant="secondary" className="font-normal">
+                    {PRODUCT_CODE_PART_LABELS[part]}: {decoded[part]}
+                  </Badge>
+                ))}
+                <Badge variant={decodedCategory ? 'default' : 'outline'} className="font-normal">
+                  Entry category: {decodedCategory || 'none'}
+                </Badge>
+              </div>
+            ) : (
+              <p className="text-sm text-destructive mt-3">This code doesn't follow the segments above.</p>
+            )}
+          </SectionCard>
+
+          {canManageReferenceData ? (
+            <div className="flex justify-end gap-2">
+              {isCustom && (
+                <Button variant="outline" className="gap-2" onClick={handleReset}>
+                  <RotateCcw className="h-4 w-4" />
+                  Reset to default
+                </Button>
+              )}
+              <Button className="gap-2" onClick={handleSave} disabled={isSaving || draft.segments.length === 0}>
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                Save rules
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-right">
+              Only admins can change the organization's product code rules.
+            </p>
+          )}
+        </div>
+      </div>
+    </MainLayout>
+  );
+};
+
+export default ProductCodes;
@@ -0,0 +1,277 @@
+import React from 'react';
+import { Check, Loader2, Pencil, Plus, Tags, X } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { SectionCard } from '@/components/sales/SectionCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ReferenceItem, ReferenceKind, useReferenceData } from '@/hooks/useReferenceData';
+import { useRole } from '@/hooks/useRole';
+import { toast } from '@/hooks/use-toast';
+
+const KIND_LABELS: Record<ReferenceKind, { title: string; singular: string; hint: string }> = {
+  branches: {
+    title: 'Branches',
+    singular: 'branch',
+    hint: 'Used for entries, imports, the branch calendar and extra area reports.',
+  },
+  categories: {
+    title: 'Categories',
+    singular: 'category',
+    hint: 'Entry categories. Product codes must resolve to an active category.',
+  },
+};
+
+interface ReferenceListProps {
+  kind: ReferenceKind;
+  items: ReferenceItem[];
+  // Read-only lists for everyone but admins
+  canManage: boolean;
+  onAdd: (kind: ReferenceKind, item: { code: string; name: string }) => Promise<unknown>;
+  onUpdate: (kind: ReferenceKind, id: string, changes: Partial<Pick<ReferenceItem, 'code' | 'name' | 'isActive'>>) => Promise<unknown>;
+}
+
+const showError = (error: unknown, fallback: string) => {
+  toast({
+    title: 'Error',
+    description: error instanceof Error ? error.message : fallback,
+    variant: 'destructive',
+  });
+};
+
+const ReferenceList: React.FC<ReferenceListProps> = ({ kind, items, canManage, onAdd, onUpdate }) => {
+  const labels = KIND_LABELS[kind];
+  const [newItem, setNewItem] = React.useState({ code: '', name: '' });
+  const [editing, setEditing] = React.useState<{ id: string; code: string; name: string } | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItem.code.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onAdd(kind, newItem);
+      setNewItem({ code: '', name: '' });
+      toast({ title: `Added ${labels.singular} ${newItem.code.trim().toUpperCase()}` });
+    } catch (error) {
+      showError(error, `Failed to add ${labels.singular}.`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing || !editing.code.trim()) return;
+
+    const original = items.find((item) => item.id === editing.id);
+    setIsSaving(true);
+    try {
+      await onUpdate(kind, editing.id, { code: editing.code, name: editing.name });
+      setEditing(null);
+      toast({
+        title: `${labels.title.slice(0, -1)} updated`,
+        description:
+          original && original.code !== editing.code.trim().toUpperCase()
+            ? `Existing entries now use ${editing.code.trim().toUpperCase()}.`
+            : undefined,
+      });
+    } catch (error) {
+      showError(error, `Failed to update ${labels.singular}.`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (item: ReferenceItem, isActive: boolean) => {
+    try {
+      await onUpdate(kind, item.id, { isActive });
+    } catch (error) {
+      showError(error, `Failed to update ${labels.singular}.`);
+    }
+  };
+
+  return (
+    <SectionCard>
+      <h3 className="font-semibold text-foreground">{labels.title}</h3>
+      <p className="text-sm text-muted-foreground mb-4">{labels.hint}</p>
+
+      <div className="border border-border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50">
+              <TableHead className="w-[120px]">Code</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead className="w-[80px] text-center">Active</TableHead>
+              <TableHead className="w-[90px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground py-6">
+                  No {labels.title.toLowerCase()} yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              items.map((item) =>
+                editing?.id === item.id ? (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <Input
+                        className="h-8 uppercase"
+                        value={editing.code}
+                        onChange={(e) => setEditing({ ...editing, code: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className="h-8"
+                        value={editing.name}
+                        onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell />
+                    <TableCell>
+                      <div className="flex gap-1 justify-end">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          disabled={isSaving || !editing.code.trim()}
+                          onClick={handleSaveEdit}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditing(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  <TableRow key={item.id} className={item.isActive ? undefined : 'opacity-60'}>
+                    <TableCell className="font-mono font-medium">{item.code}</TableCell>
+                    <TableCell>{item.name}</TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={item.isActive}
+                        disabled={!canManage}
+                        onCheckedChange={(checked) => handleToggleActive(item, checked)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {canManage && (
+                        <div className="flex justify-end">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setEditing({ id: item.id, code: item.code, name: item.name })}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              )
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {canManage && (
+        <form onSubmit={handleAdd} className="grid grid-cols-[120px_1fr_auto] gap-2 mt-3">
+          <Input
+            className="uppercase"
+            placeholder="Code"
+            value={newItem.code}
+            onChange={(e) => setNewItem({ ...newItem, code: e.target.value })}
+          />
+          <Input
+            placeholder="Name (optional)"
+            value={newItem.name}
+            onChange={(e) => setNewItem({ ...newItem, name: e.target.value })}
+          />
+          <Button type="submit" variant="outline" className="gap-2" disabled={isSaving || !newItem.code.trim()}>
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+        </form>
+      )}
+    </SectionCard>
+  );
+};
+
+const ReferenceData: React.FC = () => {
+  const { branches, categories, loading, addReference, updateReference } = useReferenceData();
+  const { canManageReferenceData } = useRole();
+
+  if (loading) {
+    return (
+      <MainLayout>
+        <div className="flex-1 flex items-center justify-center">
+          <div className="flex flex-col items-center gap-4">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="text-muted-foreground">Loading branches and categories...</p>
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      {/* Header */}
+      <div className="gradient-header px-4 lg:px-6 py-6 relative z-10">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-white/20 rounded-xl">
+              <Tags className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-white">Branches & Categories</h1>
+              <p className="text-white/70 text-sm">Codes offered in forms and filters and accepted by imports</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 lg:p-6">
+        <div className="max-w-4xl mx-auto space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {canManageReferenceData
+              ? 'Renaming a code updates existing entries across the organization. Deactivated codes stay on past entries but are no longer offered or accepted by imports.'
+              : 'Only admins can change the organization\'s branches and categories.'}
+          </p>
+          <ReferenceList
+            kind="branches"
+            items={branches}
+            canManage={canManageReferenceData}
+            onAdd={addReference}
+            onUpdate={updateReference}
+          />
+          <ReferenceList
+            kind="categories"
+            items={categories}
+            canManage={canManageReferenceData}
+            onAdd={addReference}
+            onUpdate={updateReference}
+          />
+        </div>
+      </div>
+    </MainLayout>
+  );
+};
+
+export default ReferenceData;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { TrendingUp, Package, Building, ShoppingBag, Search, Calendar, Filter, Award, Trash2 } from 'lucide-react';
+import { TrendingUp, Package, Building, ShoppingBag, Search, Calendar, Filter, Award, Trash2, Barcode } from 'lucide-react';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { PageHeader } from '@/components/layout/PageHeader';
 import { SectionCard } from '@/components/sales/SectionCard';
@@ -30,15 +30,24 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { useSales } from '@/contexts/SalesContext';
+import { useSalesDailySummary, useSalesKpis } from '@/hooks/useSalesSummary';
 import { formatCurrency, formatMonthYear, formatDate } from '@/utils/formatters';
-import { SalesEntry } from '@/types/sales';
+import { useReferenceData } from '@/hooks/useReferenceData';
+import { useRole } from '@/hooks/useRole';
+import { summarizeByBranch, summarizeByCategory, summarizeEntriesByDay, summarizeEntryKpis } from '@/utils/salesSummary';
 import { cn } from '@/lib/utils';
 
-// Fixed 4 categories only
-const ALLOWED_CATEGORIES = ['MHB', 'MLP', 'MSH', 'MUM'] as const;
-
 const ITEMS_PER_PAGE = 50;
 
+// Filters on decoded product code parts; these run client-side on the loaded month
+interface CodeFilters {
+  year: string;
+  season: string;
+  style: string;
+}
+
+const DEFAULT_CODE_FILTERS: CodeFilters = { year: 'all', season: 'all', style: '' };
+
 interface CategoryBreakdownDialog {
   open: boolean;
   category: string;
@@ -47,19 +56,23 @@ interface CategoryBreakdownDialog {
     totalAmount: number;
     totalQty: number;
     dailyBreakdown: { date: string; amount: number; qty: number }[];
-    entries: SalesEntry[];
   }[];
   overallTotal: number;
   overallQty: number;
 }
 
 const SalesHistory: React.FC = () => {
-  const { entries, selectedMonth, setSelectedMonth, loading } = useSales();
+  const { entries: monthEntries, selectedMonth, setSelectedMonth, filters, setFilters, loading, remoteChangeAt } = useSales();
+  const { branchCodes, categoryCodes } = useReferenceData();
+  const { readableBranches } = useRole();
   
   const [searchQuery, setSearchQuery] = React.useState('');
-  const [selectedBranch, setSelectedBranch] = React.useState<string>('all');
-  const [selectedCategory, setSelectedCategory] = React.useState<string>('all');
+  const selectedBranch = filters.branch;
+  const selectedCategory = filters.category;
+  const setSelectedBranch = (branch: string) => setFilters({ branch });
+  const setSelectedCategory = (category: string) => setFilters({ category });
   const [currentPage, setCurrentPage] = React.useState(1);
+  const [codeFilters, setCodeFilters] = React.useState<CodeFilters>(DEFAULT_CODE_FILTERS);
   const [categoryDialog, setCategoryDialog] = React.useState<CategoryBreakdownDialog>({
     open: false,
     category: '',
@@ -68,148 +81,91 @@ const SalesHistory: React.FC = () => {
     overallQty: 0,
   });
 
-  const monthEntries = React.useMemo(() => {
-    const month = selectedMonth.getMonth();
-    const year = selectedMonth.getFullYear();
-    return entries.filter((entry) => {
-      const d = new Date(entry.date);
-      return d.getMonth() === month && d.getFullYear() === year;
-    });
-  }, [entries, selectedMonth]);
-
   const deferredSearch = React.useDeferredValue(searchQuery);
   const normalizedSearch = deferredSearch.trim().toLowerCase();
 
-  // Get unique branches from data
+  // Known branches are always listed since the month is fetched for the selected branch only
   const uniqueBranches = React.useMemo(() => {
-    return [...new Set(monthEntries.map(e => e.branch))].filter(b => b && b.trim() !== '').sort();
+    if (readableBranches) return [...readableBranches].sort();
+    const branches = new Set<string>(branchCodes);
+    monthEntries.forEach((e) => {
+      if (e.branch && e.branch.trim() !== '') branches.add(e.branch);
+    });
+    return [...branches].sort();
+  }, [monthEntries, branchCodes, readableBranches]);
+
+  const codeFilterOptions = React.useMemo(() => {
+    const years = new Set<string>();
+    const seasons = new Set<string>();
+    monthEntries.forEach((e) => {
+      if (e.codeParts?.year) years.add(e.codeParts.year);
+      if (e.codeParts?.season) seasons.add(e.codeParts.season);
+    });
+    return { years: [...years].sort().reverse(), seasons: [...seasons].sort() };
   }, [monthEntries]);
 
+  const normalizedStyle = codeFilters.style.trim().toUpperCase();
+  const hasCodeFilters = codeFilters.year !== 'all' || codeFilters.season !== 'all' || !!normalizedStyle;
+
   // Filter entries based on search and filters - only allowed categories
   const filteredEntries = React.useMemo(() => {
     return monthEntries.filter((entry) => {
-      const isAllowedCategory = ALLOWED_CATEGORIES.includes(entry.category as typeof ALLOWED_CATEGORIES[number]);
+      const isAllowedCategory = categoryCodes.includes(entry.category);
       if (!isAllowedCategory) return false;
       
       const matchesSearch =
         !normalizedSearch ||
         entry.name.toLowerCase().includes(normalizedSearch) ||
-        entry.upc.includes(normalizedSearch);
+        entry.upc.toLowerCase().includes(normalizedSearch) ||
+        entry.description.toLowerCase().includes(normalizedSearch);
       const matchesBranch = selectedBranch === 'all' || entry.branch === selectedBranch;
       const matchesCategory = selectedCategory === 'all' || entry.category === selectedCategory;
-      return matchesSearch && matchesBranch && matchesCategory;
+      const matchesYear = codeFilters.year === 'all' || entry.codeParts?.year === codeFilters.year;
+      const matchesSeason = codeFilters.season === 'all' || entry.codeParts?.season === codeFilters.season;
+      const matchesStyle = !normalizedStyle || (entry.codeParts?.style ?? '').startsWith(normalizedStyle);
+      return matchesSearch && matchesBranch && matchesCategory && matchesYear && matchesSeason && matchesStyle;
     });
-  }, [monthEntries, normalizedSearch, selectedBranch, selectedCategory]);
+  }, [monthEntries, categoryCodes, normalizedSearch, selectedBranch, selectedCategory, codeFilters.year, codeFilters.season, normalizedStyle]);
 
   // Reset page when filters change
   React.useEffect(() => {
     setCurrentPage(1);
-  }, [selectedMonth, selectedBranch, selectedCategory, normalizedSearch]);
-
-  const kpis = React.useMemo(() => {
-    let totalSales = 0;
-    let totalItemsSold = 0;
-    const branches = new Set<string>();
-    const products = new Set<string>();
-
-    for (const e of filteredEntries) {
-      totalSales += e.amount;
-      totalItemsSold += e.qty;
-      if (e.branch) branches.add(e.branch);
-      if (e.name) products.add(e.name);
-    }
-
-    return {
-      totalSales,
-      totalItemsSold,
-      activeBranches: branches.size,
-      uniqueProducts: products.size,
-    };
-  }, [filteredEntries]);
+  }, [selectedMonth, selectedBranch, selectedCategory, normalizedSearch, codeFilters]);
+
+  const summaryParams = {
+    month: selectedMonth,
+    categories: selectedCategory === 'all' ? categoryCodes : [selectedCategory],
+    branch: selectedBranch,
+    search: normalizedSearch,
+  };
+  const { kpis: serverKpis } = useSalesKpis(summaryParams);
+  const { rows: serverDailySummary } = useSalesDailySummary(summaryParams);
+
+  // Code parts aren't stored, so summaries fall back to the loaded entries while those filters are on
+  const kpis = React.useMemo(
+    () => (hasCodeFilters ? summarizeEntryKpis(filteredEntries) : serverKpis),
+    [hasCodeFilters, filteredEntries, serverKpis]
+  );
+  const dailySummary = React.useMemo(
+    () => (hasCodeFilters ? summarizeEntriesByDay(filteredEntries) : serverDailySummary),
+    [hasCodeFilters, filteredEntries, serverDailySummary]
+  );
 
   // Branch summaries for pills
   const branchSummaries = React.useMemo(() => {
-    const summaryMap = new Map<string, number>();
-    filteredEntries.forEach((e) => {
-      summaryMap.set(e.branch, (summaryMap.get(e.branch) || 0) + e.amount);
-    });
-    return Array.from(summaryMap.entries())
-      .map(([branch, totalSales]) => ({ branch, totalSales }))
-      .sort((a, b) => b.totalSales - a.totalSales);
-  }, [filteredEntries]);
+    return summarizeByBranch(dailySummary).map((b) => ({ branch: b.branch, totalSales: b.totalAmount }));
+  }, [dailySummary]);
 
   // Category cards data - only show allowed categories
   const categoryCards = React.useMemo(() => {
-    const totals = new Map<string, { totalAmount: number; soldCount: number }>();
-    ALLOWED_CATEGORIES.forEach((cat) => totals.set(cat, { totalAmount: 0, soldCount: 0 }));
-
-    for (const entry of filteredEntries) {
-      if (!ALLOWED_CATEGORIES.includes(entry.category as typeof ALLOWED_CATEGORIES[number])) continue;
-      const t = totals.get(entry.category)!
-      t.totalAmount += entry.amount;
-      t.soldCount += entry.qty;
-    }
-
-    return ALLOWED_CATEGORIES.map((cat) => ({
-      category: cat,
-      totalAmount: totals.get(cat)!.totalAmount,
-      soldCount: totals.get(cat)!.soldCount,
-    }));
-  }, [filteredEntries]);
+    return summarizeByCategory(dailySummary, categoryCodes);
+  }, [dailySummary, categoryCodes]);
 
   // Handle category card click - show branch breakdown with daily sales
   const handleCategoryCardClick = (categoryData: typeof categoryCards[number]) => {
-    const categoryEntries = filteredEntries.filter((e) => e.category === categoryData.category);
-    const branchMap = new Map<string, {
-      branch: string;
-      totalAmount: number;
-      totalQty: number;
-      dailyBreakdown: Map<string, { date: string; amount: number; qty: number }>;
-      entries: SalesEntry[];
-    }>();
-
-    categoryEntries.forEach((entry) => {
-      const existing = branchMap.get(entry.branch);
-      if (existing) {
-        existing.totalAmount += entry.amount;
-        existing.totalQty += entry.qty;
-        existing.entries.push(entry);
-        
-        // Daily breakdown
-        const dailyEntry = existing.dailyBreakdown.get(entry.date);
-        if (dailyEntry) {
-          dailyEntry.amount += entry.amount;
-          dailyEntry.qty += entry.qty;
-        } else {
-          existing.dailyBreakdown.set(entry.date, {
-            date: entry.date,
-            amount: entry.amount,
-            qty: entry.qty,
-          });
-        }
-      } else {
-        const dailyBreakdown = new Map<string, { date: string; amount: number; qty: number }>();
-        dailyBreakdown.set(entry.date, {
-          date: entry.date,
-          amount: entry.amount,
-          qty: entry.qty,
-        });
-        branchMap.set(entry.branch, {
-          branch: entry.branch,
-          totalAmount: entry.amount,
-          totalQty: entry.qty,
-          dailyBreakdown,
-          entries: [entry],
-        });
-      }
-    });
-
-    const branches = Array.from(branchMap.values())
-      .map(b => ({
-        ...b,
-        dailyBreakdown: Array.from(b.dailyBreakdown.values()).sort((a, b) => a.date.localeCompare(b.date)),
-      }))
-      .sort((a, b) => b.totalAmount - a.totalAmount);
+    const branches = summarizeByBranch(
+      dailySummary.filter((row) => row.category === categoryData.category)
+    );
 
     setCategoryDialog({
       open: true,
@@ -236,6 +192,7 @@ const SalesHistory: React.FC = () => {
         selectedMonth={selectedMonth}
         onMonthChange={setSelectedMonth}
         pdfElementId="sales-history-content"
+        remoteChangeAt={remoteChangeAt}
       />
 
       <div id="sales-history-content" className="flex-1 overflow-auto p-4 lg:p-6">
@@ -343,7 +300,7 @@ const SalesHistory: React.FC = () => {
                   <SelectValue placeholder="All Branches" />
                 </SelectTrigger>
                 <SelectContent className="bg-popover">
-                  <SelectItem value="all">All Branches</SelectItem>
+                  <SelectItem value="all">{readableBranches ? 'All My Branches' : 'All Branches'}</SelectItem>
                   {uniqueBranches.map((branch) => (
                     <SelectItem key={branch} value={branch}>
                       {branch}
@@ -359,7 +316,7 @@ const SalesHistory: React.FC = () => {
                 </SelectTrigger>
                 <SelectContent className="bg-popover">
                   <SelectItem value="all">All</SelectItem>
-                  {ALLOWED_CATEGORIES.map((category) => (
+                  {categoryCodes.map((category) => (
                     <SelectItem key={category} value={category}>
                       {category}
                     </SelectItem>
@@ -367,6 +324,61 @@ const SalesHistory: React.FC = () => {
                 </SelectContent>
               </Select>
             </div>
+
+            {/* Product code filters */}
+            <div className="flex flex-col lg:flex-row gap-3 mt-3">
+              <Select
+                value={codeFilters.year}
+                onValueChange={(year) => setCodeFilters((prev) => ({ ...prev, year }))}
+              >
+                <SelectTrigger className="w-full lg:w-[140px]">
+                  <Calendar className="h-4 w-4 mr-2" />
+                  <SelectValue placeholder="All Years" />
+                </SelectTrigger>
+                <SelectContent className="bg-popover">
+                  <SelectItem value="all">All Years</SelectItem>
+                  {codeFilterOptions.years.map((year) => (
+                    <SelectItem key={year} value={year}>
+                      {year}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={codeFilters.season}
+                onValueChange={(season) => setCodeFilters((prev) => ({ ...prev, season }))}
+                disabled={codeFilterOptions.seasons.length === 0}
+              >
+                <SelectTrigger className="w-full lg:w-[160px]">
+                  <SelectValue placeholder="All Seasons" />
+                </SelectTrigger>
+                <SelectContent className="bg-popover">
+                  <SelectItem value="all">All Seasons</SelectItem>
+                  {codeFilterOptions.seasons.map((season) => (
+                    <SelectItem key={season} value={season}>
+                      {season}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="relative w-full lg:w-[200px]">
+                <Barcode className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Style..."
+                  value={codeFilters.style}
+                  onChange={(e) => setCodeFilters((prev) => ({ ...prev, style: e.target.value }))}
+                  className="pl-10"
+                />
+              </div>
+
+              {hasCodeFilters && (
+                <Button variant="ghost" onClick={() => setCodeFilters(DEFAULT_CODE_FILTERS)}>
+                  Clear code filters
+                </Button>
+              )}
+            </div>
           </div>
 
           {/* Category Cards - MHB, MLP, MSH, MUM */}
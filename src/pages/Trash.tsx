@@ -0,0 +1,315 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { ArchiveRestore, Loader2, Trash2 } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { SectionCard } from '@/components/sales/SectionCard';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { TRASH_TABLES, TrashItem, useTrash } from '@/hooks/useTrash';
+import { useRole } from '@/hooks/useRole';
+import { toast } from '@/hooks/use-toast';
+import { AUDIT_TABLE_LABELS } from '@/utils/audit';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+
+const itemKey = (item: TrashItem) => `${item.tableName}:${item.id}`;
+
+const countLabel = (count: number) => `${count} ${count === 1 ? 'record' : 'records'}`;
+
+const Trash: React.FC = () => {
+  const { items, loading, restoreItems, purgeItems } = useTrash();
+  const { canEdit, canPurgeTrash } = useRole();
+  const [tableFilter, setTableFilter] = React.useState('all');
+  const [selectedKeys, setSelectedKeys] = React.useState<Set<string>>(new Set());
+  const [pendingPurge, setPendingPurge] = React.useState<TrashItem[] | null>(null);
+  const [isWorking, setIsWorking] = React.useState(false);
+
+  const visibleItems = React.useMemo(
+    () => (tableFilter === 'all' ? items : items.filter((item) => item.tableName === tableFilter)),
+    [items, tableFilter]
+  );
+  const selectedItems = visibleItems.filter((item) => selectedKeys.has(itemKey(item)));
+  const allSelected = visibleItems.length > 0 && selectedItems.length === visibleItems.length;
+
+  React.useEffect(() => {
+    setSelectedKeys(new Set());
+  }, [tableFilter]);
+
+  const toggleItem = (item: TrashItem, checked: boolean) => {
+    const next = new Set(selectedKeys);
+    if (checked) next.add(itemKey(item));
+    else next.delete(itemKey(item));
+    setSelectedKeys(next);
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedKeys(checked ? new Set(visibleItems.map(itemKey)) : new Set());
+  };
+
+  const handleRestore = async (toRestore: TrashItem[]) => {
+    setIsWorking(true);
+    try {
+      await restoreItems(toRestore);
+      setSelectedKeys(new Set());
+      toast({ title: 'Restored', description: `${countLabel(toRestore.length)} restored.` });
+    } catch (error) {
+      toast({
+        title: 'Restore failed',
+        description: error instanceof Error ? error.message : 'Failed to restore.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!pendingPurge) return;
+    const toPurge = pendingPurge;
+    setPendingPurge(null);
+    setIsWorking(true);
+
+    try {
+      await purgeItems(toPurge);
+      setSelectedKeys(new Set());
+      toast({ title: 'Deleted permanently', description: `${countLabel(toPurge.length)} deleted for good.` });
+    } catch (error) {
+      toast({
+        title: 'Delete failed',
+        description: error instanceof Error ? error.message : 'Failed to delete permanently.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <MainLayout>
+        <div className="flex-1 flex items-center justify-center">
+          <div className="flex flex-col items-center gap-4">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="text-muted-foreground">Loading trash...</p>
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      {/* Header */}
+      <div className="gradient-header px-4 lg:px-6 py-6 relative z-10">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-white/20 rounded-xl">
+              <Trash2 className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-white">Trash</h1>
+              <p className="text-white/70 text-sm">Restore deleted entries, reports and tasks, or delete them for good</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 lg:p-6">
+        <div className="max-w-7xl mx-auto space-y-4">
+          <SectionCard className="py-3">
+            <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+              <Select value={tableFilter} onValueChange={setTableFilter}>
+                <SelectTrigger className="w-full lg:w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover">
+                  <SelectItem value="all">Everything</SelectItem>
+                  {TRASH_TABLES.map((table) => (
+                    <SelectItem key={table} value={table}>
+                      {AUDIT_TABLE_LABELS[table]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">
+                {selectedItems.length > 0 ? `${selectedItems.length} selected` : countLabel(visibleItems.length)}
+              </span>
+              <div className="flex-1" />
+              {selectedItems.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    disabled={isWorking}
+                    onClick={() => handleRestore(selectedItems)}
+                  >
+                    <ArchiveRestore className="h-4 w-4" />
+                    Restore
+                  </Button>
+                  {canPurgeTrash && (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      className="gap-2"
+                      disabled={isWorking}
+                      onClick={() => setPendingPurge(selectedItems)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Delete Forever
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          </SectionCard>
+
+          <SectionCard className="p-0 overflow-hidden">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="table-header border-0">
+                    <TableHead className="w-[40px]">
+                      <Checkbox
+                        checked={allSelected ? true : selectedItems.length > 0 ? 'indeterminate' : false}
+                        onCheckedChange={(checked) => toggleAll(checked === true)}
+                        disabled={visibleItems.length === 0}
+                        aria-label="Select all"
+                      />
+                    </TableHead>
+                    <TableHead>Deleted</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Branch</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Deleted By</TableHead>
+                    <TableHead className="w-[220px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleItems.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="h-32 text-center">
+                        <div className="flex flex-col items-center justify-center text-muted-foreground">
+                          <p className="text-lg font-medium">The trash is empty</p>
+                          <p className="text-sm">
+                            {canEdit
+                              ? 'Deleted sales entries, extra area reports and calendar tasks appear here'
+                              : 'Only members who can edit branches see deleted records'}
+                          </p>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    visibleItems.map((item) => (
+                      <TableRow
+                        key={itemKey(item)}
+                        className="table-row"
+                        data-state={selectedKeys.has(itemKey(item)) ? 'selected' : undefined}
+                      >
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedKeys.has(itemKey(item))}
+                            onCheckedChange={(checked) => toggleItem(item, checked === true)}
+                            aria-label={`Select ${item.label}`}
+                          />
+                        </TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {format(new Date(item.deletedAt), 'MMM dd, yyyy h:mm a')}
+                        </TableCell>
+                        <TableCell>
+                          <p className="text-xs text-muted-foreground">
+                            {AUDIT_TABLE_LABELS[item.tableName]} · {formatDate(item.date)}
+                          </p>
+                          <p className="text-sm font-medium">{item.label}</p>
+                        </TableCell>
+                        <TableCell>
+                          <Badge className="bg-accent text-accent-foreground">{item.branch}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {item.amount === null ? '—' : formatCurrency(item.amount)}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{item.deletedByEmail || '—'}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-1"
+                            disabled={isWorking}
+                            onClick={() => handleRestore([item])}
+                          >
+                            <ArchiveRestore className="h-4 w-4" />
+                            Restore
+                          </Button>
+                          {canPurgeTrash && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="gap-1 text-destructive hover:text-destructive hover:bg-destructive/10"
+                              disabled={isWorking}
+                              onClick={() => setPendingPurge([item])}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              Delete
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </SectionCard>
+        </div>
+      </div>
+
+      <AlertDialog open={!!pendingPurge} onOpenChange={(open) => !open && setPendingPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {countLabel(pendingPurge?.length ?? 0)} and any attached photos will be deleted for good. This
+              cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </MainLayout>
+  );
+};
+
+export default Trash;
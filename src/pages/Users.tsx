@@ -0,0 +1,477 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { KeyRound, Loader2, Mail, Pencil, Trash2, UserPlus, Users as UsersIcon } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { SectionCard } from '@/components/sales/SectionCard';
+import { MemberAccessFields } from '@/components/users/MemberAccessFields';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { OrganizationUser, useOrganizationUsers } from '@/hooks/useOrganizationUsers';
+import { useRole } from '@/hooks/useRole';
+import { toast } from '@/hooks/use-toast';
+import { MemberAccess, ROLE_LABELS, isMemberAccessValid } from '@/utils/permissions';
+
+const EMPTY_ACCESS: MemberAccess = { role: 'viewer', branches: [] };
+
+const showError = (error: unknown, fallback: string) => {
+  toast({
+    title: 'Error',
+    description: error instanceof Error ? error.message : fallback,
+    variant: 'destructive',
+  });
+};
+
+const UsersTable: React.FC = () => {
+  const { user } = useAuth();
+  const { currentOrg } = useOrganization();
+  const { users, loading, error, createUser, updateUser, removeUser, setDisabled, setPassword, sendPasswordReset } =
+    useOrganizationUsers();
+
+  const [addOpen, setAddOpen] = React.useState(false);
+  const [newUser, setNewUser] = React.useState({ email: '', password: '', access: EMPTY_ACCESS });
+  const [editingUser, setEditingUser] = React.useState<OrganizationUser | null>(null);
+  const [editAccess, setEditAccess] = React.useState<MemberAccess>(EMPTY_ACCESS);
+  const [passwordUser, setPasswordUser] = React.useState<OrganizationUser | null>(null);
+  const [newPassword, setNewPassword] = React.useState('');
+  const [removingUser, setRemovingUser] = React.useState<OrganizationUser | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const openAdd = () => {
+    setNewUser({ email: '', password: '', access: EMPTY_ACCESS });
+    setAddOpen(true);
+  };
+
+  const openEdit = (orgUser: OrganizationUser) => {
+    setEditAccess({ role: orgUser.role, branches: orgUser.branches });
+    setEditingUser(orgUser);
+  };
+
+  const openPassword = (orgUser: OrganizationUser) => {
+    setNewPassword('');
+    setPasswordUser(orgUser);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const result = await createUser({
+        email: newUser.email,
+        password: newUser.password || undefined,
+        ...newUser.access,
+      });
+      const email = newUser.email.trim();
+      const role = ROLE_LABELS[newUser.access.role].toLowerCase();
+      toast(
+        result?.existingAccount
+          ? {
+              title: 'Invitation sent',
+              description: `${email} already has an account and will join ${currentOrg?.name} as ${role} once they accept.`,
+            }
+          : {
+              title: result?.invited ? 'Invite sent' : 'User added',
+              description: `${email} joined ${currentOrg?.name} as ${role}.`,
+            }
+      );
+      setAddOpen(false);
+    } catch (err) {
+      showError(err, 'Failed to add user.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveAccess = async () => {
+    if (!editingUser) return;
+
+    setIsSaving(true);
+    try {
+      await updateUser(editingUser.memberId, editAccess);
+      toast({ title: 'Access updated', description: editingUser.email ?? undefined });
+      setEditingUser(null);
+    } catch (err) {
+      showError(err, 'Failed to update access.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSetPassword = async () => {
+    if (!passwordUser) return;
+
+    setIsSaving(true);
+    try {
+      await setPassword(passwordUser.userId, newPassword);
+      toast({ title: 'Password set', description: `Share the new password with ${passwordUser.email}.` });
+      setPasswordUser(null);
+    } catch (err) {
+      showError(err, 'Failed to set password.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSendReset = async () => {
+    if (!passwordUser?.email) return;
+
+    setIsSaving(true);
+    try {
+      await sendPasswordReset(passwordUser.email);
+      toast({ title: 'Reset link sent', description: passwordUser.email });
+      setPasswordUser(null);
+    } catch (err) {
+      showError(err, 'Failed to send reset link.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleDisabled = async (orgUser: OrganizationUser, active: boolean) => {
+    try {
+      await setDisabled(orgUser.userId, !active);
+      toast({ title: active ? 'Account enabled' : 'Account disabled', description: orgUser.email ?? undefined });
+    } catch (err) {
+      showError(err, 'Failed to update account.');
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removingUser) return;
+
+    const orgUser = removingUser;
+    setRemovingUser(null);
+    try {
+      await removeUser(orgUser.memberId);
+      toast({ title: 'User removed', description: `${orgUser.email} no longer has access to ${currentOrg?.name}.` });
+    } catch (err) {
+      showError(err, 'Failed to remove user.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <SectionCard>
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <div>
+            <h3 className="font-semibold text-foreground">Members of {currentOrg?.name}</h3>
+            <p className="text-sm text-muted-foreground">
+              Only accounts created here that belong to no other organization can be disabled or have their password
+              set. Disabling blocks the account's sign-in everywhere.
+            </p>
+          </div>
+          <Button className="gap-2" onClick={openAdd}>
+            <UserPlus className="h-4 w-4" />
+            Add user
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+
+        <div className="border border-border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Branches</TableHead>
+                <TableHead>Last sign-in</TableHead>
+                <TableHead className="w-[80px] text-center">Active</TableHead>
+                <TableHead className="w-[130px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                    No users yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                users.map((orgUser) => {
+                  const isSelf = orgUser.userId === user?.id;
+                  return (
+                    <TableRow key={orgUser.memberId} className={orgUser.disabled ? 'opacity-60' : undefined}>
+                      <TableCell className="font-medium">
+                        {orgUser.email ?? '—'}
+                        {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={orgUser.role === 'admin' ? 'default' : 'secondary'}>
+                          {ROLE_LABELS[orgUser.role]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {orgUser.role === 'admin' || orgUser.branches.length === 0 ? (
+                          <span className="text-muted-foreground">All</span>
+                        ) : (
+                          orgUser.branches.join(', ')
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {orgUser.lastSignInAt
+                          ? formatDistanceToNow(new Date(orgUser.lastSignInAt), { addSuffix: true })
+                          : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Switch
+                          checked={!orgUser.disabled}
+                          disabled={isSelf || !orgUser.managed}
+                          onCheckedChange={(checked) => handleToggleDisabled(orgUser, checked)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1 justify-end">
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(orgUser)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            disabled={isSelf}
+                            onClick={() => openPassword(orgUser)}
+                          >
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                            disabled={isSelf}
+                            onClick={() => setRemovingUser(orgUser)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </SectionCard>
+
+      {/* Add user */}
+      <Dialog open={addOpen} onOpenChange={setAddOpen}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleAdd}>
+            <DialogHeader>
+              <DialogTitle>Add user to {currentOrg?.name}</DialogTitle>
+              <DialogDescription>
+                Set a password to create a ready-to-use account, or leave it empty to email an invite. People who
+                already have an account get an invitation to accept instead.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-user-email">Email</Label>
+                <Input
+                  id="new-user-email"
+                  type="email"
+                  placeholder="name@company.com"
+                  value={newUser.email}
+                  onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-user-password">Password (optional)</Label>
+                <Input
+                  id="new-user-password"
+                  type="password"
+                  placeholder="At least 6 characters"
+                  value={newUser.password}
+                  onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+                />
+              </div>
+              <MemberAccessFields
+                value={newUser.access}
+                onChange={(access) => setNewUser({ ...newUser, access })}
+                idPrefix="new-user"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setAddOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={
+                  isSaving ||
+                  !newUser.email.trim() ||
+                  (newUser.password.length > 0 && newUser.password.length < 6) ||
+                  !isMemberAccessValid(newUser.access)
+                }
+              >
+                {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                {newUser.password ? 'Create user' : 'Send invite'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Role and branches */}
+      <Dialog open={!!editingUser} onOpenChange={(open) => !open && setEditingUser(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit access</DialogTitle>
+            <DialogDescription>{editingUser?.email}</DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <MemberAccessFields value={editAccess} onChange={setEditAccess} idPrefix="edit-user" />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingUser(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveAccess} disabled={isSaving || !isMemberAccessValid(editAccess)}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Password reset */}
+      <Dialog open={!!passwordUser} onOpenChange={(open) => !open && setPasswordUser(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset password</DialogTitle>
+            <DialogDescription>{passwordUser?.email}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <Button variant="outline" className="w-full gap-2" disabled={isSaving} onClick={handleSendReset}>
+              <Mail className="h-4 w-4" />
+              Email a reset link
+            </Button>
+            {passwordUser?.managed ? (
+              <div className="space-y-2">
+                <Label htmlFor="reset-password">Or set a new password</Label>
+                <Input
+                  id="reset-password"
+                  type="password"
+                  placeholder="At least 6 characters"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                />
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                This account wasn't created here or also belongs to another organization, so only its owner can
+                change the password.
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPasswordUser(null)}>
+              Cancel
+            </Button>
+            {passwordUser?.managed && (
+              <Button onClick={handleSetPassword} disabled={isSaving || newPassword.length < 6}>
+                Set password
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!removingUser} onOpenChange={(open) => !open && setRemovingUser(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {removingUser?.email}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They lose access to {currentOrg?.name}. Their account and the entries they made are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemove}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+const Users: React.FC = () => {
+  const { canManageMembers } = useRole();
+
+  return (
+    <MainLayout>
+      {/* Header */}
+      <div className="gradient-header px-4 lg:px-6 py-6 relative z-10">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-white/20 rounded-xl">
+              <UsersIcon className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-white">Users</h1>
+              <p className="text-white/70 text-sm">Accounts, roles and branch assignments for this organization</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 lg:p-6">
+        <div className="max-w-5xl mx-auto">
+          {canManageMembers ? (
+            <UsersTable />
+          ) : (
+            <SectionCard>
+              <p className="text-muted-foreground text-center py-8">Only admins can manage users.</p>
+            </SectionCard>
+          )}
+        </div>
+      </div>
+    </MainLayout>
+  );
+};
+
+export default Users;
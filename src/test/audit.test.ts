@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { describeAuditRecord, getChangedFields } from "@/utils/audit";
+
+describe("getChangedFields", () => {
+  it("lists only fields whose value changed", () => {
+    expect(
+      getChangedFields(
+        { id: "1", qty: 2, amount: 100, updated_at: "a" },
+        { id: "1", qty: 3, amount: 100, updated_at: "b" }
+      )
+    ).toEqual(["qty"]);
+  });
+
+  it("compares arrays by value", () => {
+    expect(getChangedFields({ branches: ["AYA"] }, { branches: ["AYA"] })).toEqual([]);
+  });
+
+  it("lists every field for creates and deletes", () => {
+    expect(getChangedFields(null, { id: "1", qty: 2 })).toEqual(["id", "qty"]);
+    expect(getChangedFields({ id: "1", qty: 2 }, null)).toEqual(["id", "qty"]);
+  });
+});
+
+describe("describeAuditRecord", () => {
+  it("labels sales entries by product, branch and date", () => {
+    expect(
+      describeAuditRecord("sales_entries", { id: "1", name: "MHB-01", branch: "AYA", date: "2026-02-01" })
+    ).toBe("MHB-01 · AYA · 2026-02-01");
+  });
+
+  it("falls back to the row id", () => {
+    expect(describeAuditRecord("unknown_table", { id: "abc" })).toBe("abc");
+  });
+});
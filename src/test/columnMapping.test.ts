@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { findMatchingProfile, guessColumnMapping } from "@/utils/excel/columnMapping";
+
+describe("guessColumnMapping", () => {
+  it("maps header aliases regardless of case and spacing", () => {
+    expect(guessColumnMapping(["Date", " Item  Code ", "Description", "QTY", "Net Amount", "Notes"])).toEqual({
+      date: "Date",
+      name: " Item  Code ",
+      description: "Description",
+      qty: "QTY",
+      amount: "Net Amount",
+    });
+  });
+
+  it("leaves unknown headers unmapped", () => {
+    expect(guessColumnMapping(["Foo", "Bar"])).toEqual({});
+  });
+});
+
+describe("findMatchingProfile", () => {
+  const standard = {
+    id: "standard",
+    headers: ["Date", "Name", "Product", "Qty"],
+    mapping: { date: "Date", name: "Name", description: "Product", qty: "Qty" },
+  };
+  const withBranch = {
+    id: "with-branch",
+    headers: ["Date", "Name", "Product", "Qty", "Store"],
+    mapping: { date: "Date", name: "Name", description: "Product", qty: "Qty", branch: "Store" },
+  };
+
+  it("picks the profile whose headers are closest to the sheet's", () => {
+    expect(findMatchingProfile(["date", "name", "product", "qty"], [withBranch, standard])).toBe(standard);
+    expect(findMatchingProfile(["Date", "Name", "Product", "Qty", "Store"], [standard, withBranch])).toBe(withBranch);
+  });
+
+  it("skips profiles that map a header the sheet lacks", () => {
+    expect(findMatchingProfile(["Date", "Name", "Product"], [standard, withBranch])).toBeNull();
+  });
+});
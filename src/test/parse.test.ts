@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { parseSheetDate } from "@/utils/excel/parse";
+
+describe("parseSheetDate", () => {
+  it("parses ISO, MM/DD/YYYY and Excel's M/D/YY output", () => {
+    expect(parseSheetDate("2026-02-15").date).toBe("2026-02-15");
+    expect(parseSheetDate("2026-02-15T08:30:00").date).toBe("2026-02-15");
+    expect(parseSheetDate("03/02/2026").date).toBe("2026-03-02");
+    expect(parseSheetDate("2/15/26").date).toBe("2026-02-15");
+  });
+
+  it("parses Excel serial numbers", () => {
+    expect(parseSheetDate(46068).date).toBe("2026-02-15");
+    expect(parseSheetDate("46068").date).toBe("2026-02-15");
+  });
+
+  it("rejects impossible calendar dates", () => {
+    expect(parseSheetDate("2026-02-30").date).toBeNull();
+    expect(parseSheetDate("02/30/2026").error).toContain("Invalid Date value");
+  });
+
+  it("only accepts day numbers when allowed", () => {
+    const baseMonth = new Date(2026, 1, 1);
+    expect(parseSheetDate("9 (EA)", { baseMonth }).date).toBeNull();
+    expect(parseSheetDate("9 (EA)", { baseMonth, allowDayOnly: true }).date).toBe("2026-02-09");
+    expect(parseSheetDate("31", { baseMonth, allowDayOnly: true }).date).toBeNull();
+  });
+
+  it("treats empty cells as missing rather than invalid", () => {
+    expect(parseSheetDate("")).toEqual({ date: null, error: null });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { getPermissions } from "@/utils/permissions";
+
+describe("getPermissions", () => {
+  it("gives admins everything", () => {
+    const permissions = getPermissions("admin");
+    expect(permissions.canClearAll).toBe(true);
+    expect(permissions.canManageMembers).toBe(true);
+    expect(permissions.canManageReferenceData).toBe(true);
+    expect(permissions.canPurgeTrash).toBe(true);
+    expect(permissions.canWriteBranch("ANY")).toBe(true);
+    expect(permissions.writableBranches).toBeNull();
+  });
+
+  it("lets area managers write every branch but not clear or manage members", () => {
+    const permissions = getPermissions("area_manager");
+    expect(permissions.canEdit).toBe(true);
+    expect(permissions.canWriteBranch("ANY")).toBe(true);
+    expect(permissions.canClearAll).toBe(false);
+    expect(permissions.canManageMembers).toBe(false);
+    expect(permissions.canManageReferenceData).toBe(false);
+    expect(permissions.canPurgeTrash).toBe(false);
+  });
+
+  it("limits encoders to their assigned branches", () => {
+    const permissions = getPermissions("encoder", ["AYA"]);
+    expect(permissions.canEdit).toBe(true);
+    expect(permissions.canWriteBranch("AYA")).toBe(true);
+    expect(permissions.canWriteBranch("SMN")).toBe(false);
+    expect(permissions.writableBranches).toEqual(["AYA"]);
+    expect(getPermissions("encoder").canEdit).toBe(false);
+  });
+
+  it("limits reads to assigned branches for everyone but admins", () => {
+    expect(getPermissions("admin", ["AYA"]).readableBranches).toBeNull();
+    expect(getPermissions("viewer").readableBranches).toBeNull();
+    expect(getPermissions("viewer", ["AYA"]).readableBranches).toEqual(["AYA"]);
+
+    const manager = getPermissions("area_manager", ["AYA", "SMN"]);
+    expect(manager.readableBranches).toEqual(["AYA", "SMN"]);
+    expect(manager.canWriteBranch("SMN")).toBe(true);
+    expect(manager.canWriteBranch("CEB")).toBe(false);
+  });
+
+  it("keeps viewers read-only", () => {
+    const permissions = getPermissions("viewer", ["AYA"]);
+    expect(permissions.canEdit).toBe(false);
+    expect(permissions.canWriteBranch("AYA")).toBe(false);
+    expect(permissions.writableBranches).toEqual([]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PRODUCT_CODE_SCHEMA,
+  decodeProductCode,
+  formatProductCodeCategory,
+} from "@/utils/productCode";
+
+const CATEGORIES = ["MHB", "MLP", "MSH", "MUM"];
+
+describe("decodeProductCode", () => {
+  it("decodes the default 2025 code layout", () => {
+    expect(decodeProductCode("2025MCLHB5502009-13", DEFAULT_PRODUCT_CODE_SCHEMA)).toEqual({
+      year: "2025",
+      brand: "M",
+      line: "CL",
+      category: "HB",
+      style: "5502009",
+      size: "13",
+    });
+  });
+
+  it("ignores case and spacing", () => {
+    expect(decodeProductCode("2025 mclhb5502009-13", DEFAULT_PRODUCT_CODE_SCHEMA)?.style).toBe("5502009");
+  });
+
+  it("rejects names that do not follow the schema", () => {
+    expect(decodeProductCode("MHB", DEFAULT_PRODUCT_CODE_SCHEMA)).toBeNull();
+    expect(decodeProductCode("Leather bag MHB", DEFAULT_PRODUCT_CODE_SCHEMA)).toBeNull();
+  });
+
+  it("builds the category only when it is a known one", () => {
+    const schema = DEFAULT_PRODUCT_CODE_SCHEMA;
+    expect(formatProductCodeCategory(decodeProductCode("2025MCLHB5502009-13", schema), schema, CATEGORIES)).toBe("MHB");
+    expect(formatProductCodeCategory(decodeProductCode("2025MCLXX5502009-13", schema), schema, CATEGORIES)).toBe("");
+  });
+
+  it("supports custom segments such as a season code", () => {
+    const schema = {
+      segments: [
+        { part: "year" as const, length: 2 },
+        { part: "season" as const, length: 2 },
+        { part: "ignore" as const, length: 1 },
+        { part: "style" as const, length: null },
+      ],
+      separator: "-",
+      categoryFormat: "{category}",
+    };
+    expect(decodeProductCode("26SS-A100-M", schema)).toEqual({ year: "26", season: "SS", style: "A100" });
+  });
+});
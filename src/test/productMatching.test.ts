@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { applyProductMatch, createProductMatcher } from "@/utils/excel/productMatching";
+import type { CollectionItem } from "@/utils/collectionItemsUtils";
+
+const BAG: CollectionItem = {
+  id: "1",
+  name: "2025MCLHB5502009-13",
+  upc: "4800000000017",
+  description: "Leather bag",
+  category: "MHB",
+  price: 2500,
+};
+
+const SHOE: CollectionItem = {
+  id: "2",
+  name: "2025MCLSH1100001-40",
+  upc: "4800000000024",
+  description: "Loafer",
+  category: "MSH",
+  price: 3200,
+};
+
+const sheetRow = (overrides: Partial<Parameters<typeof applyProductMatch>[0]> = {}) => ({
+  upc: "",
+  name: "",
+  category: "",
+  price: 0,
+  qty: 2,
+  discountPercent: 10,
+  amount: 0,
+  ...overrides,
+});
+
+describe("createProductMatcher", () => {
+  const match = createProductMatcher([BAG, SHOE]);
+
+  it("matches by UPC first", () => {
+    expect(match({ upc: " 4800000000024 ", name: BAG.name })).toEqual({ product: SHOE, matchedBy: "upc" });
+  });
+
+  it("falls back to the product code, ignoring case and spacing", () => {
+    expect(match({ upc: "", name: "2025 mclhb5502009-13" })).toEqual({ product: BAG, matchedBy: "name" });
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(match({ upc: "999", name: "Unknown item" })).toBeNull();
+  });
+});
+
+describe("applyProductMatch", () => {
+  it("takes the category and list price from the master", () => {
+    const entry = applyProductMatch(sheetRow({ name: "2025 mclhb5502009-13", category: "MLP", price: 1999 }), BAG);
+    expect(entry).toMatchObject({ upc: BAG.upc, name: BAG.name, category: "MHB", price: 2500 });
+  });
+
+  it("keeps the sheet's values when the master has none", () => {
+    const entry = applyProductMatch(sheetRow({ category: "MLP", price: 1999 }), { ...BAG, category: "", price: 0 });
+    expect(entry).toMatchObject({ category: "MLP", price: 1999 });
+  });
+
+  it("computes the amount from the master price only when the sheet had none", () => {
+    expect(applyProductMatch(sheetRow(), BAG).amount).toBe(4500);
+    expect(applyProductMatch(sheetRow({ amount: 4000 }), BAG).amount).toBe(4000);
+  });
+});
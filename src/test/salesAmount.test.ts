@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { computeAmount, discountFromAmount, resolveAmount } from "@/utils/salesAmount";
+
+describe("computeAmount", () => {
+  it("applies the discount and rounds to cents", () => {
+    expect(computeAmount(99.99, 3, 10)).toBe(269.97);
+    expect(computeAmount(100, 2, 0)).toBe(200);
+  });
+});
+
+describe("discountFromAmount", () => {
+  it("derives the discount from a typed amount", () => {
+    expect(discountFromAmount(100, 2, 150)).toBe(25);
+  });
+
+  it("clamps to 0–100% and returns null without a base amount", () => {
+    expect(discountFromAmount(100, 1, 120)).toBe(0);
+    expect(discountFromAmount(0, 1, 50)).toBeNull();
+  });
+});
+
+describe("resolveAmount", () => {
+  it("keeps a typed amount and computes otherwise", () => {
+    expect(resolveAmount(180, 100, 2, 0)).toBe(180);
+    expect(resolveAmount(undefined, 100, 2, 10)).toBe(180);
+  });
+});
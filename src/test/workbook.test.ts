@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { inferBranchFromSheetName } from "@/utils/excel/workbook";
+
+const BRANCHES = ["MHB", "MLP", "SM1"];
+
+describe("inferBranchFromSheetName", () => {
+  it("finds a known branch among the sheet name's words", () => {
+    expect(inferBranchFromSheetName("MHB", BRANCHES)).toBe("MHB");
+    expect(inferBranchFromSheetName("mlp feb", BRANCHES)).toBe("MLP");
+    expect(inferBranchFromSheetName("Sales - SM1", BRANCHES)).toBe("SM1");
+  });
+
+  it("does not match a branch inside a longer word", () => {
+    expect(inferBranchFromSheetName("MHBX", BRANCHES)).toBeNull();
+  });
+
+  it("returns null for per-day sheets", () => {
+    expect(inferBranchFromSheetName("Feb 12", BRANCHES)).toBeNull();
+  });
+});
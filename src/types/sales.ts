@@ -1,3 +1,8 @@
+// Pieces of a product code such as 2025MCLHB5502009-13, decoded by the active product code schema
+export const PRODUCT_CODE_PARTS = ['year', 'brand', 'line', 'category', 'style', 'size', 'season'] as const;
+export type ProductCodePart = typeof PRODUCT_CODE_PARTS[number];
+export type ProductCodeParts = Partial<Record<ProductCodePart, string>>;
+
 export interface SalesEntry {
   id: string;
   date: string;
@@ -11,6 +16,8 @@ export interface SalesEntry {
   amount: number;
   branch: string;
   createdAt: string;
+  // Decoded from name when it follows the product code schema; not stored
+  codeParts?: ProductCodeParts;
 }
 
 export interface ProductMaster {
@@ -37,6 +44,36 @@ export interface CategorySummary {
   }[];
 }
 
+export interface DailySalesSummary {
+  date: string;
+  branch: string;
+  category: string;
+  totalAmount: number;
+  totalQty: number;
+  totalPrice: number;
+  totalDiscount: number;
+  entryCount: number;
+}
+
+export interface ItemSalesSummary {
+  upc: string;
+  name: string;
+  description: string;
+  category: string;
+  totalQty: number;
+  totalAmount: number;
+  avgPrice: number;
+  avgDiscount: number;
+  branches: { branch: string; qty: number; amount: number }[];
+}
+
+export interface SalesKpis {
+  totalSales: number;
+  totalItemsSold: number;
+  activeBranches: number;
+  uniqueProducts: number;
+}
+
 export interface DateRange {
   from: Date | undefined;
   to: Date | undefined;
@@ -49,17 +86,28 @@ export interface SalesFilters {
   category: string;
 }
 
-export const BRANCHES = ['MHB', 'MLP', 'MSH', 'MUM', 'MQC'] as const;
-export type Branch = typeof BRANCHES[number];
+// Filters applied server-side when loading a month; search stays client-side
+export type SalesQueryFilters = Omit<SalesFilters, 'search'>;
+
+// How rows that already exist in the database are handled on re-import
+export type DuplicateMode = 'skip' | 'replace' | 'append';
+
+export interface ImportRowError {
+  rowIndex: number;
+  message: string;
+}
+
+export interface ImportOutcome {
+  inserted: number;
+  skipped: number;
+  replaced: number;
+  // Non-empty means the import was rejected as a whole
+  rowErrors: ImportRowError[];
+}
+
+// One change applied to every selected DSR row in a single server call
+export type BulkEntryAction = 'delete' | 'branch' | 'date' | 'category';
 
-export const CATEGORIES = [
-  'Electronics',
-  'Groceries',
-  'Clothing',
-  'Home & Living',
-  'Health & Beauty',
-  'Sports & Outdoors',
-  'Toys & Games',
-  'Food & Beverages',
-] as const;
-export type Category = typeof CATEGORIES[number];
+export type BulkEntryChange =
+  | { action: 'delete' }
+  | { action: Exclude<BulkEntryAction, 'delete'>; value: string };
@@ -0,0 +1,60 @@
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+export type AuditData = Record<string, unknown>;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+// Tables with an audit trigger
+export const AUDIT_TABLE_LABELS: Record<string, string> = {
+  sales_entries: 'Sales entry',
+  extra_area_entries: 'Extra area report',
+  extra_area_sales: 'Extra area sales',
+  branch_calendar_tasks: 'Calendar task',
+  import_batches: 'Import',
+  organization_members: 'Member',
+};
+
+// Bookkeeping columns that change on their own and say nothing about the edit
+const IGNORED_FIELDS = new Set(['updated_at', 'updated_by']);
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Fields that differ between the before and after images; every field for creates and deletes
+export const getChangedFields = (oldData: AuditData | null, newData: AuditData | null): string[] => {
+  if (!oldData || !newData) return Object.keys(oldData ?? newData ?? {}).filter((key) => !IGNORED_FIELDS.has(key));
+
+  return [...new Set([...Object.keys(oldData), ...Object.keys(newData)])].filter(
+    (key) => !IGNORED_FIELDS.has(key) && !isEqual(oldData[key], newData[key])
+  );
+};
+
+const RECORD_LABEL_FIELDS: Record<string, string[]> = {
+  sales_entries: ['name', 'branch', 'date'],
+  extra_area_entries: ['location_area', 'branch', 'entry_date'],
+  extra_area_sales: ['category', 'amount'],
+  branch_calendar_tasks: ['title', 'branch', 'task_date'],
+  import_batches: ['file_name', 'month'],
+  organization_members: ['role'],
+};
+
+// A short human label for the record, built from whichever image is available
+export const describeAuditRecord = (tableName: string, data: AuditData | null): string => {
+  if (!data) return '—';
+
+  const label = (RECORD_LABEL_FIELDS[tableName] ?? [])
+    .map((field) => data[field])
+    .filter((value) => value !== null && value !== undefined && value !== '')
+    .join(' · ');
+
+  return label || String(data.id ?? '—');
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
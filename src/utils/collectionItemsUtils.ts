@@ -1,4 +1,6 @@
 import * as XLSX from 'xlsx';
+import { parseLooseNumber } from '@/utils/excel/parse';
+import { ExcelSheetData, SheetImportSummary, readExcelWorkbook } from '@/utils/excel/workbook';
 
 export interface CollectionItem {
   id: string;
@@ -9,23 +11,20 @@ export interface CollectionItem {
   price: number;
 }
 
-const STORAGE_KEY = 'collection-items';
+// Items were kept per browser before the collection_items table; read once to move them to the cloud
+const LEGACY_STORAGE_KEY = 'collection-items';
 
-// Get all collection items from localStorage
-export const getCollectionItems = (): CollectionItem[] => {
-  const saved = localStorage.getItem(STORAGE_KEY);
-  return saved ? JSON.parse(saved) : [];
+export const getLegacyCollectionItems = (): CollectionItem[] => {
+  try {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
 };
 
-// Save collection items to localStorage
-export const saveCollectionItems = (items: CollectionItem[]): void => {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
-};
-
-// Find product by UPC from Collection Items
-export const findCollectionItemByUPC = (upc: string): CollectionItem | undefined => {
-  const items = getCollectionItems();
-  return items.find(item => item.upc === upc);
+export const clearLegacyCollectionItems = (): void => {
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
 };
 
 // Import result interface
@@ -33,74 +32,84 @@ export interface CollectionImportResult {
   success: boolean;
   data: CollectionItem[];
   errors: string[];
+  sheets: SheetImportSummary[];
 }
 
-// Import collection items from Excel
-export const importCollectionItemsFromExcel = (file: File): Promise<CollectionImportResult> => {
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet);
-
-        const errors: string[] = [];
-        const items: CollectionItem[] = [];
-
-        jsonData.forEach((row: any, index: number) => {
-          const rowNum = index + 2; // Account for header row
-
-          // Map column names - flexible matching
-          const name = row['Name'] || row['name'] || '';
-          const upc = String(row['UPC'] || row['upc'] || '');
-          const description = row['Description'] || row['description'] || '';
-          const category = row['Category'] || row['category'] || '';
-          const price = Number(row['Price'] || row['price'] || 0);
-
-          // Validate required fields
-          if (!name) errors.push(`Row ${rowNum}: Missing name`);
-          if (!upc) errors.push(`Row ${rowNum}: Missing UPC`);
-
-          if (name && upc) {
-            items.push({
-              id: `import-${Date.now()}-${index}`,
-              name,
-              upc,
-              description,
-              category,
-              price,
-            });
-          }
-        });
-
-        resolve({
-          success: items.length > 0,
-          data: items,
-          errors,
-        });
-      } catch (error) {
-        resolve({
-          success: false,
-          data: [],
-          errors: ['Failed to parse Excel file. Please check the format.'],
+// Merges the given sheets; errors are prefixed with the sheet name when there are several
+export const parseCollectionItemsFromSheets = (sheets: ExcelSheetData[]): CollectionImportResult => {
+  const errors: string[] = [];
+  const items: CollectionItem[] = [];
+  const summaries: SheetImportSummary[] = [];
+  const multiSheet = sheets.length > 1;
+  const timestamp = Date.now();
+
+  sheets.forEach((sheet, sheetIndex) => {
+    const prefix = multiSheet ? `${sheet.sheetName} ` : '';
+    let rowCount = 0;
+    let errorCount = 0;
+
+    sheet.rows.forEach((row, index) => {
+      const rowNum = index + 2; // Account for header row
+      const text = (value: unknown) => String(value ?? '').trim();
+
+      // Map column names - flexible matching
+      const name = text(row['Name'] || row['name']);
+      const upc = text(row['UPC'] || row['upc']);
+      const description = text(row['Description'] || row['description']);
+      const category = text(row['Category'] || row['category']);
+      const price = parseLooseNumber(row['Price'] || row['price'] || 0);
+
+      if (!name && !upc && !description) return;
+      rowCount += 1;
+
+      // Validate required fields
+      if (!name) errors.push(`${prefix}Row ${rowNum}: Missing name`);
+      if (!upc) errors.push(`${prefix}Row ${rowNum}: Missing UPC`);
+
+      if (name && upc) {
+        items.push({
+          id: `import-${timestamp}-${sheetIndex}-${index}`,
+          name,
+          upc,
+          description,
+          category,
+          price: Number.isFinite(price) ? price : 0,
         });
+      } else {
+        errorCount += 1;
       }
-    };
+    });
 
-    reader.onerror = () => {
-      resolve({
-        success: false,
-        data: [],
-        errors: ['Failed to read file.'],
-      });
-    };
-
-    reader.readAsArrayBuffer(file);
+    summaries.push({ sheetName: sheet.sheetName, rowCount, errorCount });
   });
+
+  return {
+    success: items.length > 0,
+    data: items,
+    errors,
+    sheets: summaries,
+  };
+};
+
+// Import collection items from Excel; reads the first sheet unless sheet names are given
+export const importCollectionItemsFromExcel = async (
+  file: File,
+  sheetNames?: string[]
+): Promise<CollectionImportResult> => {
+  try {
+    const workbook = await readExcelWorkbook(file);
+    const sheets = sheetNames
+      ? workbook.filter((sheet) => sheetNames.includes(sheet.sheetName))
+      : workbook.slice(0, 1);
+    return parseCollectionItemsFromSheets(sheets);
+  } catch (error) {
+    return {
+      success: false,
+      data: [],
+      errors: ['Failed to parse Excel file. Please check the format.'],
+      sheets: [],
+    };
+  }
 };
 
 // Export collection items to Excel
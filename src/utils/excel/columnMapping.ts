@@ -0,0 +1,78 @@
+import { SalesEntry } from '@/types/sales';
+
+export type ImportField = keyof Omit<SalesEntry, 'id' | 'createdAt'>;
+
+// Sheet header chosen for each entry field; unmapped fields fall back to defaults
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+// Aliases cover the header variants the importer used to hard-code
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'date', label: 'Date', required: true, aliases: ['date', 'day'] },
+  { field: 'name', label: 'Name', required: true, aliases: ['name', 'item code', 'product name'] },
+  { field: 'description', label: 'Product', required: true, aliases: ['product', 'description'] },
+  { field: 'branch', label: 'Branch', required: false, aliases: ['branch', 'store'] },
+  { field: 'qty', label: 'Quantity', required: false, aliases: ['quantity', 'qty'] },
+  { field: 'price', label: 'Price', required: false, aliases: ['price', 'unit price', 'srp'] },
+  { field: 'discountPercent', label: 'Discount %', required: false, aliases: ['discount', 'discount %', 'disc'] },
+  { field: 'amount', label: 'Amount', required: false, aliases: ['amount', 'net amount', 'total'] },
+  { field: 'upc', label: 'UPC', required: false, aliases: ['upc', 'barcode'] },
+  { field: 'category', label: 'Category', required: false, aliases: ['category'] },
+];
+
+export const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Best guess from header names alone, used when no saved profile matches
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const byNormalized = new Map(headers.map((header) => [normalizeHeader(header), header]));
+
+  for (const definition of IMPORT_FIELDS) {
+    const alias = definition.aliases.find((candidate) => byNormalized.has(candidate));
+    if (alias) mapping[definition.field] = byNormalized.get(alias);
+  }
+  return mapping;
+};
+
+// Profiles only qualify when every header they map exists in the sheet; among those the
+// closest header set wins. Returns null when nothing fits.
+export const findMatchingProfile = <T extends { mapping: ColumnMapping; headers: string[] }>(
+  headers: string[],
+  profiles: T[]
+): T | null => {
+  const sheetHeaders = new Set(headers.map(normalizeHeader));
+  let best: { profile: T; score: number } | null = null;
+
+  for (const profile of profiles) {
+    const mapped = Object.values(profile.mapping).filter(Boolean) as string[];
+    if (mapped.length === 0 || !mapped.every((header) => sheetHeaders.has(normalizeHeader(header)))) continue;
+
+    const profileHeaders = new Set(profile.headers.map(normalizeHeader));
+    const shared = Array.from(profileHeaders).filter((header) => sheetHeaders.has(header)).length;
+    const score = shared / new Set([...profileHeaders, ...sheetHeaders]).size;
+
+    if (!best || score > best.score) best = { profile, score };
+  }
+  return best?.profile ?? null;
+};
+
+// Re-point a profile's mapping at the sheet's exact header text (profiles match case-insensitively)
+export const resolveMappingHeaders = (mapping: ColumnMapping, headers: string[]): ColumnMapping => {
+  const byNormalized = new Map(headers.map((header) => [normalizeHeader(header), header]));
+  const resolved: ColumnMapping = {};
+
+  for (const [field, header] of Object.entries(mapping) as [ImportField, string][]) {
+    const match = header ? byNormalized.get(normalizeHeader(header)) : undefined;
+    if (match) resolved[field] = match;
+  }
+  return resolved;
+};
+
+export const getMissingRequiredFields = (mapping: ColumnMapping): ImportFieldDefinition[] =>
+  IMPORT_FIELDS.filter((definition) => definition.required && !mapping[definition.field]);
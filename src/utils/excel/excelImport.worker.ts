@@ -0,0 +1,44 @@
+import { buildImportRows } from '@/utils/excelUtils';
+import { ExcelSheetData, parseWorkbook, summarizeSheet } from '@/utils/excel/workbook';
+import type { ExcelWorkerRequest, ExcelWorkerResponse } from '@/utils/excel/excelWorker';
+
+const post = (message: ExcelWorkerResponse) => self.postMessage(message);
+
+// The workbook read last, kept here so mapping doesn't copy its rows back and forth
+let sheets: ExcelSheetData[] = [];
+
+self.onmessage = async (event: MessageEvent<ExcelWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'read') {
+      post({ type: 'progress', progress: { stage: 'reading', percent: 0, rows: 0 } });
+      const data = await request.file.arrayBuffer();
+
+      let rows = 0;
+      sheets = parseWorkbook(data, (sheet, index, sheetCount) => {
+        rows += sheet.rows.length;
+        post({
+          type: 'progress',
+          progress: { stage: 'parsing', percent: Math.round(((index + 1) / sheetCount) * 100), rows },
+        });
+      });
+      post({ type: 'sheets', sheets: sheets.map(summarizeSheet) });
+      return;
+    }
+
+    const selected = sheets.filter((sheet) => request.sheetNames.includes(sheet.sheetName));
+    const result = buildImportRows(selected, request.mapping, request.options, (processedRows, totalRows) => {
+      post({
+        type: 'progress',
+        progress: {
+          stage: 'mapping',
+          percent: totalRows > 0 ? Math.round((processedRows / totalRows) * 100) : 100,
+          rows: processedRows,
+        },
+      });
+    });
+    post({ type: 'rows', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to parse Excel file' });
+  }
+};
@@ -0,0 +1,127 @@
+import { ColumnMapping } from '@/utils/excel/columnMapping';
+import { ExcelSheetSummary, parseWorkbook, summarizeSheet } from '@/utils/excel/workbook';
+import { ImportOptions, ImportResult, buildImportRows } from '@/utils/excelUtils';
+
+export interface ExcelParseProgress {
+  stage: 'reading' | 'parsing' | 'mapping';
+  percent: number;
+  // Rows read so far (reading/parsing) or rows mapped so far (mapping)
+  rows: number;
+}
+
+export type ExcelWorkerRequest =
+  | { type: 'read'; file: File }
+  | { type: 'build'; sheetNames: string[]; mapping: ColumnMapping; options?: ImportOptions };
+
+export type ExcelWorkerResponse =
+  | { type: 'progress'; progress: ExcelParseProgress }
+  | { type: 'sheets'; sheets: ExcelSheetSummary[] }
+  | { type: 'rows'; result: ImportResult }
+  | { type: 'error'; message: string };
+
+// A parsed workbook. Its rows stay where they were parsed; only sheet summaries and the mapped
+// rows reach the page. Close it once no more rows need mapping.
+export interface ExcelWorkbook {
+  sheets: ExcelSheetSummary[];
+  buildImportRows: (
+    sheetNames: string[],
+    mapping: ColumnMapping,
+    options?: ImportOptions,
+    onProgress?: (progress: ExcelParseProgress) => void
+  ) => Promise<ImportResult>;
+  close: () => void;
+}
+
+const hasWorkerSupport = () => typeof Worker !== 'undefined';
+
+// Where workers are unavailable everything runs inline
+const openWorkbookInline = async (file: File): Promise<ExcelWorkbook> => {
+  const sheets = parseWorkbook(await file.arrayBuffer());
+
+  return {
+    sheets: sheets.map(summarizeSheet),
+    buildImportRows: async (sheetNames, mapping, options) =>
+      buildImportRows(
+        sheets.filter((sheet) => sheetNames.includes(sheet.sheetName)),
+        mapping,
+        options
+      ),
+    close: () => {},
+  };
+};
+
+// One worker per workbook, answering one request at a time
+const createWorkerClient = () => {
+  const worker = new Worker(new URL('./excelImport.worker.ts', import.meta.url), { type: 'module' });
+  let closed = false;
+
+  const request = <T>(
+    message: ExcelWorkerRequest,
+    pick: (response: ExcelWorkerResponse) => T | undefined,
+    onProgress?: (progress: ExcelParseProgress) => void
+  ): Promise<T> =>
+    new Promise((resolve, reject) => {
+      if (closed) {
+        reject(new Error('The workbook has been closed'));
+        return;
+      }
+
+      worker.onmessage = (event: MessageEvent<ExcelWorkerResponse>) => {
+        const response = event.data;
+        if (response.type === 'progress') {
+          onProgress?.(response.progress);
+          return;
+        }
+        if (response.type === 'error') {
+          reject(new Error(response.message));
+          return;
+        }
+        const value = pick(response);
+        if (value === undefined) reject(new Error(`Unexpected worker response: ${response.type}`));
+        else resolve(value);
+      };
+      worker.onerror = (event) => {
+        reject(new Error(event.message || 'Excel worker failed'));
+      };
+
+      worker.postMessage(message);
+    });
+
+  const close = () => {
+    closed = true;
+    worker.terminate();
+  };
+
+  return { request, close };
+};
+
+// Parses every sheet off the main thread and keeps the rows there for mapping
+export const openExcelWorkbook = async (
+  file: File,
+  onProgress?: (progress: ExcelParseProgress) => void
+): Promise<ExcelWorkbook> => {
+  if (!hasWorkerSupport()) return openWorkbookInline(file);
+
+  const client = createWorkerClient();
+  try {
+    const sheets = await client.request(
+      { type: 'read', file },
+      (response) => (response.type === 'sheets' ? response.sheets : undefined),
+      onProgress
+    );
+
+    return {
+      sheets,
+      buildImportRows: (sheetNames, mapping, options, onBuildProgress) =>
+        client.request(
+          { type: 'build', sheetNames, mapping, options },
+          (response) => (response.type === 'rows' ? response.result : undefined),
+          onBuildProgress
+        ),
+      close: client.close,
+    };
+  } catch (error) {
+    client.close();
+    throw error;
+  }
+};
@@ -30,3 +30,82 @@ export const parseDayNumber = (value: unknown): number | null => {
   if (day < 1 || day > 31) return null;
   return day;
 };
+
+export interface SheetDateOptions {
+  // Month used when the cell only holds a day number
+  baseMonth?: Date;
+  // Accept bare day numbers ("9", "9 (EA)") and combine them with baseMonth
+  allowDayOnly?: boolean;
+}
+
+export type SheetDateResult = { date: string; error?: undefined } | { date: null; error: string | null };
+
+const EXCEL_EPOCH_OFFSET = 25569; // days between 1899-12-30 and 1970-01-01
+const MIN_EXCEL_SERIAL = 32; // below this a bare number is a day of month, not a serial
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Builds yyyy-MM-dd only if the parts form a real calendar date (no 02/30 rollover)
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const fromExcelSerial = (serial: number): string | null => {
+  const date = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET) * 86400 * 1000));
+  if (isNaN(date.getTime())) return null;
+  return toIsoDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+};
+
+/**
+ * Parses a Date cell into yyyy-MM-dd. Accepts Date objects, Excel serial numbers,
+ * ISO strings (2026-02-15, optionally with a time), MM/DD/YYYY and M/D/YY (Excel's
+ * formatted output), and — only when allowDayOnly is set — a bare day of month.
+ * An empty cell returns { date: null, error: null }.
+ */
+export const parseSheetDate = (value: unknown, options: SheetDateOptions = {}): SheetDateResult => {
+  if (value instanceof Date) {
+    const iso = isNaN(value.getTime())
+      ? null
+      : toIsoDate(value.getFullYear(), value.getMonth() + 1, value.getDate());
+    return iso ? { date: iso } : { date: null, error: 'Invalid date' };
+  }
+
+  const raw = value === null || value === undefined ? '' : String(value).trim();
+  if (!raw) return { date: null, error: null };
+
+  const invalid = { date: null, error: `Invalid Date value "${raw}"` } as const;
+
+  const iso = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+  if (iso) {
+    const date = toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    return date ? { date } : invalid;
+  }
+
+  const us = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (us) {
+    const year = us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]);
+    const date = toIsoDate(year, Number(us[1]), Number(us[2]));
+    return date ? { date } : invalid;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(raw) && Number(raw) >= MIN_EXCEL_SERIAL) {
+    const date = fromExcelSerial(Number(raw));
+    return date ? { date } : invalid;
+  }
+
+  if (options.allowDayOnly && options.baseMonth) {
+    const day = parseDayNumber(raw);
+    if (day !== null) {
+      const date = toIsoDate(options.baseMonth.getFullYear(), options.baseMonth.getMonth() + 1, day);
+      return date ? { date } : invalid;
+    }
+  }
+
+  if (parseDayNumber(raw) !== null) {
+    return { date: null, error: `Day number "${raw}" has no month (turn on day-only dates when mapping columns)` };
+  }
+
+  return invalid;
+};
@@ -0,0 +1,55 @@
+import type { CollectionItem } from '@/utils/collectionItemsUtils';
+import { computeAmount } from '@/utils/salesAmount';
+
+export type ProductMatchType = 'upc' | 'name';
+
+export interface ProductMatch {
+  product: CollectionItem;
+  matchedBy: ProductMatchType;
+}
+
+// Product codes are compared without case or spacing: "2025 mclhb5502009-13" = "2025MCLHB5502009-13"
+export const normalizeProductCode = (value: string) => value.toUpperCase().replace(/\s+/g, '');
+
+// Looks rows up by UPC first, then by product code against the master's item names
+export const createProductMatcher = (products: CollectionItem[]) => {
+  const byUpc = new Map<string, CollectionItem>();
+  const byCode = new Map<string, CollectionItem>();
+  for (const product of products) {
+    if (product.upc) byUpc.set(product.upc.trim(), product);
+    if (product.name) byCode.set(normalizeProductCode(product.name), product);
+  }
+
+  return (entry: { upc: string; name: string }): ProductMatch | null => {
+    const upc = entry.upc.trim();
+    if (upc && byUpc.has(upc)) return { product: byUpc.get(upc)!, matchedBy: 'upc' };
+
+    const code = normalizeProductCode(entry.name);
+    if (code && byCode.has(code)) return { product: byCode.get(code)!, matchedBy: 'name' };
+
+    return null;
+  };
+};
+
+export type ProductMatcher = ReturnType<typeof createProductMatcher>;
+
+// UPC, name, category and list price come from the master (the sheet's only fill in what the master
+// lacks); the amount is recomputed only when the sheet had none
+export const applyProductMatch = <
+  T extends { upc: string; name: string; category: string; price: number; qty: number; discountPercent: number; amount: number },
+>(
+  entry: T,
+  product: CollectionItem
+): T => {
+  const price = product.price || entry.price;
+  const amount = entry.amount || computeAmount(price, entry.qty, entry.discountPercent);
+
+  return {
+    ...entry,
+    upc: product.upc,
+    name: product.name,
+    category: product.category || entry.category,
+    price,
+    amount,
+  };
+};
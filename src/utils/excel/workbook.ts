@@ -0,0 +1,90 @@
+import * as XLSX from 'xlsx';
+
+export interface ExcelSheetData {
+  sheetName: string;
+  headers: string[];
+  rows: Record<string, unknown>[];
+}
+
+// What the import dialogs need from a sheet, without its full rows: parsed rows can stay in the
+// worker that read them
+export interface ExcelSheetSummary {
+  sheetName: string;
+  headers: string[];
+  rowCount: number;
+  // The first rows, for sample values
+  sampleRows: Record<string, unknown>[];
+}
+
+const SAMPLE_ROW_COUNT = 50;
+
+export const summarizeSheet = (sheet: ExcelSheetData): ExcelSheetSummary => ({
+  sheetName: sheet.sheetName,
+  headers: sheet.headers,
+  rowCount: sheet.rows.length,
+  sampleRows: sheet.rows.slice(0, SAMPLE_ROW_COUNT),
+});
+
+export interface SheetImportSummary {
+  sheetName: string;
+  rowCount: number;
+  errorCount: number;
+}
+
+// General-format numbers are rendered as e.g. "4.80002E+12"; long UPCs need the full value
+const expandGeneralNumbers = (worksheet: XLSX.WorkSheet) => {
+  for (const address of Object.keys(worksheet)) {
+    if (address.startsWith('!')) continue;
+    const cell = worksheet[address] as XLSX.CellObject;
+    if (cell.t === 'n' && (!cell.z || cell.z === 'General') && typeof cell.v === 'number') {
+      cell.w = String(cell.v);
+    }
+  }
+};
+
+const readSheet = (workbook: XLSX.WorkBook, sheetName: string): ExcelSheetData => {
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet) return { sheetName, headers: [], rows: [] };
+
+  expandGeneralNumbers(worksheet);
+
+  const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, range: 0 });
+  const headers = headerRow.map((header) => String(header ?? '')).filter((header) => header.trim() !== '');
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, {
+    defval: '',
+    raw: false,
+  });
+
+  return { sheetName, headers, rows };
+};
+
+// Reads every sheet as header-keyed rows, in workbook order; header order is kept for the mapping step
+export const parseWorkbook = (
+  data: ArrayBuffer,
+  onSheetRead?: (sheet: ExcelSheetData, index: number, sheetCount: number) => void
+): ExcelSheetData[] => {
+  // Support both .xlsx and .xls formats
+  const workbook = XLSX.read(new Uint8Array(data), {
+    type: 'array',
+  });
+
+  if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
+    throw new Error('No sheets found in workbook');
+  }
+
+  return workbook.SheetNames.map((sheetName, index) => {
+    const sheet = readSheet(workbook, sheetName);
+    onSheetRead?.(sheet, index, workbook.SheetNames.length);
+    return sheet;
+  });
+};
+
+export const readExcelWorkbook = async (file: File): Promise<ExcelSheetData[]> =>
+  parseWorkbook(await file.arrayBuffer());
+
+// "MHB", "mhb feb", "Sales - MHB" -> "MHB" when MHB is a known branch; per-day sheets give null
+export const inferBranchFromSheetName = (sheetName: string, branches: readonly string[]): string | null => {
+  const tokens = sheetName.toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+  return branches.find((branch) => tokens.includes(branch.toUpperCase())) ?? null;
+};
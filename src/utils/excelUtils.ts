@@ -1,6 +1,22 @@
 import * as XLSX from 'xlsx';
+import { endOfMonth, format } from 'date-fns';
 import { SalesEntry } from '@/types/sales';
-import { parseDayNumber, parseLooseNumber } from '@/utils/excel/parse';
+import { parseLooseNumber, parseSheetDate } from '@/utils/excel/parse';
+import { ColumnMapping, resolveMappingHeaders } from '@/utils/excel/columnMapping';
+import {
+  ExcelSheetData,
+  SheetImportSummary,
+  inferBranchFromSheetName,
+} from '@/utils/excel/workbook';
+import type { CollectionItem } from '@/utils/collectionItemsUtils';
+import { ProductMatcher, applyProductMatch, createProductMatcher } from '@/utils/excel/productMatching';
+import {
+  DEFAULT_PRODUCT_CODE_SCHEMA,
+  ProductCodeSchema,
+  decodeProductCode,
+  formatProductCodeCategory,
+} from '@/utils/productCode';
+import { computeAmount } from '@/utils/salesAmount';
 
 export const exportToExcel = (data: SalesEntry[], filename: string = 'sales-data') => {
   const exportData = data.map(entry => ({
@@ -40,195 +56,230 @@ export const exportToExcel = (data: SalesEntry[], filename: string = 'sales-data
   XLSX.writeFile(workbook, `${filename}.xlsx`);
 };
 
+export type ImportedSalesEntry = Omit<SalesEntry, 'id' | 'createdAt'>;
+
+// One parsed sheet row; rows with errors are kept so they can be fixed in the preview
+export interface ImportRow {
+  sheetName: string;
+  rowNum: number;
+  entry: ImportedSalesEntry;
+  errors: string[];
+  // True when a product master was given and neither the UPC nor the product code is in it
+  unmatchedProduct: boolean;
+}
+
 export interface ImportResult {
   success: boolean;
-  data: Partial<SalesEntry>[];
+  rows: ImportRow[];
   errors: string[];
+  sheets: SheetImportSummary[];
 }
 
+// Called every PROGRESS_ROW_INTERVAL rows and once at the end
+export type RowProgressCallback = (processedRows: number, totalRows: number) => void;
+
+const PROGRESS_ROW_INTERVAL = 500;
+
 export interface ImportOptions {
   dateRangeFrom?: Date;
   dateRangeTo?: Date;
+  // Used for rows without a branch value, e.g. when a branch's POS export has no branch column
+  defaultBranch?: string;
+  // Treat bare day numbers as days of dateRangeFrom's month
+  allowDayOnlyDates?: boolean;
+  // Use a branch code found in the sheet name (e.g. "MHB Feb") for rows without a branch value
+  inferBranchFromSheet?: boolean;
+  // Collection Items master used to fill UPC, canonical name, category and list price
+  products?: CollectionItem[];
+  // Decodes the category from product codes when the sheet has no category column
+  productCodeSchema?: ProductCodeSchema;
+  // Active branch and category codes; rows using anything else are rejected
+  reference?: ImportReferenceData;
 }
 
-// Allowed categories only: MHB, MLP, MSH, MUM
-const ALLOWED_CATEGORIES = ['MHB', 'MLP', 'MSH', 'MUM'];
+export interface ImportReferenceData {
+  branches: string[];
+  categories: string[];
+}
 
-// Extract category from product code format: 2025MCLHB5502009-13
-// Position 5 (index 4) = 'M', Position 8-9 (index 7-8) = 'HB' -> Combined = 'MHB'
-const extractCategoryFromProduct = (productName: string): string => {
-  if (!productName || productName.length < 9) return '';
-  
-  const upperProduct = productName.toUpperCase().replace(/\s/g, '');
-  
-  // Extract from specific positions: index 4 + index 7-8
-  if (upperProduct.length >= 9) {
-    const char5 = upperProduct.charAt(4);  // Position 5 (M)
-    const char8 = upperProduct.charAt(7);  // Position 8
-    const char9 = upperProduct.charAt(8);  // Position 9
-    
-    const extracted = char5 + char8 + char9;
-    
-    // Check if extracted matches allowed categories
-    if (ALLOWED_CATEGORIES.includes(extracted)) {
-      return extracted;
-    }
+// Inclusive yyyy-MM-dd bounds; rows dated outside are rejected
+export interface ImportDateWindow {
+  from: string;
+  to: string;
+}
+
+// Category from a product code such as 2025MCLHB5502009-13 -> "MHB", per the product code schema
+export const extractCategoryFromProduct = (
+  productName: string,
+  categories: readonly string[],
+  schema: ProductCodeSchema = DEFAULT_PRODUCT_CODE_SCHEMA
+): string => formatProductCodeCategory(decodeProductCode(productName, schema), schema, categories);
+
+// dateRangeTo defaults to the end of dateRangeFrom's month
+export const getImportDateWindow = (options?: ImportOptions): ImportDateWindow | null => {
+  if (!options?.dateRangeFrom) return null;
+  return {
+    from: format(options.dateRangeFrom, 'yyyy-MM-dd'),
+    to: format(options.dateRangeTo ?? endOfMonth(options.dateRangeFrom), 'yyyy-MM-dd'),
+  };
+};
+
+// Row-level validation shared by the importer and the preview screen after edits
+// Reference checks are skipped while the lists are empty (not loaded yet)
+export const validateImportedEntry = (
+  entry: ImportedSalesEntry,
+  dateWindow?: ImportDateWindow | null,
+  reference?: ImportReferenceData | null
+): string[] => {
+  const errors: string[] = [];
+  if (!entry.date) errors.push('Missing date');
+  if (entry.date && dateWindow && (entry.date < dateWindow.from || entry.date > dateWindow.to)) {
+    errors.push(`Date ${entry.date} is outside ${dateWindow.from} to ${dateWindow.to}`);
   }
-  
-  // Fallback: check if product starts with allowed category
-  for (const cat of ALLOWED_CATEGORIES) {
-    if (upperProduct.startsWith(cat)) return cat;
+  if (!entry.name) errors.push('Missing name');
+  if (!entry.description) errors.push('Missing product');
+  if (!entry.branch) errors.push('Missing branch');
+  if (entry.branch && reference?.branches.length && !reference.branches.includes(entry.branch)) {
+    errors.push(`Unknown branch "${entry.branch}"`);
   }
-  
-  // Fallback: find any allowed category in the product name
-  for (const cat of ALLOWED_CATEGORIES) {
-    if (upperProduct.includes(cat)) return cat;
+  if (entry.category && reference?.categories.length && !reference.categories.includes(entry.category)) {
+    errors.push(`Unknown category "${entry.category}"`);
   }
-  
-  return '';
+  return errors;
 };
 
-export const importFromExcel = async (file: File, options?: ImportOptions): Promise<ImportResult> => {
-  try {
-    const arrayBuffer = await file.arrayBuffer();
-    const data = new Uint8Array(arrayBuffer);
-    
-    // Support both .xlsx and .xls formats
-    const workbook = XLSX.read(data, { 
-      type: 'array',
-    });
-    
-    if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
-      return {
-        success: false,
-        data: [],
-        errors: ['No sheets found in workbook'],
-      };
-    }
-    
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-    
-    if (!worksheet) {
-      return {
-        success: false,
-        data: [],
-        errors: ['Could not read worksheet'],
-      };
+const buildSheetRows = (
+  sheet: ExcelSheetData,
+  mapping: ColumnMapping,
+  options?: ImportOptions,
+  onRowProcessed?: () => void,
+  matchProduct?: ProductMatcher
+): ImportRow[] => {
+  const rows: ImportRow[] = [];
+  const defaultBranch =
+    (options?.inferBranchFromSheet && inferBranchFromSheetName(sheet.sheetName, options.reference?.branches ?? [])) ||
+    options?.defaultBranch ||
+    '';
+
+  const dateWindow = getImportDateWindow(options);
+
+  const cell = (row: Record<string, unknown>, field: keyof ColumnMapping) => {
+    const header = mapping[field];
+    return header ? row[header] : undefined;
+  };
+  const text = (value: unknown) => String(value ?? '').trim();
+
+  sheet.rows.forEach((row, index) => {
+    const rowNum = index + 2; // Account for header row
+    onRowProcessed?.();
+
+    const name = text(cell(row, 'name'));
+    const product = text(cell(row, 'description'));
+    const sheetBranch = text(cell(row, 'branch'));
+    const qtyRaw = cell(row, 'qty') || 1;
+    const priceRaw = cell(row, 'price') || 0;
+    const discountRaw = cell(row, 'discountPercent') || 0;
+    const amountRaw = cell(row, 'amount') || 0;
+
+    // Skip rows without essential data
+    if (!name && !product && !sheetBranch) {
+      return;
     }
-    
-    const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
-      defval: '',
-      raw: false,
-    }) as any[];
-
-    const errors: string[] = [];
-    const entries: Partial<SalesEntry>[] = [];
-
-    // Get base date from options or use current date
-    const baseDate = options?.dateRangeFrom || new Date();
-    const baseMonth = baseDate.getMonth();
-    const baseYear = baseDate.getFullYear();
-
-    jsonData.forEach((row: any, index: number) => {
-      const rowNum = index + 2; // Account for header row
-      
-      // Map column names based on the actual Excel format (case-insensitive)
-      const name = String(row['Name'] || row['name'] || row['NAME'] || '').trim();
-      const product = String(row['Product'] || row['product'] || row['PRODUCT'] || '').trim();
-      const branch = String(row['Branch'] || row['branch'] || row['BRANCH'] || '').trim();
-      const qtyRaw = row['Quantity'] || row['QTY'] || row['qty'] || row['QUANTITY'] || 1;
-      const priceRaw = row['Price'] || row['price'] || row['PRICE'] || 0;
-      const discountRaw = row['Discount'] || row['Discount %'] || row['discount'] || row['DISCOUNT'] || 0;
-      const amountRaw = row['Amount'] || row['amount'] || row['AMOUNT'] || 0;
-
-      const qtyNum = parseLooseNumber(qtyRaw);
-      const priceNum = parseLooseNumber(priceRaw);
-      const discountNum = parseLooseNumber(discountRaw);
-      const amountNum = parseLooseNumber(amountRaw);
-      const dayValue = row['Date'] || row['date'] || row['DATE'];
-
-      // Parse day number from Date column.
-      // Accepts pure numbers and values that START with a day number (e.g. "9 (EA)").
-      const dayNum = parseDayNumber(dayValue);
-      if (dayNum === null) {
-        if (dayValue !== undefined && dayValue !== null && String(dayValue).trim() !== '') {
-          errors.push(`Row ${rowNum}: Invalid Date value "${String(dayValue).trim()}" (skipped)`);
-        }
-        return;
-      }
-
-      // Create full date using base month/year + day from Excel
-      const entryDate = new Date(baseYear, baseMonth, dayNum);
-      const dateStr = entryDate.toISOString().split('T')[0];
-
-      // Auto-detect category from NAME column (not product) for 2025 format
-      // Example: "2025MCLHB5502009-13" → position 5='M', position 8-9='HB' → "MHB"
-      const category = extractCategoryFromProduct(name);
-
-      // Skip rows without essential data
-      if (!name && !product && !branch) {
-        return;
-      }
-
-      // Validate required fields
-      if (!name) errors.push(`Row ${rowNum}: Missing name`);
-      if (!product) errors.push(`Row ${rowNum}: Missing product`);
-      if (!branch) errors.push(`Row ${rowNum}: Missing branch`);
-
-      if (name && product && branch) {
-        const safeQty = Number.isFinite(qtyNum) && qtyNum > 0 ? Math.round(qtyNum) : 1;
-        const safePrice = Number.isFinite(priceNum) ? priceNum : 0;
-        const safeDiscount = Number.isFinite(discountNum) ? discountNum : 0;
-
-        const computedAmount = Math.round(safePrice * safeQty * (1 - safeDiscount / 100) * 100) / 100;
-        const safeAmount = Number.isFinite(amountNum) && amountNum !== 0 ? amountNum : computedAmount;
-
-        entries.push({
-          id: `import-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 9)}`,
-          date: dateStr,
-          upc: '',
-          name,
-          description: product,
-          qty: safeQty,
-          category,
-          price: safePrice,
-          discountPercent: safeDiscount,
-          amount: safeAmount,
-          branch,
-          createdAt: new Date().toISOString(),
-        });
-      }
+
+    const qtyNum = parseLooseNumber(qtyRaw);
+    const priceNum = parseLooseNumber(priceRaw);
+    const discountNum = parseLooseNumber(discountRaw);
+    const amountNum = parseLooseNumber(amountRaw);
+    const dateValue = cell(row, 'date');
+
+    // Real dates (serial, ISO, MM/DD/YYYY); day numbers like "9 (EA)" only when enabled
+    const parsedDate = parseSheetDate(dateValue, {
+      baseMonth: options?.dateRangeFrom,
+      allowDayOnly: options?.allowDayOnlyDates,
     });
+    const dateStr = parsedDate.date ?? '';
+    const dateError = parsedDate.error;
 
-    return {
-      success: entries.length > 0,
-      data: entries,
-      errors: errors.slice(0, 10),
-    };
-  } catch (error) {
-    console.error('Excel import error:', error);
-    return {
-      success: false,
-      data: [],
-      errors: [`Failed to parse Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`],
+    // A mapped category column wins; otherwise decode it from NAME (not product), e.g. "2025MCLHB5502009-13" → "MHB"
+    const category =
+      text(cell(row, 'category')).toUpperCase() ||
+      extractCategoryFromProduct(name, options?.reference?.categories ?? [], options?.productCodeSchema);
+
+    const safeQty = Number.isFinite(qtyNum) && qtyNum > 0 ? Math.round(qtyNum) : 1;
+    const safePrice = Number.isFinite(priceNum) ? priceNum : 0;
+    const safeDiscount = Number.isFinite(discountNum) ? discountNum : 0;
+
+    const computedAmount = computeAmount(safePrice, safeQty, safeDiscount);
+    const safeAmount = Number.isFinite(amountNum) && amountNum !== 0 ? amountNum : computedAmount;
+
+    const sheetEntry: ImportedSalesEntry = {
+      date: dateStr,
+      upc: text(cell(row, 'upc')),
+      name,
+      description: product,
+      qty: safeQty,
+      category,
+      price: safePrice,
+      discountPercent: safeDiscount,
+      amount: safeAmount,
+      branch: sheetBranch || defaultBranch,
     };
-  }
+    const match = matchProduct?.(sheetEntry) ?? null;
+    const entry = match ? applyProductMatch(sheetEntry, match.product) : sheetEntry;
+
+    const rowErrors = validateImportedEntry(entry, dateWindow, options?.reference);
+    rows.push({
+      sheetName: sheet.sheetName,
+      rowNum,
+      entry,
+      errors: dateError ? rowErrors.map((e) => (e === 'Missing date' ? dateError : e)) : rowErrors,
+      unmatchedProduct: !!matchProduct && !match,
+    });
+  });
+
+  return rows;
 };
 
-const formatExcelDate = (excelDate: any): string => {
-  if (typeof excelDate === 'number') {
-    // Excel date serial number
-    const date = new Date((excelDate - 25569) * 86400 * 1000);
-    return date.toISOString().split('T')[0];
-  }
-  if (typeof excelDate === 'string') {
-    const date = new Date(excelDate);
-    if (!isNaN(date.getTime())) {
-      return date.toISOString().split('T')[0];
-    }
+// Merges the chosen sheets into one import; the mapping is matched to each sheet's headers
+export const buildImportRows = (
+  sheets: ExcelSheetData[],
+  mapping: ColumnMapping,
+  options?: ImportOptions,
+  onProgress?: RowProgressCallback
+): ImportResult => {
+  const rows: ImportRow[] = [];
+  const summaries: SheetImportSummary[] = [];
+  const totalRows = sheets.reduce((sum, sheet) => sum + sheet.rows.length, 0);
+  let processedRows = 0;
+  const matchProduct = options?.products?.length ? createProductMatcher(options.products) : undefined;
+  const handleRowProcessed = () => {
+    processedRows += 1;
+    if (processedRows % PROGRESS_ROW_INTERVAL === 0) onProgress?.(processedRows, totalRows);
+  };
+
+  for (const sheet of sheets) {
+    const sheetRows = buildSheetRows(sheet, resolveMappingHeaders(mapping, sheet.headers), options, handleRowProcessed, matchProduct);
+    rows.push(...sheetRows);
+    summaries.push({
+      sheetName: sheet.sheetName,
+      rowCount: sheetRows.length,
+      errorCount: sheetRows.filter((r) => r.errors.length > 0).length,
+    });
   }
-  return new Date().toISOString().split('T')[0];
+
+  onProgress?.(totalRows, totalRows);
+
+  const multiSheet = sheets.length > 1;
+  const errors = rows.flatMap((r) =>
+    r.errors.map((e) => `${multiSheet ? `${r.sheetName} ` : ''}Row ${r.rowNum}: ${e}`)
+  );
+
+  return {
+    success: rows.length > 0,
+    rows,
+    errors,
+    sheets: summaries,
+  };
 };
 
 export const generateExcelTemplate = () => {
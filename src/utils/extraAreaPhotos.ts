@@ -0,0 +1,11 @@
+export const EXTRA_AREA_PHOTOS_BUCKET = 'extra-area-photos';
+
+// Storage path of a photo from its public URL, or null when the URL isn't from the bucket
+export const getPhotoStoragePath = (url: string): string | null => {
+  try {
+    const pathParts = new URL(url).pathname.split(`/${EXTRA_AREA_PHOTOS_BUCKET}/`);
+    return pathParts.length > 1 ? decodeURIComponent(pathParts[1]) : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,66 @@
+export type OrgRole = 'admin' | 'area_manager' | 'encoder' | 'viewer';
+
+export const ORG_ROLES: OrgRole[] = ['admin', 'area_manager', 'encoder', 'viewer'];
+
+export const ROLE_LABELS: Record<OrgRole, string> = {
+  admin: 'Admin',
+  area_manager: 'Area manager',
+  encoder: 'Branch encoder',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<OrgRole, string> = {
+  admin: 'Full access, including Clear All and managing members.',
+  area_manager: 'Adds, edits and deletes entries for their branches.',
+  encoder: 'Adds, edits and deletes entries for their assigned branches only.',
+  viewer: 'Read-only access to reports for their branches.',
+};
+
+export interface MemberAccess {
+  role: OrgRole;
+  branches: string[];
+}
+
+// Encoders need at least one branch to be able to do anything
+export const isMemberAccessValid = ({ role, branches }: MemberAccess) => role !== 'encoder' || branches.length > 0;
+
+export interface Permissions {
+  role: OrgRole;
+  // Can add, edit or delete anything at all (imports included)
+  canEdit: boolean;
+  canClearAll: boolean;
+  canManageMembers: boolean;
+  // Branches, categories and product code rules are shared by the whole organization
+  canManageReferenceData: boolean;
+  canViewActivity: boolean;
+  // Restoring from the trash follows canWriteBranch; permanent deletion doesn't
+  canPurgeTrash: boolean;
+  canWriteBranch: (branch: string) => boolean;
+  // Branches the member can see and write; null means "all of them"
+  readableBranches: string[] | null;
+  writableBranches: string[] | null;
+}
+
+export const isOrgRole = (value: string | null | undefined): value is OrgRole =>
+  ORG_ROLES.includes(value as OrgRole);
+
+// Mirrors public.can_read_branch() and public.can_write_branch() so the UI only offers what RLS
+// will accept. Admins ignore assigned branches; for other roles an empty list means every branch.
+export const getPermissions = (role: OrgRole, branches: string[] = []): Permissions => {
+  const readableBranches = role === 'admin' || branches.length === 0 ? null : branches;
+  const writableBranches =
+    role === 'admin' || role === 'area_manager' ? readableBranches : role === 'encoder' ? branches : [];
+
+  return {
+    role,
+    canEdit: writableBranches === null || writableBranches.length > 0,
+    canClearAll: role === 'admin',
+    canManageMembers: role === 'admin',
+    canManageReferenceData: role === 'admin',
+    canViewActivity: role === 'admin',
+    canPurgeTrash: role === 'admin',
+    canWriteBranch: (branch) => writableBranches === null || writableBranches.includes(branch),
+    readableBranches,
+    writableBranches,
+  };
+};
@@ -0,0 +1,80 @@
+import { ProductCodePart, ProductCodeParts } from '@/types/sales';
+
+export interface ProductCodeSegment {
+  // 'ignore' skips characters that carry no meaning
+  part: ProductCodePart | 'ignore';
+  // Characters to read; null reads up to the next separator (or the end of the code)
+  length: number | null;
+}
+
+export interface ProductCodeSchema {
+  // Read left to right from the start of the code
+  segments: ProductCodeSegment[];
+  separator: string;
+  // Category stored on entries, built from decoded parts, e.g. "{brand}{category}" -> "MHB"
+  categoryFormat: string;
+}
+
+// 2025 M CL HB 5502009 - 13 -> year, brand, line, category, style, size
+export const DEFAULT_PRODUCT_CODE_SCHEMA: ProductCodeSchema = {
+  segments: [
+    { part: 'year', length: 4 },
+    { part: 'brand', length: 1 },
+    { part: 'line', length: 2 },
+    { part: 'category', length: 2 },
+    { part: 'style', length: null },
+    { part: 'size', length: null },
+  ],
+  separator: '-',
+  categoryFormat: '{brand}{category}',
+};
+
+export const PRODUCT_CODE_PART_LABELS: Record<ProductCodePart, string> = {
+  year: 'Year',
+  brand: 'Brand',
+  line: 'Line',
+  category: 'Category',
+  style: 'Style',
+  size: 'Size',
+  season: 'Season',
+};
+
+// Returns null when the code doesn't follow the schema (too short, or a non-numeric year),
+// so free-text names are never misread as codes
+export const decodeProductCode = (code: string, schema: ProductCodeSchema): ProductCodeParts | null => {
+  const normalized = (code || '').toUpperCase().replace(/\s+/g, '');
+  if (!normalized || schema.segments.length === 0) return null;
+
+  const parts: ProductCodeParts = {};
+  let position = 0;
+
+  for (const segment of schema.segments) {
+    let value: string;
+    if (segment.length && segment.length > 0) {
+      value = normalized.slice(position, position + segment.length);
+      if (value.length < segment.length) return null;
+      position += segment.length;
+    } else {
+      const separatorAt = schema.separator ? normalized.indexOf(schema.separator, position) : -1;
+      const end = separatorAt === -1 ? normalized.length : separatorAt;
+      value = normalized.slice(position, end);
+      position = separatorAt === -1 ? normalized.length : separatorAt + schema.separator.length;
+    }
+
+    if (segment.part !== 'ignore' && value) parts[segment.part] = value;
+  }
+
+  if (parts.year && !/^\d+$/.test(parts.year)) return null;
+  return parts;
+};
+
+// Category only counts when it is a known one; unknown combinations are left for review
+export const formatProductCodeCategory = (
+  parts: ProductCodeParts | null,
+  schema: ProductCodeSchema,
+  allowedCategories: readonly string[]
+): string => {
+  if (!parts) return '';
+  const category = schema.categoryFormat.replace(/\{(\w+)\}/g, (_, part: ProductCodePart) => parts[part] ?? '');
+  return allowedCategories.includes(category) ? category : '';
+};
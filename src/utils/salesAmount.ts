@@ -0,0 +1,20 @@
+// Amount rules shared by manual entry, editing and imports
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// price × qty less the discount, to the centavo
+export const computeAmount = (price: number, qty: number, discountPercent: number) =>
+  roundCents((price || 0) * (qty || 0) * (1 - (discountPercent || 0) / 100));
+
+// The discount implied by a manually entered amount, clamped to 0–100%; null when it can't be derived
+export const discountFromAmount = (price: number, qty: number, amount: number): number | null => {
+  const baseAmount = (price || 0) * (qty || 0);
+  if (baseAmount <= 0 || amount <= 0) return null;
+
+  const discountPercent = ((baseAmount - amount) / baseAmount) * 100;
+  return roundCents(Math.max(0, Math.min(100, discountPercent)));
+};
+
+// A manually entered amount wins; otherwise the computed one
+export const resolveAmount = (amount: number | undefined, price: number, qty: number, discountPercent: number) =>
+  amount && amount > 0 ? amount : computeAmount(price, qty, discountPercent);
@@ -0,0 +1,127 @@
+import { DailySalesSummary, SalesEntry, SalesKpis } from '@/types/sales';
+
+export interface CategoryTotals {
+  category: string;
+  totalAmount: number;
+  soldCount: number;
+  avgPrice: number;
+  avgDiscount: number;
+}
+
+export interface BranchTotals {
+  branch: string;
+  totalAmount: number;
+  totalQty: number;
+  avgPrice: number;
+  avgDiscount: number;
+  dailyBreakdown: { date: string; amount: number; qty: number }[];
+}
+
+// Roll daily summary rows up to one card per category, in the given category order
+export const summarizeByCategory = (rows: DailySalesSummary[], categories: readonly string[]): CategoryTotals[] => {
+  const totals = new Map<string, { totalAmount: number; soldCount: number; totalPrice: number; totalDiscount: number; entryCount: number }>();
+  categories.forEach((cat) => totals.set(cat, { totalAmount: 0, soldCount: 0, totalPrice: 0, totalDiscount: 0, entryCount: 0 }));
+
+  for (const row of rows) {
+    const t = totals.get(row.category);
+    if (!t) continue;
+    t.totalAmount += row.totalAmount;
+    t.soldCount += row.totalQty;
+    t.totalPrice += row.totalPrice;
+    t.totalDiscount += row.totalDiscount;
+    t.entryCount += row.entryCount;
+  }
+
+  return categories.map((cat) => {
+    const t = totals.get(cat)!;
+    return {
+      category: cat,
+      totalAmount: t.totalAmount,
+      soldCount: t.soldCount,
+      avgPrice: t.soldCount > 0 ? t.totalPrice / t.soldCount : 0,
+      avgDiscount: t.entryCount > 0 ? t.totalDiscount / t.entryCount : 0,
+    };
+  });
+};
+
+// Roll daily summary rows up per branch (highest sales first) with a per-day breakdown
+export const summarizeByBranch = (rows: DailySalesSummary[]): BranchTotals[] => {
+  const branchMap = new Map<string, {
+    totalAmount: number;
+    totalQty: number;
+    totalPrice: number;
+    totalDiscount: number;
+    entryCount: number;
+    days: Map<string, { date: string; amount: number; qty: number }>;
+  }>();
+
+  for (const row of rows) {
+    let b = branchMap.get(row.branch);
+    if (!b) {
+      b = { totalAmount: 0, totalQty: 0, totalPrice: 0, totalDiscount: 0, entryCount: 0, days: new Map() };
+      branchMap.set(row.branch, b);
+    }
+    b.totalAmount += row.totalAmount;
+    b.totalQty += row.totalQty;
+    b.totalPrice += row.totalPrice;
+    b.totalDiscount += row.totalDiscount;
+    b.entryCount += row.entryCount;
+
+    const day = b.days.get(row.date);
+    if (day) {
+      day.amount += row.totalAmount;
+      day.qty += row.totalQty;
+    } else {
+      b.days.set(row.date, { date: row.date, amount: row.totalAmount, qty: row.totalQty });
+    }
+  }
+
+  return Array.from(branchMap.entries())
+    .map(([branch, b]) => ({
+      branch,
+      totalAmount: b.totalAmount,
+      totalQty: b.totalQty,
+      avgPrice: b.totalQty > 0 ? b.totalPrice / b.totalQty : 0,
+      avgDiscount: b.entryCount > 0 ? b.totalDiscount / b.entryCount : 0,
+      dailyBreakdown: Array.from(b.days.values()).sort((x, y) => x.date.localeCompare(y.date)),
+    }))
+    .sort((a, b) => b.totalAmount - a.totalAmount);
+};
+
+// Same shape as get_sales_daily_summary, for filters that only exist client-side (e.g. decoded product code parts)
+export const summarizeEntriesByDay = (entries: SalesEntry[]): DailySalesSummary[] => {
+  const rows = new Map<string, DailySalesSummary>();
+
+  for (const entry of entries) {
+    const key = `${entry.date}|${entry.branch}|${entry.category}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        date: entry.date,
+        branch: entry.branch,
+        category: entry.category,
+        totalAmount: 0,
+        totalQty: 0,
+        totalPrice: 0,
+        totalDiscount: 0,
+        entryCount: 0,
+      };
+      rows.set(key, row);
+    }
+    row.totalAmount += entry.amount;
+    row.totalQty += entry.qty;
+    row.totalPrice += entry.price * entry.qty;
+    row.totalDiscount += entry.discountPercent;
+    row.entryCount += 1;
+  }
+
+  return Array.from(rows.values());
+};
+
+// Matches get_sales_kpis: distinct non-empty branches and product names
+export const summarizeEntryKpis = (entries: SalesEntry[]): SalesKpis => ({
+  totalSales: entries.reduce((sum, entry) => sum + entry.amount, 0),
+  totalItemsSold: entries.reduce((sum, entry) => sum + entry.qty, 0),
+  activeBranches: new Set(entries.map((entry) => entry.branch).filter(Boolean)).size,
+  uniqueProducts: new Set(entries.map((entry) => entry.name).filter(Boolean)).size,
+});
@@ -1,11 +1,41 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Long enough to mean "until re-enabled"
+const DISABLED_BAN_DURATION = "876000h";
+
+type Action = "list" | "create" | "disable" | "enable" | "set_password";
+
+interface RequestBody {
+  action?: Action;
+  orgId?: string;
+  userId?: string;
+  email?: string;
+  password?: string;
+  role?: string;
+  branches?: string[];
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Members whose password and sign-in this organization may change: accounts it created that
+// belong to no other organization
+const getManagedAccountIds = async (supabaseAdmin: SupabaseClient, orgId: string) => {
+  const { data, error } = await supabaseAdmin.rpc("managed_account_ids", { p_org_id: orgId });
+
+  if (error) throw error;
+  return new Set<string>(data ?? []);
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -13,8 +43,9 @@ serve(async (req) => {
   }
 
   try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
     const supabaseAdmin = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
+      supabaseUrl,
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
       {
         auth: {
@@ -24,38 +55,175 @@ serve(async (req) => {
       }
     );
 
-    const { email, password } = await req.json();
+    // Verify the caller's JWT before doing anything with the service role
+    const authHeader = req.headers.get("Authorization") ?? "";
+    const token = authHeader.replace(/^Bearer\s+/i, "");
+    const { data: caller, error: callerError } = token
+      ? await supabaseAdmin.auth.getUser(token)
+      : { data: { user: null }, error: null };
 
-    if (!email || !password) {
-      return new Response(
-        JSON.stringify({ error: "Email and password are required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (callerError || !caller.user) {
+      return json({ error: "Not authenticated" }, 401);
+    }
+
+    const body: RequestBody = await req.json();
+    const { action, orgId } = body;
+
+    if (!action || !orgId) {
+      return json({ error: "Action and organization are required" }, 400);
     }
 
-    // Create user with admin client
-    const { data, error } = await supabaseAdmin.auth.admin.createUser({
-      email,
-      password,
-      email_confirm: true,
+    // Acts as the caller so the role check and membership changes go through RLS
+    const callerClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+      global: { headers: { Authorization: authHeader } },
+      auth: { autoRefreshToken: false, persistSession: false },
     });
 
-    if (error) {
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    const { data: role, error: roleError } = await callerClient.rpc("org_role", { p_org_id: orgId });
+    if (roleError) throw roleError;
+
+    if (role !== "admin") {
+      return json({ error: "Only admins can manage users" }, 403);
+    }
+
+    if (action === "list") {
+      const { data: members, error: membersError } = await supabaseAdmin
+        .from("organization_members")
+        .select("id, user_id, role, branches, created_at")
+        .eq("org_id", orgId)
+        .order("created_at", { ascending: true });
+
+      if (membersError) throw membersError;
+
+      const managedIds = await getManagedAccountIds(supabaseAdmin, orgId);
+      const users = await Promise.all(
+        (members ?? []).map(async (member) => {
+          const { data } = await supabaseAdmin.auth.admin.getUserById(member.user_id);
+          const user = data?.user;
+          return {
+            memberId: member.id,
+            userId: member.user_id,
+            email: user?.email ?? null,
+            role: member.role,
+            branches: member.branches,
+            joinedAt: member.created_at,
+            lastSignInAt: user?.last_sign_in_at ?? null,
+            disabled: !!user?.banned_until && new Date(user.banned_until) > new Date(),
+            managed: managedIds.has(member.user_id),
+          };
+        })
       );
+
+      return json({ users });
     }
 
-    return new Response(
-      JSON.stringify({ success: true, user: data.user }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    if (action === "create") {
+      const email = body.email?.trim();
+      if (!email) {
+        return json({ error: "Email is required" }, 400);
+      }
+
+      const role = body.role ?? "viewer";
+      const branches = role === "admin" ? [] : body.branches ?? [];
+
+      // With a password the account is usable right away; otherwise the user gets an invite email
+      const { data: created, error: createError } = body.password
+        ? await supabaseAdmin.auth.admin.createUser({ email, password: body.password, email_confirm: true })
+        : await supabaseAdmin.auth.admin.inviteUserByEmail(email, {
+            redirectTo: `${req.headers.get("origin") ?? ""}/reset-password`,
+          });
+
+      if (createError) {
+        if (!/already (been )?registered|already exists/i.test(createError.message)) {
+          return json({ error: createError.message }, 400);
+        }
+
+        // Existing accounts are left alone; their owner joins by accepting an invitation
+        const { error: inviteError } = await callerClient.rpc("invite_organization_member", {
+          p_org_id: orgId,
+          p_email: email,
+          p_role: role,
+          p_branches: branches,
+        });
+
+        if (inviteError) {
+          return json({ error: inviteError.message }, 400);
+        }
+
+        return json({ success: true, invited: false, existingAccount: true });
+      }
+
+      // The account is brand new, so it joins right away and stays managed by this organization
+      const userId = created.user.id;
+      const { error: memberError } = await supabaseAdmin
+        .from("organization_members")
+        .insert({ org_id: orgId, user_id: userId, role, branches });
+
+      if (memberError) {
+        await supabaseAdmin.auth.admin.deleteUser(userId);
+        return json({ error: memberError.message }, 400);
+      }
+
+      const { error: managedError } = await supabaseAdmin
+        .from("organization_managed_accounts")
+        .insert({ user_id: userId, org_id: orgId });
+
+      if (managedError) {
+        await supabaseAdmin.auth.admin.deleteUser(userId);
+        throw managedError;
+      }
+
+      return json({ success: true, userId, invited: !body.password, existingAccount: false });
+    }
+
+    const { userId } = body;
+    if (!userId) {
+      return json({ error: "User is required" }, 400);
+    }
+
+    if (userId === caller.user.id) {
+      return json({ error: "You can't change your own account here" }, 400);
+    }
+
+    if (!(await getManagedAccountIds(supabaseAdmin, orgId)).has(userId)) {
+      return json(
+        {
+          error:
+            "Only accounts created by this organization that belong to no other organization can be changed here. Send a password reset link instead.",
+        },
+        403
+      );
+    }
+
+    if (action === "disable" || action === "enable") {
+      const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+        ban_duration: action === "disable" ? DISABLED_BAN_DURATION : "none",
+      });
+
+      if (error) {
+        return json({ error: error.message }, 400);
+      }
+
+      return json({ success: true });
+    }
+
+    if (action === "set_password") {
+      if (!body.password || body.password.length < 6) {
+        return json({ error: "Password must be at least 6 characters" }, 400);
+      }
+
+      const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, { password: body.password });
+
+      if (error) {
+        return json({ error: error.message }, 400);
+      }
+
+      return json({ success: true });
+    }
+
+    return json({ error: `Unknown action "${action}"` }, 400);
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return json({ error: errorMessage }, 500);
   }
 });
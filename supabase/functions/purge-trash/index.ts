@@ -0,0 +1,129 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PHOTOS_BUCKET = "extra-area-photos";
+
+interface RequestBody {
+  orgId?: string;
+  table?: string;
+  ids?: string[];
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Storage path of a photo from its public URL, or null when the URL isn't from the bucket
+const getPhotoStoragePath = (url: string): string | null => {
+  try {
+    const pathParts = new URL(url).pathname.split(`/${PHOTOS_BUCKET}/`);
+    return pathParts.length > 1 ? decodeURIComponent(pathParts[1]) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Permanently deletes records from the trash, then the photos of purged extra area reports. The
+// records go through purge_records as the caller, which checks they are an admin; the photos are
+// removed with the service role because older ones sit under their uploader's folder.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const supabaseAdmin = createClient(
+      supabaseUrl,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const authHeader = req.headers.get("Authorization") ?? "";
+    const token = authHeader.replace(/^Bearer\s+/i, "");
+    const { data: caller, error: callerError } = token
+      ? await supabaseAdmin.auth.getUser(token)
+      : { data: { user: null }, error: null };
+
+    if (callerError || !caller.user) {
+      return json({ error: "Not authenticated" }, 401);
+    }
+
+    const { orgId, table, ids }: RequestBody = await req.json();
+    if (!orgId || !table || !ids?.length) {
+      return json({ error: "Organization, table and records are required" }, 400);
+    }
+
+    const callerClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+      global: { headers: { Authorization: authHeader } },
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    // Read before purging: the rows are gone afterwards
+    let photoPaths: string[] = [];
+    if (table === "extra_area_entries") {
+      const { data: entries, error: entriesError } = await supabaseAdmin
+        .from("extra_area_entries")
+        .select("photos_approved_boss, photos_loi, photos_msas")
+        .eq("org_id", orgId)
+        .in("id", ids)
+        .not("deleted_at", "is", null);
+
+      if (entriesError) throw entriesError;
+
+      photoPaths = (entries ?? [])
+        .flatMap((entry) => [
+          ...(entry.photos_approved_boss ?? []),
+          ...(entry.photos_loi ?? []),
+          ...(entry.photos_msas ?? []),
+        ])
+        .map(getPhotoStoragePath)
+        .filter((path): path is string => !!path);
+    }
+
+    const { data: purged, error: purgeError } = await callerClient.rpc("purge_records", {
+      p_org_id: orgId,
+      p_table: table,
+      p_ids: ids,
+    });
+
+    if (purgeError) {
+      return json({ error: purgeError.message }, 400);
+    }
+
+    // A report restored in the meantime keeps its photos
+    const inUse = await Promise.all(
+      photoPaths.map(async (path) => {
+        const { data, error } = await supabaseAdmin.rpc("is_extra_area_photo_in_use", { p_name: path });
+        if (error) throw error;
+        return data === true;
+      })
+    );
+    const unusedPaths = photoPaths.filter((_, index) => !inUse[index]);
+
+    if (unusedPaths.length > 0) {
+      const { error: storageError } = await supabaseAdmin.storage.from(PHOTOS_BUCKET).remove(unusedPaths);
+      if (storageError) {
+        return json({ error: `Records were deleted, but their photos weren't: ${storageError.message}` }, 500);
+      }
+    }
+
+    return json({ success: true, purged });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return json({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,153 @@
+-- Aggregate RPCs for Sales History / Collection History
+-- All functions run as the caller (SECURITY INVOKER) so sales_entries RLS still applies.
+
+-- Index for month-window queries filtered by category
+CREATE INDEX IF NOT EXISTS idx_sales_entries_date_category ON public.sales_entries(date, category);
+
+-- Daily totals per branch and category
+CREATE OR REPLACE FUNCTION public.get_sales_daily_summary(
+  p_from DATE,
+  p_to DATE,
+  p_categories TEXT[] DEFAULT NULL,
+  p_branch TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  sale_date DATE,
+  branch TEXT,
+  category TEXT,
+  total_amount NUMERIC,
+  total_qty BIGINT,
+  total_price NUMERIC,
+  total_discount NUMERIC,
+  entry_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    se.date AS sale_date,
+    se.branch,
+    se.category,
+    SUM(se.amount) AS total_amount,
+    SUM(se.qty)::BIGINT AS total_qty,
+    SUM(se.price * se.qty) AS total_price,
+    SUM(se.discount_percent) AS total_discount,
+    COUNT(*) AS entry_count
+  FROM public.sales_entries se
+  WHERE se.date BETWEEN p_from AND p_to
+    AND (p_categories IS NULL OR se.category = ANY(p_categories))
+    AND (p_branch IS NULL OR se.branch = p_branch)
+    AND (
+      p_search IS NULL
+      OR se.name ILIKE '%' || p_search || '%'
+      OR se.upc ILIKE '%' || p_search || '%'
+      OR se.description ILIKE '%' || p_search || '%'
+    )
+  GROUP BY se.date, se.branch, se.category
+  ORDER BY se.date;
+$$;
+
+-- Totals per item code (UPC) with a per-branch breakdown, highest qty first
+CREATE OR REPLACE FUNCTION public.get_sales_item_summary(
+  p_from DATE,
+  p_to DATE,
+  p_categories TEXT[] DEFAULT NULL,
+  p_branch TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  upc TEXT,
+  name TEXT,
+  description TEXT,
+  category TEXT,
+  total_amount NUMERIC,
+  total_qty BIGINT,
+  total_price NUMERIC,
+  total_discount NUMERIC,
+  entry_count BIGINT,
+  branches JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT se.*
+    FROM public.sales_entries se
+    WHERE se.date BETWEEN p_from AND p_to
+      AND (p_categories IS NULL OR se.category = ANY(p_categories))
+      AND (p_branch IS NULL OR se.branch = p_branch)
+      AND (
+        p_search IS NULL
+        OR se.name ILIKE '%' || p_search || '%'
+        OR se.upc ILIKE '%' || p_search || '%'
+        OR se.description ILIKE '%' || p_search || '%'
+      )
+  ),
+  per_branch AS (
+    SELECT
+      f.upc,
+      jsonb_agg(
+        jsonb_build_object('branch', f.branch, 'qty', f.qty, 'amount', f.amount)
+        ORDER BY f.qty DESC
+      ) AS branches
+    FROM (
+      SELECT upc, branch, SUM(qty) AS qty, SUM(amount) AS amount
+      FROM filtered
+      GROUP BY upc, branch
+    ) f
+    GROUP BY f.upc
+  )
+  SELECT
+    f.upc,
+    MAX(f.name) AS name,
+    MAX(f.description) AS description,
+    MAX(f.category) AS category,
+    SUM(f.amount) AS total_amount,
+    SUM(f.qty)::BIGINT AS total_qty,
+    SUM(f.price * f.qty) AS total_price,
+    SUM(f.discount_percent) AS total_discount,
+    COUNT(*) AS entry_count,
+    pb.branches
+  FROM filtered f
+  JOIN per_branch pb ON pb.upc = f.upc
+  GROUP BY f.upc, pb.branches
+  ORDER BY total_qty DESC;
+$$;
+
+-- Headline KPIs for the window
+CREATE OR REPLACE FUNCTION public.get_sales_kpis(
+  p_from DATE,
+  p_to DATE,
+  p_categories TEXT[] DEFAULT NULL,
+  p_branch TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  total_amount NUMERIC,
+  total_qty BIGINT,
+  branch_count BIGINT,
+  product_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(SUM(se.amount), 0) AS total_amount,
+    COALESCE(SUM(se.qty), 0)::BIGINT AS total_qty,
+    COUNT(DISTINCT NULLIF(se.branch, '')) AS branch_count,
+    COUNT(DISTINCT NULLIF(se.name, '')) AS product_count
+  FROM public.sales_entries se
+  WHERE se.date BETWEEN p_from AND p_to
+    AND (p_categories IS NULL OR se.category = ANY(p_categories))
+    AND (p_branch IS NULL OR se.branch = p_branch)
+    AND (
+      p_search IS NULL
+      OR se.name ILIKE '%' || p_search || '%'
+      OR se.upc ILIKE '%' || p_search || '%'
+      OR se.description ILIKE '%' || p_search || '%'
+    );
+$$;
@@ -0,0 +1,93 @@
+-- Natural key for sales entries so re-imported DSR rows can be detected
+-- Key = date | branch | name | product | qty | amount (text normalised, amount to 2dp)
+
+CREATE OR REPLACE FUNCTION public.sales_entry_key(
+  p_date DATE,
+  p_branch TEXT,
+  p_name TEXT,
+  p_description TEXT,
+  p_qty INTEGER,
+  p_amount NUMERIC
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT concat_ws('|',
+    to_char(p_date, 'YYYY-MM-DD'),
+    upper(btrim(COALESCE(p_branch, ''))),
+    upper(btrim(COALESCE(p_name, ''))),
+    upper(btrim(COALESCE(p_description, ''))),
+    COALESCE(p_qty, 0)::TEXT,
+    round(COALESCE(p_amount, 0), 2)::TEXT
+  );
+$$;
+
+-- Not unique: "append" is an explicit import option, so the same key may legitimately repeat
+ALTER TABLE public.sales_entries ADD COLUMN entry_key TEXT;
+
+UPDATE public.sales_entries
+SET entry_key = public.sales_entry_key(date, branch, name, description, qty, amount);
+
+ALTER TABLE public.sales_entries ALTER COLUMN entry_key SET NOT NULL;
+
+CREATE INDEX idx_sales_entries_user_entry_key ON public.sales_entries(user_id, entry_key);
+
+-- Keep the key in sync on insert/update
+CREATE OR REPLACE FUNCTION public.set_sales_entry_key()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.entry_key = public.sales_entry_key(NEW.date, NEW.branch, NEW.name, NEW.description, NEW.qty, NEW.amount);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_sales_entries_entry_key
+BEFORE INSERT OR UPDATE ON public.sales_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.set_sales_entry_key();
+
+-- Match incoming rows against what is already stored.
+-- p_rows is a JSON array of {date, branch, name, description, qty, amount}.
+-- Duplicates are paired one-to-one: if a file has the same key three times and
+-- two are stored, only the first two incoming rows are reported as existing.
+CREATE OR REPLACE FUNCTION public.find_existing_sales_entries(p_rows JSONB)
+RETURNS TABLE (
+  row_index INTEGER,
+  entry_id UUID
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH incoming AS (
+    SELECT
+      (r.ordinality - 1)::INTEGER AS row_index,
+      public.sales_entry_key(
+        NULLIF(r.value->>'date', '')::DATE,
+        r.value->>'branch',
+        r.value->>'name',
+        r.value->>'description',
+        COALESCE(NULLIF(r.value->>'qty', '')::NUMERIC, 0)::INTEGER,
+        COALESCE(NULLIF(r.value->>'amount', '')::NUMERIC, 0)
+      ) AS entry_key
+    FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(value, ordinality)
+  ),
+  numbered_incoming AS (
+    SELECT row_index, entry_key,
+      row_number() OVER (PARTITION BY entry_key ORDER BY row_index) AS occurrence
+    FROM incoming
+  ),
+  numbered_existing AS (
+    SELECT se.id, se.entry_key,
+      row_number() OVER (PARTITION BY se.entry_key ORDER BY se.created_at, se.id) AS occurrence
+    FROM public.sales_entries se
+    WHERE se.entry_key IN (SELECT entry_key FROM incoming)
+  )
+  SELECT ni.row_index, ne.id AS entry_id
+  FROM numbered_incoming ni
+  JOIN numbered_existing ne
+    ON ne.entry_key = ni.entry_key AND ne.occurrence = ni.occurrence
+  ORDER BY ni.row_index;
+$$;
@@ -0,0 +1,43 @@
+-- Import batches: one record per uploaded DSR file so a whole upload can be rolled back
+CREATE TABLE public.import_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  file_name TEXT NOT NULL,
+  uploaded_by TEXT,
+  month TEXT NOT NULL,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  total_qty INTEGER NOT NULL DEFAULT 0,
+  total_amount NUMERIC(14,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import batches"
+  ON public.import_batches
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own import batches"
+  ON public.import_batches
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own import batches"
+  ON public.import_batches
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own import batches"
+  ON public.import_batches
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_import_batches_user_created ON public.import_batches(user_id, created_at DESC);
+
+-- Rows keep a link to the upload they came from; deleting the batch rolls the rows back.
+-- Manually added entries have no batch.
+ALTER TABLE public.sales_entries
+  ADD COLUMN import_batch_id UUID REFERENCES public.import_batches(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_sales_entries_import_batch_id ON public.sales_entries(import_batch_id);
@@ -0,0 +1,160 @@
+-- All-or-nothing imports: rows are uploaded to a staging table in chunks, then
+-- promote_import_batch validates and moves them into sales_entries in one transaction.
+
+ALTER TABLE public.import_batches
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'completed'
+  CHECK (status IN ('pending', 'completed'));
+
+-- Loosely typed on purpose so bad values reach validation instead of failing the upload
+CREATE TABLE public.sales_import_staging (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_id UUID REFERENCES public.import_batches(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  row_index INTEGER NOT NULL,
+  date TEXT,
+  upc TEXT,
+  name TEXT,
+  description TEXT,
+  qty NUMERIC,
+  category TEXT,
+  price NUMERIC,
+  discount_percent NUMERIC,
+  amount NUMERIC,
+  branch TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (batch_id, row_index)
+);
+
+ALTER TABLE public.sales_import_staging ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own staged rows"
+  ON public.sales_import_staging
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own staged rows"
+  ON public.sales_import_staging
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own staged rows"
+  ON public.sales_import_staging
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- NULL instead of an exception for values like '2026-02-30'
+CREATE OR REPLACE FUNCTION public.try_parse_date(p_value TEXT)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_value IS NULL OR p_value !~ '^\d{4}-\d{2}-\d{2}$' THEN
+    RETURN NULL;
+  END IF;
+  RETURN p_value::DATE;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+-- Returns one row per problem. If anything is returned nothing was written;
+-- an empty result means every staged row is now in sales_entries.
+CREATE OR REPLACE FUNCTION public.promote_import_batch(
+  p_batch_id UUID,
+  p_replace_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  row_index INTEGER,
+  message TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.import_batches%ROWTYPE;
+BEGIN
+  SELECT * INTO v_batch
+  FROM public.import_batches
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found', p_batch_id;
+  END IF;
+
+  IF v_batch.status <> 'pending' THEN
+    RAISE EXCEPTION 'Import batch % has already been promoted', p_batch_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT s.row_index, problem.message
+  FROM public.sales_import_staging s
+  CROSS JOIN LATERAL (
+    VALUES
+      (CASE WHEN NULLIF(btrim(s.date), '') IS NULL THEN 'Missing date' END),
+      (CASE WHEN NULLIF(btrim(s.date), '') IS NOT NULL AND public.try_parse_date(s.date) IS NULL
+        THEN format('Invalid date "%s"', s.date) END),
+      (CASE WHEN NULLIF(btrim(s.name), '') IS NULL THEN 'Missing name' END),
+      (CASE WHEN NULLIF(btrim(s.description), '') IS NULL THEN 'Missing product' END),
+      (CASE WHEN NULLIF(btrim(s.branch), '') IS NULL THEN 'Missing branch' END),
+      (CASE WHEN s.upc IS NULL THEN 'Missing UPC' END),
+      (CASE WHEN s.qty IS NULL OR s.qty <> trunc(s.qty) THEN 'Quantity must be a whole number' END),
+      (CASE WHEN abs(COALESCE(s.amount, 0)) >= 10000000000 THEN 'Amount is out of range' END),
+      (CASE WHEN abs(COALESCE(s.price, 0)) >= 10000000000 THEN 'Price is out of range' END),
+      (CASE WHEN abs(COALESCE(s.discount_percent, 0)) >= 1000 THEN 'Discount is out of range' END)
+  ) AS problem(message)
+  WHERE s.batch_id = p_batch_id
+    AND problem.message IS NOT NULL
+  ORDER BY s.row_index;
+
+  -- Validation failed: leave everything untouched
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_replace_ids IS NOT NULL THEN
+    DELETE FROM public.sales_entries WHERE id = ANY(p_replace_ids);
+  END IF;
+
+  INSERT INTO public.sales_entries (
+    user_id, date, upc, name, description, qty, category,
+    price, discount_percent, amount, branch, import_batch_id
+  )
+  SELECT
+    v_batch.user_id,
+    public.try_parse_date(s.date),
+    s.upc,
+    btrim(s.name),
+    s.description,
+    s.qty::INTEGER,
+    COALESCE(s.category, ''),
+    COALESCE(s.price, 0),
+    COALESCE(s.discount_percent, 0),
+    COALESCE(s.amount, 0),
+    btrim(s.branch),
+    p_batch_id
+  FROM public.sales_import_staging s
+  WHERE s.batch_id = p_batch_id
+  ORDER BY s.row_index;
+
+  UPDATE public.import_batches b
+  SET
+    status = 'completed',
+    row_count = totals.row_count,
+    total_qty = totals.total_qty,
+    total_amount = totals.total_amount
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS row_count,
+      COALESCE(SUM(s.qty), 0)::INTEGER AS total_qty,
+      COALESCE(SUM(s.amount), 0) AS total_amount
+    FROM public.sales_import_staging s
+    WHERE s.batch_id = p_batch_id
+  ) totals
+  WHERE b.id = p_batch_id;
+
+  DELETE FROM public.sales_import_staging WHERE batch_id = p_batch_id;
+END;
+$$;
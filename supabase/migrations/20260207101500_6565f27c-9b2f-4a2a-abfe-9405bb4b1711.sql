@@ -0,0 +1,50 @@
+-- Saved Excel column mappings, one or more per branch POS export format
+CREATE TABLE public.import_column_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  branch TEXT NOT NULL DEFAULT '',
+  -- { "<SalesEntry field>": "<sheet header>" }
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Full header row of the sheet the profile was saved from, used for auto-selection
+  headers TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.import_column_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own column profiles"
+  ON public.import_column_profiles
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own column profiles"
+  ON public.import_column_profiles
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own column profiles"
+  ON public.import_column_profiles
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own column profiles"
+  ON public.import_column_profiles
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_import_column_profiles_user_id ON public.import_column_profiles(user_id);
+
+CREATE OR REPLACE FUNCTION public.update_import_column_profiles_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_import_column_profiles_updated_at
+BEFORE UPDATE ON public.import_column_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_import_column_profiles_updated_at();
@@ -0,0 +1,4 @@
+-- Some POS exports only carry a day number in the Date column; the profile records that
+-- so those files are combined with the chosen import month instead of being rejected.
+ALTER TABLE public.import_column_profiles
+  ADD COLUMN day_only_dates BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,51 @@
+-- Product master (previously kept per browser in localStorage under "collection-items")
+CREATE TABLE public.collection_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  upc TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  category TEXT NOT NULL DEFAULT '',
+  price NUMERIC(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- UPC lookups in manual entry expect one product per barcode
+  UNIQUE (user_id, upc)
+);
+
+ALTER TABLE public.collection_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own collection items"
+  ON public.collection_items
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own collection items"
+  ON public.collection_items
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own collection items"
+  ON public.collection_items
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own collection items"
+  ON public.collection_items
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_collection_items_user_id ON public.collection_items(user_id);
+
+CREATE OR REPLACE FUNCTION public.update_collection_items_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_collection_items_updated_at
+BEFORE UPDATE ON public.collection_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_collection_items_updated_at();
@@ -0,0 +1,46 @@
+-- Rules for decoding product codes (year, brand, line, category, style, size, season); one per user
+CREATE TABLE public.product_code_schemas (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  -- [{ "part": "year", "length": 4 }, { "part": "style", "length": null }, ...]
+  segments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  separator TEXT NOT NULL DEFAULT '-',
+  category_format TEXT NOT NULL DEFAULT '{brand}{category}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.product_code_schemas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own product code schema"
+  ON public.product_code_schemas
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own product code schema"
+  ON public.product_code_schemas
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own product code schema"
+  ON public.product_code_schemas
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own product code schema"
+  ON public.product_code_schemas
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.update_product_code_schemas_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_product_code_schemas_updated_at
+BEFORE UPDATE ON public.product_code_schemas
+FOR EACH ROW
+EXECUTE FUNCTION public.update_product_code_schemas_updated_at();
@@ -0,0 +1,285 @@
+-- Managed branch and category lists, replacing the constants in the app
+
+CREATE TABLE public.branches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- Stored on entries as text; renaming a code updates the rows that use it
+  code TEXT NOT NULL,
+  name TEXT NOT NULL DEFAULT '',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, code),
+  CHECK (code = upper(btrim(code)) AND code <> '')
+);
+
+ALTER TABLE public.branches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own branches"
+  ON public.branches
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own branches"
+  ON public.branches
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own branches"
+  ON public.branches
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own branches"
+  ON public.branches
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.update_branches_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_branches_updated_at
+BEFORE UPDATE ON public.branches
+FOR EACH ROW
+EXECUTE FUNCTION public.update_branches_updated_at();
+
+CREATE TABLE public.categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- Stored on entries as text; renaming a code updates the rows that use it
+  code TEXT NOT NULL,
+  name TEXT NOT NULL DEFAULT '',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, code),
+  CHECK (code = upper(btrim(code)) AND code <> '')
+);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own categories"
+  ON public.categories
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own categories"
+  ON public.categories
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own categories"
+  ON public.categories
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own categories"
+  ON public.categories
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.update_categories_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_categories_updated_at
+BEFORE UPDATE ON public.categories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_categories_updated_at();
+
+-- Renaming a code carries over to every row that references it
+CREATE OR REPLACE FUNCTION public.rename_branch_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.sales_entries SET branch = NEW.code WHERE user_id = NEW.user_id AND branch = OLD.code;
+  UPDATE public.extra_area_entries SET branch = NEW.code WHERE user_id = NEW.user_id AND branch = OLD.code;
+  UPDATE public.branch_calendar_tasks SET branch = NEW.code WHERE user_id = NEW.user_id AND branch = OLD.code;
+  UPDATE public.import_column_profiles SET branch = NEW.code WHERE user_id = NEW.user_id AND branch = OLD.code;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rename_branch_code
+AFTER UPDATE OF code ON public.branches
+FOR EACH ROW
+WHEN (OLD.code IS DISTINCT FROM NEW.code)
+EXECUTE FUNCTION public.rename_branch_code();
+
+CREATE OR REPLACE FUNCTION public.rename_category_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.sales_entries SET category = NEW.code WHERE user_id = NEW.user_id AND category = OLD.code;
+  UPDATE public.extra_area_entries SET category = NEW.code WHERE user_id = NEW.user_id AND category = OLD.code;
+  UPDATE public.collection_items SET category = NEW.code WHERE user_id = NEW.user_id AND category = OLD.code;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rename_category_code
+AFTER UPDATE OF code ON public.categories
+FOR EACH ROW
+WHEN (OLD.code IS DISTINCT FROM NEW.code)
+EXECUTE FUNCTION public.rename_category_code();
+
+-- Seed the former constants for existing users and for every new sign-up
+CREATE OR REPLACE FUNCTION public.seed_reference_data(p_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.branches (user_id, code, name, sort_order)
+  SELECT p_user_id, seed.code, seed.code, seed.sort_order
+  FROM (VALUES ('MHB', 1), ('MLP', 2), ('MSH', 3), ('MUM', 4), ('MQC', 5)) AS seed(code, sort_order)
+  ON CONFLICT (user_id, code) DO NOTHING;
+
+  INSERT INTO public.categories (user_id, code, name, sort_order)
+  SELECT p_user_id, seed.code, seed.code, seed.sort_order
+  FROM (VALUES ('MHB', 1), ('MLP', 2), ('MSH', 3), ('MUM', 4)) AS seed(code, sort_order)
+  ON CONFLICT (user_id, code) DO NOTHING;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.seed_reference_data(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user_reference_data()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.seed_reference_data(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created_seed_reference_data
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_user_reference_data();
+
+SELECT public.seed_reference_data(id) FROM auth.users;
+
+-- Same as before, plus branch and category must be active reference data
+CREATE OR REPLACE FUNCTION public.promote_import_batch(
+  p_batch_id UUID,
+  p_replace_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  row_index INTEGER,
+  message TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.import_batches%ROWTYPE;
+BEGIN
+  SELECT * INTO v_batch
+  FROM public.import_batches
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found', p_batch_id;
+  END IF;
+
+  IF v_batch.status <> 'pending' THEN
+    RAISE EXCEPTION 'Import batch % has already been promoted', p_batch_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT s.row_index, problem.message
+  FROM public.sales_import_staging s
+  CROSS JOIN LATERAL (
+    VALUES
+      (CASE WHEN NULLIF(btrim(s.date), '') IS NULL THEN 'Missing date' END),
+      (CASE WHEN NULLIF(btrim(s.date), '') IS NOT NULL AND public.try_parse_date(s.date) IS NULL
+        THEN format('Invalid date "%s"', s.date) END),
+      (CASE WHEN NULLIF(btrim(s.name), '') IS NULL THEN 'Missing name' END),
+      (CASE WHEN NULLIF(btrim(s.description), '') IS NULL THEN 'Missing product' END),
+      (CASE WHEN NULLIF(btrim(s.branch), '') IS NULL THEN 'Missing branch' END),
+      (CASE WHEN NULLIF(btrim(s.branch), '') IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.branches b
+        WHERE b.user_id = v_batch.user_id AND b.code = btrim(s.branch) AND b.is_active
+      ) THEN format('Unknown branch "%s"', btrim(s.branch)) END),
+      (CASE WHEN NULLIF(btrim(s.category), '') IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.categories c
+        WHERE c.user_id = v_batch.user_id AND c.code = btrim(s.category) AND c.is_active
+      ) THEN format('Unknown category "%s"', btrim(s.category)) END),
+      (CASE WHEN s.upc IS NULL THEN 'Missing UPC' END),
+      (CASE WHEN s.qty IS NULL OR s.qty <> trunc(s.qty) THEN 'Quantity must be a whole number' END),
+      (CASE WHEN abs(COALESCE(s.amount, 0)) >= 10000000000 THEN 'Amount is out of range' END),
+      (CASE WHEN abs(COALESCE(s.price, 0)) >= 10000000000 THEN 'Price is out of range' END),
+      (CASE WHEN abs(COALESCE(s.discount_percent, 0)) >= 1000 THEN 'Discount is out of range' END)
+  ) AS problem(message)
+  WHERE s.batch_id = p_batch_id
+    AND problem.message IS NOT NULL
+  ORDER BY s.row_index;
+
+  -- Validation failed: leave everything untouched
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_replace_ids IS NOT NULL THEN
+    DELETE FROM public.sales_entries WHERE id = ANY(p_replace_ids);
+  END IF;
+
+  INSERT INTO public.sales_entries (
+    user_id, date, upc, name, description, qty, category,
+    price, discount_percent, amount, branch, import_batch_id
+  )
+  SELECT
+    v_batch.user_id,
+    public.try_parse_date(s.date),
+    s.upc,
+    btrim(s.name),
+    s.description,
+    s.qty::INTEGER,
+    COALESCE(s.category, ''),
+    COALESCE(s.price, 0),
+    COALESCE(s.discount_percent, 0),
+    COALESCE(s.amount, 0),
+    btrim(s.branch),
+    p_batch_id
+  FROM public.sales_import_staging s
+  WHERE s.batch_id = p_batch_id
+  ORDER BY s.row_index;
+
+  UPDATE public.import_batches b
+  SET
+    status = 'completed',
+    row_count = totals.row_count,
+    total_qty = totals.total_qty,
+    total_amount = totals.total_amount
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS row_count,
+      COALESCE(SUM(s.qty), 0)::INTEGER AS total_qty,
+      COALESCE(SUM(s.amount), 0) AS total_amount
+    FROM public.sales_import_staging s
+    WHERE s.batch_id = p_batch_id
+  ) totals
+  WHERE b.id = p_batch_id;
+
+  DELETE FROM public.sales_import_staging WHERE batch_id = p_batch_id;
+END;
+$$;
@@ -0,0 +1,64 @@
+-- Extra area sales per category, replacing the fixed sales_mhb..sales_mum columns
+CREATE TABLE public.extra_area_sales (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entry_id UUID NOT NULL REFERENCES public.extra_area_entries(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  category TEXT NOT NULL,
+  amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (entry_id, category)
+);
+
+ALTER TABLE public.extra_area_sales ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own extra area sales"
+  ON public.extra_area_sales
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own extra area sales"
+  ON public.extra_area_sales
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own extra area sales"
+  ON public.extra_area_sales
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own extra area sales"
+  ON public.extra_area_sales
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_extra_area_sales_entry ON public.extra_area_sales(entry_id);
+
+-- Carry existing amounts over; zero amounts were never entered, so they are not kept
+INSERT INTO public.extra_area_sales (entry_id, user_id, category, amount)
+SELECT e.id, e.user_id, s.category, s.amount
+FROM public.extra_area_entries e
+CROSS JOIN LATERAL (
+  VALUES ('MHB', e.sales_mhb), ('MLP', e.sales_mlp), ('MSH', e.sales_msh), ('MUM', e.sales_mum)
+) AS s(category, amount)
+WHERE s.amount <> 0;
+
+ALTER TABLE public.extra_area_entries
+  DROP COLUMN sales_mhb,
+  DROP COLUMN sales_mlp,
+  DROP COLUMN sales_msh,
+  DROP COLUMN sales_mum;
+
+-- Category renames now also reach the per-category sales rows
+CREATE OR REPLACE FUNCTION public.rename_category_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.sales_entries SET category = NEW.code WHERE user_id = NEW.user_id AND category = OLD.code;
+  UPDATE public.extra_area_entries SET category = NEW.code WHERE user_id = NEW.user_id AND category = OLD.code;
+  UPDATE public.extra_area_sales SET category = NEW.code WHERE user_id = NEW.user_id AND category = OLD.code;
+  UPDATE public.collection_items SET category = NEW.code WHERE user_id = NEW.user_id AND category = OLD.code;
+  RETURN NEW;
+END;
+$$;
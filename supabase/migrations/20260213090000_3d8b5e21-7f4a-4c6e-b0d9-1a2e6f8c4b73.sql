@@ -0,0 +1,650 @@
+-- Organizations: workspaces whose members share DSR, extra area and calendar data
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.organization_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (org_id, user_id)
+);
+
+CREATE INDEX idx_organization_members_user_id ON public.organization_members(user_id);
+
+-- Membership check used by RLS. SECURITY DEFINER so policies on organization_members
+-- can call it without recursing into themselves.
+CREATE OR REPLACE FUNCTION public.is_org_member(p_org_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.org_id = p_org_id AND m.user_id = auth.uid()
+  );
+$$;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organizations"
+  ON public.organizations
+  FOR SELECT
+  USING (public.is_org_member(id));
+
+CREATE POLICY "Members can update their organizations"
+  ON public.organizations
+  FOR UPDATE
+  USING (public.is_org_member(id));
+
+CREATE POLICY "Members can view their organization's members"
+  ON public.organization_members
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+CREATE POLICY "Users can leave organizations"
+  ON public.organization_members
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.update_organizations_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_organizations_updated_at();
+
+-- Creates an organization with the caller as its first member
+CREATE OR REPLACE FUNCTION public.create_organization(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (btrim(p_name), auth.uid())
+  RETURNING id INTO v_org_id;
+
+  INSERT INTO public.organization_members (org_id, user_id)
+  VALUES (v_org_id, auth.uid());
+
+  RETURN v_org_id;
+END;
+$$;
+
+-- Adds an existing user to an organization the caller belongs to
+CREATE OR REPLACE FUNCTION public.add_organization_member(p_org_id UUID, p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF NOT public.is_org_member(p_org_id) THEN
+    RAISE EXCEPTION 'You are not a member of this organization';
+  END IF;
+
+  SELECT id INTO v_user_id
+  FROM auth.users
+  WHERE lower(email) = lower(btrim(p_email));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No account found for %', btrim(p_email);
+  END IF;
+
+  INSERT INTO public.organization_members (org_id, user_id)
+  VALUES (p_org_id, v_user_id)
+  ON CONFLICT (org_id, user_id) DO NOTHING;
+
+  RETURN v_user_id;
+END;
+$$;
+
+-- Every user starts with a personal organization
+CREATE OR REPLACE FUNCTION public.create_personal_organization(p_user_id UUID, p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+BEGIN
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (COALESCE(NULLIF(split_part(p_email, '@', 1), ''), 'My') || '''s workspace', p_user_id)
+  RETURNING id INTO v_org_id;
+
+  INSERT INTO public.organization_members (org_id, user_id)
+  VALUES (v_org_id, p_user_id);
+
+  RETURN v_org_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_personal_organization(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.create_personal_organization(NEW.id, NEW.email);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created_organization
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_user_organization();
+
+-- org_id on shared tables; existing rows move into their owner's personal organization
+ALTER TABLE public.sales_entries ADD COLUMN org_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.extra_area_entries ADD COLUMN org_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.extra_area_sales ADD COLUMN org_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.branch_calendar_tasks ADD COLUMN org_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+-- Imports remember which organization their rows are promoted into
+ALTER TABLE public.import_batches ADD COLUMN org_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+DO $$
+DECLARE
+  v_user RECORD;
+  v_org_id UUID;
+BEGIN
+  FOR v_user IN SELECT id, email FROM auth.users LOOP
+    v_org_id := public.create_personal_organization(v_user.id, v_user.email);
+
+    UPDATE public.sales_entries SET org_id = v_org_id WHERE user_id = v_user.id;
+    UPDATE public.extra_area_entries SET org_id = v_org_id WHERE user_id = v_user.id;
+    UPDATE public.extra_area_sales SET org_id = v_org_id WHERE user_id = v_user.id;
+    UPDATE public.branch_calendar_tasks SET org_id = v_org_id WHERE user_id = v_user.id;
+    UPDATE public.import_batches SET org_id = v_org_id WHERE user_id = v_user.id;
+  END LOOP;
+END;
+$$;
+
+-- Calendar tasks were created without a user foreign key; rows of deleted users have no organization
+DELETE FROM public.branch_calendar_tasks WHERE org_id IS NULL;
+
+ALTER TABLE public.sales_entries ALTER COLUMN org_id SET NOT NULL;
+ALTER TABLE public.extra_area_entries ALTER COLUMN org_id SET NOT NULL;
+ALTER TABLE public.extra_area_sales ALTER COLUMN org_id SET NOT NULL;
+ALTER TABLE public.branch_calendar_tasks ALTER COLUMN org_id SET NOT NULL;
+ALTER TABLE public.import_batches ALTER COLUMN org_id SET NOT NULL;
+
+CREATE INDEX idx_sales_entries_org_date ON public.sales_entries(org_id, date);
+CREATE INDEX idx_sales_entries_org_entry_key ON public.sales_entries(org_id, entry_key);
+CREATE INDEX idx_extra_area_org_date ON public.extra_area_entries(org_id, entry_date);
+CREATE INDEX idx_branch_calendar_tasks_org_date ON public.branch_calendar_tasks(org_id, task_date);
+
+-- RLS: members see and edit everything in their organizations; rows are still stamped with their author
+DROP POLICY "Users can view their own sales entries" ON public.sales_entries;
+DROP POLICY "Users can insert their own sales entries" ON public.sales_entries;
+DROP POLICY "Users can update their own sales entries" ON public.sales_entries;
+DROP POLICY "Users can delete their own sales entries" ON public.sales_entries;
+
+CREATE POLICY "Members can view their organization's sales entries"
+  ON public.sales_entries
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+CREATE POLICY "Members can insert their organization's sales entries"
+  ON public.sales_entries
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.is_org_member(org_id));
+
+CREATE POLICY "Members can update their organization's sales entries"
+  ON public.sales_entries
+  FOR UPDATE
+  USING (public.is_org_member(org_id))
+  WITH CHECK (public.is_org_member(org_id));
+
+CREATE POLICY "Members can delete their organization's sales entries"
+  ON public.sales_entries
+  FOR DELETE
+  USING (public.is_org_member(org_id));
+
+DROP POLICY "Users can view their own extra area entries" ON public.extra_area_entries;
+DROP POLICY "Users can insert their own extra area entries" ON public.extra_area_entries;
+DROP POLICY "Users can update their own extra area entries" ON public.extra_area_entries;
+DROP POLICY "Users can delete their own extra area entries" ON public.extra_area_entries;
+
+CREATE POLICY "Members can view their organization's extra area entries"
+  ON public.extra_area_entries
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+CREATE POLICY "Members can insert their organization's extra area entries"
+  ON public.extra_area_entries
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.is_org_member(org_id));
+
+CREATE POLICY "Members can update their organization's extra area entries"
+  ON public.extra_area_entries
+  FOR UPDATE
+  USING (public.is_org_member(org_id))
+  WITH CHECK (public.is_org_member(org_id));
+
+CREATE POLICY "Members can delete their organization's extra area entries"
+  ON public.extra_area_entries
+  FOR DELETE
+  USING (public.is_org_member(org_id));
+
+DROP POLICY "Users can view their own extra area sales" ON public.extra_area_sales;
+DROP POLICY "Users can insert their own extra area sales" ON public.extra_area_sales;
+DROP POLICY "Users can update their own extra area sales" ON public.extra_area_sales;
+DROP POLICY "Users can delete their own extra area sales" ON public.extra_area_sales;
+
+CREATE POLICY "Members can view their organization's extra area sales"
+  ON public.extra_area_sales
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+CREATE POLICY "Members can insert their organization's extra area sales"
+  ON public.extra_area_sales
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.is_org_member(org_id));
+
+CREATE POLICY "Members can update their organization's extra area sales"
+  ON public.extra_area_sales
+  FOR UPDATE
+  USING (public.is_org_member(org_id))
+  WITH CHECK (public.is_org_member(org_id));
+
+CREATE POLICY "Members can delete their organization's extra area sales"
+  ON public.extra_area_sales
+  FOR DELETE
+  USING (public.is_org_member(org_id));
+
+DROP POLICY "Users can view their own calendar tasks" ON public.branch_calendar_tasks;
+DROP POLICY "Users can create their own calendar tasks" ON public.branch_calendar_tasks;
+DROP POLICY "Users can update their own calendar tasks" ON public.branch_calendar_tasks;
+DROP POLICY "Users can delete their own calendar tasks" ON public.branch_calendar_tasks;
+
+CREATE POLICY "Members can view their organization's calendar tasks"
+  ON public.branch_calendar_tasks
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+CREATE POLICY "Members can create their organization's calendar tasks"
+  ON public.branch_calendar_tasks
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.is_org_member(org_id));
+
+CREATE POLICY "Members can update their organization's calendar tasks"
+  ON public.branch_calendar_tasks
+  FOR UPDATE
+  USING (public.is_org_member(org_id))
+  WITH CHECK (public.is_org_member(org_id));
+
+CREATE POLICY "Members can delete their organization's calendar tasks"
+  ON public.branch_calendar_tasks
+  FOR DELETE
+  USING (public.is_org_member(org_id));
+
+-- New photos are stored under <org_id>/; the per-user policies stay for photos uploaded before
+CREATE POLICY "Members can upload their organization's extra area photos"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'extra-area-photos'
+    AND (storage.foldername(name))[1] IN (
+      SELECT m.org_id::text FROM public.organization_members m WHERE m.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Members can update their organization's extra area photos"
+  ON storage.objects
+  FOR UPDATE
+  USING (
+    bucket_id = 'extra-area-photos'
+    AND (storage.foldername(name))[1] IN (
+      SELECT m.org_id::text FROM public.organization_members m WHERE m.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Members can delete their organization's extra area photos"
+  ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'extra-area-photos'
+    AND (storage.foldername(name))[1] IN (
+      SELECT m.org_id::text FROM public.organization_members m WHERE m.user_id = auth.uid()
+    )
+  );
+
+-- Aggregates and duplicate matching take the organization to read from, since a member of
+-- several organizations can see all of their rows
+DROP FUNCTION public.get_sales_daily_summary(DATE, DATE, TEXT[], TEXT, TEXT);
+DROP FUNCTION public.get_sales_item_summary(DATE, DATE, TEXT[], TEXT, TEXT);
+DROP FUNCTION public.get_sales_kpis(DATE, DATE, TEXT[], TEXT, TEXT);
+DROP FUNCTION public.find_existing_sales_entries(JSONB);
+
+CREATE OR REPLACE FUNCTION public.get_sales_daily_summary(
+  p_org_id UUID,
+  p_from DATE,
+  p_to DATE,
+  p_categories TEXT[] DEFAULT NULL,
+  p_branch TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  sale_date DATE,
+  branch TEXT,
+  category TEXT,
+  total_amount NUMERIC,
+  total_qty BIGINT,
+  total_price NUMERIC,
+  total_discount NUMERIC,
+  entry_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    se.date AS sale_date,
+    se.branch,
+    se.category,
+    SUM(se.amount) AS total_amount,
+    SUM(se.qty)::BIGINT AS total_qty,
+    SUM(se.price * se.qty) AS total_price,
+    SUM(se.discount_percent) AS total_discount,
+    COUNT(*) AS entry_count
+  FROM public.sales_entries se
+  WHERE se.org_id = p_org_id
+    AND se.date BETWEEN p_from AND p_to
+    AND (p_categories IS NULL OR se.category = ANY(p_categories))
+    AND (p_branch IS NULL OR se.branch = p_branch)
+    AND (
+      p_search IS NULL
+      OR se.name ILIKE '%' || p_search || '%'
+      OR se.upc ILIKE '%' || p_search || '%'
+      OR se.description ILIKE '%' || p_search || '%'
+    )
+  GROUP BY se.date, se.branch, se.category
+  ORDER BY se.date;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_sales_item_summary(
+  p_org_id UUID,
+  p_from DATE,
+  p_to DATE,
+  p_categories TEXT[] DEFAULT NULL,
+  p_branch TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  upc TEXT,
+  name TEXT,
+  description TEXT,
+  category TEXT,
+  total_amount NUMERIC,
+  total_qty BIGINT,
+  total_price NUMERIC,
+  total_discount NUMERIC,
+  entry_count BIGINT,
+  branches JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT se.*
+    FROM public.sales_entries se
+    WHERE se.org_id = p_org_id
+      AND se.date BETWEEN p_from AND p_to
+      AND (p_categories IS NULL OR se.category = ANY(p_categories))
+      AND (p_branch IS NULL OR se.branch = p_branch)
+      AND (
+        p_search IS NULL
+        OR se.name ILIKE '%' || p_search || '%'
+        OR se.upc ILIKE '%' || p_search || '%'
+        OR se.description ILIKE '%' || p_search || '%'
+      )
+  ),
+  per_branch AS (
+    SELECT
+      f.upc,
+      jsonb_agg(
+        jsonb_build_object('branch', f.branch, 'qty', f.qty, 'amount', f.amount)
+        ORDER BY f.qty DESC
+      ) AS branches
+    FROM (
+      SELECT upc, branch, SUM(qty) AS qty, SUM(amount) AS amount
+      FROM filtered
+      GROUP BY upc, branch
+    ) f
+    GROUP BY f.upc
+  )
+  SELECT
+    f.upc,
+    MAX(f.name) AS name,
+    MAX(f.description) AS description,
+    MAX(f.category) AS category,
+    SUM(f.amount) AS total_amount,
+    SUM(f.qty)::BIGINT AS total_qty,
+    SUM(f.price * f.qty) AS total_price,
+    SUM(f.discount_percent) AS total_discount,
+    COUNT(*) AS entry_count,
+    pb.branches
+  FROM filtered f
+  JOIN per_branch pb ON pb.upc = f.upc
+  GROUP BY f.upc, pb.branches
+  ORDER BY total_qty DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_sales_kpis(
+  p_org_id UUID,
+  p_from DATE,
+  p_to DATE,
+  p_categories TEXT[] DEFAULT NULL,
+  p_branch TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  total_amount NUMERIC,
+  total_qty BIGINT,
+  branch_count BIGINT,
+  product_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(SUM(se.amount), 0) AS total_amount,
+    COALESCE(SUM(se.qty), 0)::BIGINT AS total_qty,
+    COUNT(DISTINCT NULLIF(se.branch, '')) AS branch_count,
+    COUNT(DISTINCT NULLIF(se.name, '')) AS product_count
+  FROM public.sales_entries se
+  WHERE se.org_id = p_org_id
+    AND se.date BETWEEN p_from AND p_to
+    AND (p_categories IS NULL OR se.category = ANY(p_categories))
+    AND (p_branch IS NULL OR se.branch = p_branch)
+    AND (
+      p_search IS NULL
+      OR se.name ILIKE '%' || p_search || '%'
+      OR se.upc ILIKE '%' || p_search || '%'
+      OR se.description ILIKE '%' || p_search || '%'
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.find_existing_sales_entries(p_org_id UUID, p_rows JSONB)
+RETURNS TABLE (
+  row_index INTEGER,
+  entry_id UUID
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH incoming AS (
+    SELECT
+      (r.ordinality - 1)::INTEGER AS row_index,
+      public.sales_entry_key(
+        NULLIF(r.value->>'date', '')::DATE,
+        r.value->>'branch',
+        r.value->>'name',
+        r.value->>'description',
+        COALESCE(NULLIF(r.value->>'qty', '')::NUMERIC, 0)::INTEGER,
+        COALESCE(NULLIF(r.value->>'amount', '')::NUMERIC, 0)
+      ) AS entry_key
+    FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(value, ordinality)
+  ),
+  numbered_incoming AS (
+    SELECT row_index, entry_key,
+      row_number() OVER (PARTITION BY entry_key ORDER BY row_index) AS occurrence
+    FROM incoming
+  ),
+  numbered_existing AS (
+    SELECT se.id, se.entry_key,
+      row_number() OVER (PARTITION BY se.entry_key ORDER BY se.created_at, se.id) AS occurrence
+    FROM public.sales_entries se
+    WHERE se.org_id = p_org_id
+      AND se.entry_key IN (SELECT entry_key FROM incoming)
+  )
+  SELECT ni.row_index, ne.id AS entry_id
+  FROM numbered_incoming ni
+  JOIN numbered_existing ne
+    ON ne.entry_key = ni.entry_key AND ne.occurrence = ni.occurrence
+  ORDER BY ni.row_index;
+$$;
+
+-- Same as before, but rows land in (and replacements are limited to) the batch's organization
+CREATE OR REPLACE FUNCTION public.promote_import_batch(
+  p_batch_id UUID,
+  p_replace_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  row_index INTEGER,
+  message TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.import_batches%ROWTYPE;
+BEGIN
+  SELECT * INTO v_batch
+  FROM public.import_batches
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found', p_batch_id;
+  END IF;
+
+  IF v_batch.status <> 'pending' THEN
+    RAISE EXCEPTION 'Import batch % has already been promoted', p_batch_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT s.row_index, problem.message
+  FROM public.sales_import_staging s
+  CROSS JOIN LATERAL (
+    VALUES
+      (CASE WHEN NULLIF(btrim(s.date), '') IS NULL THEN 'Missing date' END),
+      (CASE WHEN NULLIF(btrim(s.date), '') IS NOT NULL AND public.try_parse_date(s.date) IS NULL
+        THEN format('Invalid date "%s"', s.date) END),
+      (CASE WHEN NULLIF(btrim(s.name), '') IS NULL THEN 'Missing name' END),
+      (CASE WHEN NULLIF(btrim(s.description), '') IS NULL THEN 'Missing product' END),
+      (CASE WHEN NULLIF(btrim(s.branch), '') IS NULL THEN 'Missing branch' END),
+      (CASE WHEN NULLIF(btrim(s.branch), '') IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.branches b
+        WHERE b.user_id = v_batch.user_id AND b.code = btrim(s.branch) AND b.is_active
+      ) THEN format('Unknown branch "%s"', btrim(s.branch)) END),
+      (CASE WHEN NULLIF(btrim(s.category), '') IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.categories c
+        WHERE c.user_id = v_batch.user_id AND c.code = btrim(s.category) AND c.is_active
+      ) THEN format('Unknown category "%s"', btrim(s.category)) END),
+      (CASE WHEN s.upc IS NULL THEN 'Missing UPC' END),
+      (CASE WHEN s.qty IS NULL OR s.qty <> trunc(s.qty) THEN 'Quantity must be a whole number' END),
+      (CASE WHEN abs(COALESCE(s.amount, 0)) >= 10000000000 THEN 'Amount is out of range' END),
+      (CASE WHEN abs(COALESCE(s.price, 0)) >= 10000000000 THEN 'Price is out of range' END),
+      (CASE WHEN abs(COALESCE(s.discount_percent, 0)) >= 1000 THEN 'Discount is out of range' END)
+  ) AS problem(message)
+  WHERE s.batch_id = p_batch_id
+    AND problem.message IS NOT NULL
+  ORDER BY s.row_index;
+
+  -- Validation failed: leave everything untouched
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_replace_ids IS NOT NULL THEN
+    DELETE FROM public.sales_entries
+    WHERE id = ANY(p_replace_ids) AND org_id = v_batch.org_id;
+  END IF;
+
+  INSERT INTO public.sales_entries (
+    user_id, org_id, date, upc, name, description, qty, category,
+    price, discount_percent, amount, branch, import_batch_id
+  )
+  SELECT
+    v_batch.user_id,
+    v_batch.org_id,
+    public.try_parse_date(s.date),
+    s.upc,
+    btrim(s.name),
+    s.description,
+    s.qty::INTEGER,
+    COALESCE(s.category, ''),
+    COALESCE(s.price, 0),
+    COALESCE(s.discount_percent, 0),
+    COALESCE(s.amount, 0),
+    btrim(s.branch),
+    p_batch_id
+  FROM public.sales_import_staging s
+  WHERE s.batch_id = p_batch_id
+  ORDER BY s.row_index;
+
+  UPDATE public.import_batches b
+  SET
+    status = 'completed',
+    row_count = totals.row_count,
+    total_qty = totals.total_qty,
+    total_amount = totals.total_amount
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS row_count,
+      COALESCE(SUM(s.qty), 0)::INTEGER AS total_qty,
+      COALESCE(SUM(s.amount), 0) AS total_amount
+    FROM public.sales_import_staging s
+    WHERE s.batch_id = p_batch_id
+  ) totals
+  WHERE b.id = p_batch_id;
+
+  DELETE FROM public.sales_import_staging WHERE batch_id = p_batch_id;
+END;
+$$;
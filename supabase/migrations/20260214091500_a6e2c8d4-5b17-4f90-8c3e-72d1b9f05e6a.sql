@@ -0,0 +1,394 @@
+-- Roles per organization member:
+--   admin         everything, including clearing data and managing members
+--   area_manager  adds, edits and deletes entries for any branch
+--   encoder       adds, edits and deletes entries for the branches assigned to them
+--   viewer        read-only
+ALTER TABLE public.organization_members
+  ADD COLUMN role TEXT NOT NULL DEFAULT 'viewer'
+    CHECK (role IN ('admin', 'area_manager', 'encoder', 'viewer')),
+  ADD COLUMN branches TEXT[] NOT NULL DEFAULT '{}';
+
+-- Organization creators run their organization; members added so far keep write access
+UPDATE public.organization_members m
+SET role = CASE WHEN o.created_by = m.user_id THEN 'admin' ELSE 'area_manager' END
+FROM public.organizations o
+WHERE o.id = m.org_id;
+
+CREATE OR REPLACE FUNCTION public.org_role(p_org_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.role FROM public.organization_members m
+  WHERE m.org_id = p_org_id AND m.user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_write_branch(p_org_id UUID, p_branch TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.org_id = p_org_id
+      AND m.user_id = auth.uid()
+      AND (
+        m.role IN ('admin', 'area_manager')
+        OR (m.role = 'encoder' AND p_branch = ANY(m.branches))
+      )
+  );
+$$;
+
+-- Admins can't demote the last admin of an organization
+CREATE OR REPLACE FUNCTION public.ensure_org_has_admin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'admin' AND NEW.role <> 'admin' AND NOT EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.org_id = OLD.org_id AND m.role = 'admin' AND m.id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'An organization needs at least one admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ensure_org_has_admin
+BEFORE UPDATE OF role ON public.organization_members
+FOR EACH ROW
+EXECUTE FUNCTION public.ensure_org_has_admin();
+
+CREATE POLICY "Admins can update their organization's members"
+  ON public.organization_members
+  FOR UPDATE
+  USING (public.org_role(org_id) = 'admin')
+  WITH CHECK (public.org_role(org_id) = 'admin');
+
+CREATE POLICY "Admins can remove their organization's members"
+  ON public.organization_members
+  FOR DELETE
+  USING (public.org_role(org_id) = 'admin');
+
+DROP POLICY "Members can update their organizations" ON public.organizations;
+
+CREATE POLICY "Admins can update their organizations"
+  ON public.organizations
+  FOR UPDATE
+  USING (public.org_role(id) = 'admin');
+
+-- Creators and personal workspaces start as admin
+CREATE OR REPLACE FUNCTION public.create_organization(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (btrim(p_name), auth.uid())
+  RETURNING id INTO v_org_id;
+
+  INSERT INTO public.organization_members (org_id, user_id, role)
+  VALUES (v_org_id, auth.uid(), 'admin');
+
+  RETURN v_org_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_personal_organization(p_user_id UUID, p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+BEGIN
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (COALESCE(NULLIF(split_part(p_email, '@', 1), ''), 'My') || '''s workspace', p_user_id)
+  RETURNING id INTO v_org_id;
+
+  INSERT INTO public.organization_members (org_id, user_id, role)
+  VALUES (v_org_id, p_user_id, 'admin');
+
+  RETURN v_org_id;
+END;
+$$;
+
+-- Only admins add members, and they choose the role up front
+DROP FUNCTION public.add_organization_member(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.add_organization_member(
+  p_org_id UUID,
+  p_email TEXT,
+  p_role TEXT DEFAULT 'viewer',
+  p_branches TEXT[] DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF public.org_role(p_org_id) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can add members';
+  END IF;
+
+  SELECT id INTO v_user_id
+  FROM auth.users
+  WHERE lower(email) = lower(btrim(p_email));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No account found for %', btrim(p_email);
+  END IF;
+
+  INSERT INTO public.organization_members (org_id, user_id, role, branches)
+  VALUES (p_org_id, v_user_id, p_role, COALESCE(p_branches, '{}'))
+  ON CONFLICT (org_id, user_id) DO NOTHING;
+
+  RETURN v_user_id;
+END;
+$$;
+
+-- Write policies follow the member's role; reads are unchanged
+DROP POLICY "Members can insert their organization's sales entries" ON public.sales_entries;
+DROP POLICY "Members can update their organization's sales entries" ON public.sales_entries;
+DROP POLICY "Members can delete their organization's sales entries" ON public.sales_entries;
+
+CREATE POLICY "Writers can insert their organization's sales entries"
+  ON public.sales_entries
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_write_branch(org_id, branch));
+
+CREATE POLICY "Writers can update their organization's sales entries"
+  ON public.sales_entries
+  FOR UPDATE
+  USING (public.can_write_branch(org_id, branch))
+  WITH CHECK (public.can_write_branch(org_id, branch));
+
+CREATE POLICY "Writers can delete their organization's sales entries"
+  ON public.sales_entries
+  FOR DELETE
+  USING (public.can_write_branch(org_id, branch));
+
+DROP POLICY "Members can insert their organization's extra area entries" ON public.extra_area_entries;
+DROP POLICY "Members can update their organization's extra area entries" ON public.extra_area_entries;
+DROP POLICY "Members can delete their organization's extra area entries" ON public.extra_area_entries;
+
+CREATE POLICY "Writers can insert their organization's extra area entries"
+  ON public.extra_area_entries
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_write_branch(org_id, branch));
+
+CREATE POLICY "Writers can update their organization's extra area entries"
+  ON public.extra_area_entries
+  FOR UPDATE
+  USING (public.can_write_branch(org_id, branch))
+  WITH CHECK (public.can_write_branch(org_id, branch));
+
+CREATE POLICY "Writers can delete their organization's extra area entries"
+  ON public.extra_area_entries
+  FOR DELETE
+  USING (public.can_write_branch(org_id, branch));
+
+-- Sales rows follow the branch of the entry they belong to
+DROP POLICY "Members can insert their organization's extra area sales" ON public.extra_area_sales;
+DROP POLICY "Members can update their organization's extra area sales" ON public.extra_area_sales;
+DROP POLICY "Members can delete their organization's extra area sales" ON public.extra_area_sales;
+
+CREATE POLICY "Writers can insert their organization's extra area sales"
+  ON public.extra_area_sales
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.can_write_branch(org_id, (SELECT e.branch FROM public.extra_area_entries e WHERE e.id = entry_id))
+  );
+
+CREATE POLICY "Writers can update their organization's extra area sales"
+  ON public.extra_area_sales
+  FOR UPDATE
+  USING (public.can_write_branch(org_id, (SELECT e.branch FROM public.extra_area_entries e WHERE e.id = entry_id)));
+
+CREATE POLICY "Writers can delete their organization's extra area sales"
+  ON public.extra_area_sales
+  FOR DELETE
+  USING (public.can_write_branch(org_id, (SELECT e.branch FROM public.extra_area_entries e WHERE e.id = entry_id)));
+
+DROP POLICY "Members can create their organization's calendar tasks" ON public.branch_calendar_tasks;
+DROP POLICY "Members can update their organization's calendar tasks" ON public.branch_calendar_tasks;
+DROP POLICY "Members can delete their organization's calendar tasks" ON public.branch_calendar_tasks;
+
+CREATE POLICY "Writers can create their organization's calendar tasks"
+  ON public.branch_calendar_tasks
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_write_branch(org_id, branch));
+
+CREATE POLICY "Writers can update their organization's calendar tasks"
+  ON public.branch_calendar_tasks
+  FOR UPDATE
+  USING (public.can_write_branch(org_id, branch))
+  WITH CHECK (public.can_write_branch(org_id, branch));
+
+CREATE POLICY "Writers can delete their organization's calendar tasks"
+  ON public.branch_calendar_tasks
+  FOR DELETE
+  USING (public.can_write_branch(org_id, branch));
+
+-- Viewers can't start imports into an organization
+DROP POLICY "Users can insert their own import batches" ON public.import_batches;
+
+CREATE POLICY "Writers can insert their own import batches"
+  ON public.import_batches
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.org_role(org_id) IN ('admin', 'area_manager', 'encoder')
+  );
+
+-- Clearing an organization's sales is reserved for admins
+CREATE OR REPLACE FUNCTION public.clear_sales_entries(p_org_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  IF public.org_role(p_org_id) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can clear all entries';
+  END IF;
+
+  DELETE FROM public.sales_entries WHERE org_id = p_org_id;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+-- Same as before, plus rows for branches the importer can't write are reported instead of
+-- failing the whole insert on RLS
+CREATE OR REPLACE FUNCTION public.promote_import_batch(
+  p_batch_id UUID,
+  p_replace_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  row_index INTEGER,
+  message TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.import_batches%ROWTYPE;
+BEGIN
+  SELECT * INTO v_batch
+  FROM public.import_batches
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found', p_batch_id;
+  END IF;
+
+  IF v_batch.status <> 'pending' THEN
+    RAISE EXCEPTION 'Import batch % has already been promoted', p_batch_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT s.row_index, problem.message
+  FROM public.sales_import_staging s
+  CROSS JOIN LATERAL (
+    VALUES
+      (CASE WHEN NULLIF(btrim(s.date), '') IS NULL THEN 'Missing date' END),
+      (CASE WHEN NULLIF(btrim(s.date), '') IS NOT NULL AND public.try_parse_date(s.date) IS NULL
+        THEN format('Invalid date "%s"', s.date) END),
+      (CASE WHEN NULLIF(btrim(s.name), '') IS NULL THEN 'Missing name' END),
+      (CASE WHEN NULLIF(btrim(s.description), '') IS NULL THEN 'Missing product' END),
+      (CASE WHEN NULLIF(btrim(s.branch), '') IS NULL THEN 'Missing branch' END),
+      (CASE WHEN NULLIF(btrim(s.branch), '') IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.branches b
+        WHERE b.user_id = v_batch.user_id AND b.code = btrim(s.branch) AND b.is_active
+      ) THEN format('Unknown branch "%s"', btrim(s.branch)) END),
+      (CASE WHEN NULLIF(btrim(s.branch), '') IS NOT NULL
+        AND NOT public.can_write_branch(v_batch.org_id, btrim(s.branch))
+        THEN format('You can''t add entries for branch "%s"', btrim(s.branch)) END),
+      (CASE WHEN NULLIF(btrim(s.category), '') IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.categories c
+        WHERE c.user_id = v_batch.user_id AND c.code = btrim(s.category) AND c.is_active
+      ) THEN format('Unknown category "%s"', btrim(s.category)) END),
+      (CASE WHEN s.upc IS NULL THEN 'Missing UPC' END),
+      (CASE WHEN s.qty IS NULL OR s.qty <> trunc(s.qty) THEN 'Quantity must be a whole number' END),
+      (CASE WHEN abs(COALESCE(s.amount, 0)) >= 10000000000 THEN 'Amount is out of range' END),
+      (CASE WHEN abs(COALESCE(s.price, 0)) >= 10000000000 THEN 'Price is out of range' END),
+      (CASE WHEN abs(COALESCE(s.discount_percent, 0)) >= 1000 THEN 'Discount is out of range' END)
+  ) AS problem(message)
+  WHERE s.batch_id = p_batch_id
+    AND problem.message IS NOT NULL
+  ORDER BY s.row_index;
+
+  -- Validation failed: leave everything untouched
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_replace_ids IS NOT NULL THEN
+    DELETE FROM public.sales_entries
+    WHERE id = ANY(p_replace_ids) AND org_id = v_batch.org_id;
+  END IF;
+
+  INSERT INTO public.sales_entries (
+    user_id, org_id, date, upc, name, description, qty, category,
+    price, discount_percent, amount, branch, import_batch_id
+  )
+  SELECT
+    v_batch.user_id,
+    v_batch.org_id,
+    public.try_parse_date(s.date),
+    s.upc,
+    btrim(s.name),
+    s.description,
+    s.qty::INTEGER,
+    COALESCE(s.category, ''),
+    COALESCE(s.price, 0),
+    COALESCE(s.discount_percent, 0),
+    COALESCE(s.amount, 0),
+    btrim(s.branch),
+    p_batch_id
+  FROM public.sales_import_staging s
+  WHERE s.batch_id = p_batch_id
+  ORDER BY s.row_index;
+
+  UPDATE public.import_batches b
+  SET
+    status = 'completed',
+    row_count = totals.row_count,
+    total_qty = totals.total_qty,
+    total_amount = totals.total_amount
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS row_count,
+      COALESCE(SUM(s.qty), 0)::INTEGER AS total_qty,
+      COALESCE(SUM(s.amount), 0) AS total_amount
+    FROM public.sales_import_staging s
+    WHERE s.batch_id = p_batch_id
+  ) totals
+  WHERE b.id = p_batch_id;
+
+  DELETE FROM public.sales_import_staging WHERE batch_id = p_batch_id;
+END;
+$$;
@@ -0,0 +1,69 @@
+-- Branch-scoped members: organization_members.branches now limits what a member sees as well as
+-- what an encoder writes. Admins always see every branch; for everyone else an empty list means
+-- every branch.
+CREATE OR REPLACE FUNCTION public.can_read_branch(p_org_id UUID, p_branch TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.org_id = p_org_id
+      AND m.user_id = auth.uid()
+      AND (
+        m.role = 'admin'
+        OR cardinality(m.branches) = 0
+        OR p_branch = ANY(m.branches)
+      )
+  );
+$$;
+
+-- Area managers assigned to branches only write those branches
+CREATE OR REPLACE FUNCTION public.can_write_branch(p_org_id UUID, p_branch TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.org_id = p_org_id
+      AND m.user_id = auth.uid()
+      AND (
+        m.role = 'admin'
+        OR (m.role = 'area_manager' AND (cardinality(m.branches) = 0 OR p_branch = ANY(m.branches)))
+        OR (m.role = 'encoder' AND p_branch = ANY(m.branches))
+      )
+  );
+$$;
+
+DROP POLICY "Members can view their organization's sales entries" ON public.sales_entries;
+
+CREATE POLICY "Members can view their branches' sales entries"
+  ON public.sales_entries
+  FOR SELECT
+  USING (public.can_read_branch(org_id, branch));
+
+DROP POLICY "Members can view their organization's extra area entries" ON public.extra_area_entries;
+
+CREATE POLICY "Members can view their branches' extra area entries"
+  ON public.extra_area_entries
+  FOR SELECT
+  USING (public.can_read_branch(org_id, branch));
+
+DROP POLICY "Members can view their organization's extra area sales" ON public.extra_area_sales;
+
+CREATE POLICY "Members can view their branches' extra area sales"
+  ON public.extra_area_sales
+  FOR SELECT
+  USING (public.can_read_branch(org_id, (SELECT e.branch FROM public.extra_area_entries e WHERE e.id = entry_id)));
+
+DROP POLICY "Members can view their organization's calendar tasks" ON public.branch_calendar_tasks;
+
+CREATE POLICY "Members can view their branches' calendar tasks"
+  ON public.branch_calendar_tasks
+  FOR SELECT
+  USING (public.can_read_branch(org_id, branch));
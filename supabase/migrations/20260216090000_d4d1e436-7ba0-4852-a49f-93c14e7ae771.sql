@@ -0,0 +1,89 @@
+-- Audit trail: one row per insert, update or delete on organization data, written by triggers so
+-- every path (the app, imports, rollbacks, cascades, RPCs) is covered
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- No foreign key: rows outlive the organization and are written while it is being deleted
+  org_id UUID,
+  table_name TEXT NOT NULL,
+  row_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  old_data JSONB,
+  new_data JSONB,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Kept alongside user_id so the log stays readable after the account is gone
+  user_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_org_created ON public.audit_log(org_id, created_at DESC);
+CREATE INDEX idx_audit_log_row ON public.audit_log(table_name, row_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for admins; only the trigger writes
+CREATE POLICY "Admins can view their organization's audit log"
+  ON public.audit_log
+  FOR SELECT
+  USING (public.org_role(org_id) = 'admin');
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_new, v_old);
+BEGIN
+  -- Updates that change nothing aren't worth a row
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.audit_log (org_id, table_name, row_id, action, old_data, new_data, user_id, user_email)
+  VALUES (
+    (v_row->>'org_id')::UUID,
+    TG_TABLE_NAME,
+    (v_row->>'id')::UUID,
+    lower(TG_OP),
+    v_old,
+    v_new,
+    auth.uid(),
+    auth.jwt()->>'email'
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_sales_entries
+AFTER INSERT OR UPDATE OR DELETE ON public.sales_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_extra_area_entries
+AFTER INSERT OR UPDATE OR DELETE ON public.extra_area_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_extra_area_sales
+AFTER INSERT OR UPDATE OR DELETE ON public.extra_area_sales
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_branch_calendar_tasks
+AFTER INSERT OR UPDATE OR DELETE ON public.branch_calendar_tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_import_batches
+AFTER INSERT OR UPDATE OR DELETE ON public.import_batches
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_organization_members
+AFTER INSERT OR UPDATE OR DELETE ON public.organization_members
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_row_change();
@@ -0,0 +1,47 @@
+-- Bulk edits from the DSR table: one statement per call, so the whole selection changes or none of it.
+-- Runs as the caller; rows RLS hides or protects count as refused and roll the call back.
+CREATE OR REPLACE FUNCTION public.bulk_update_sales_entries(
+  p_org_id UUID,
+  p_ids UUID[],
+  p_action TEXT,
+  p_value TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_requested INTEGER;
+  v_changed INTEGER;
+BEGIN
+  SELECT COUNT(DISTINCT id) INTO v_requested FROM unnest(p_ids) AS id;
+
+  IF p_action <> 'delete' AND NULLIF(btrim(p_value), '') IS NULL THEN
+    RAISE EXCEPTION 'A new % is required', p_action;
+  END IF;
+
+  IF p_action = 'delete' THEN
+    DELETE FROM public.sales_entries
+    WHERE org_id = p_org_id AND id = ANY(p_ids);
+  ELSIF p_action = 'branch' THEN
+    UPDATE public.sales_entries SET branch = btrim(p_value)
+    WHERE org_id = p_org_id AND id = ANY(p_ids);
+  ELSIF p_action = 'date' THEN
+    UPDATE public.sales_entries SET date = p_value::DATE
+    WHERE org_id = p_org_id AND id = ANY(p_ids);
+  ELSIF p_action = 'category' THEN
+    UPDATE public.sales_entries SET category = btrim(p_value)
+    WHERE org_id = p_org_id AND id = ANY(p_ids);
+  ELSE
+    RAISE EXCEPTION 'Unknown bulk action "%"', p_action;
+  END IF;
+
+  GET DIAGNOSTICS v_changed = ROW_COUNT;
+  IF v_changed < v_requested THEN
+    RAISE EXCEPTION '% of the % selected entries can''t be changed by you or no longer exist',
+      v_requested - v_changed, v_requested;
+  END IF;
+
+  RETURN v_changed;
+END;
+$$;
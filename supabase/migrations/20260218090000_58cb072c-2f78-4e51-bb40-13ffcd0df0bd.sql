@@ -0,0 +1,266 @@
+-- Recycle bin: deleting a sales entry, extra area report or calendar task now only stamps
+-- deleted_at. Deleted rows disappear from every normal query through RLS and come back or go for
+-- good through the functions below.
+ALTER TABLE public.sales_entries
+  ADD COLUMN deleted_at TIMESTAMPTZ,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.extra_area_entries
+  ADD COLUMN deleted_at TIMESTAMPTZ,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.branch_calendar_tasks
+  ADD COLUMN deleted_at TIMESTAMPTZ,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_sales_entries_trash ON public.sales_entries (org_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_extra_area_entries_trash ON public.extra_area_entries (org_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_branch_calendar_tasks_trash ON public.branch_calendar_tasks (org_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+DROP POLICY "Members can view their branches' sales entries" ON public.sales_entries;
+
+CREATE POLICY "Members can view their branches' sales entries"
+  ON public.sales_entries
+  FOR SELECT
+  USING (deleted_at IS NULL AND public.can_read_branch(org_id, branch));
+
+DROP POLICY "Members can view their branches' extra area entries" ON public.extra_area_entries;
+
+CREATE POLICY "Members can view their branches' extra area entries"
+  ON public.extra_area_entries
+  FOR SELECT
+  USING (deleted_at IS NULL AND public.can_read_branch(org_id, branch));
+
+DROP POLICY "Members can view their branches' extra area sales" ON public.extra_area_sales;
+
+CREATE POLICY "Members can view their branches' extra area sales"
+  ON public.extra_area_sales
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.extra_area_entries e
+      WHERE e.id = entry_id
+        AND e.deleted_at IS NULL
+        AND public.can_read_branch(e.org_id, e.branch)
+    )
+  );
+
+DROP POLICY "Members can view their branches' calendar tasks" ON public.branch_calendar_tasks;
+
+CREATE POLICY "Members can view their branches' calendar tasks"
+  ON public.branch_calendar_tasks
+  FOR SELECT
+  USING (deleted_at IS NULL AND public.can_read_branch(org_id, branch));
+
+-- Guards the table name the trash functions splice into their statements
+CREATE OR REPLACE FUNCTION public.assert_trash_table(p_table TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF p_table NOT IN ('sales_entries', 'extra_area_entries', 'branch_calendar_tasks') THEN
+    RAISE EXCEPTION 'Records in "%" can''t be moved to the trash', p_table;
+  END IF;
+END;
+$$;
+
+-- Moves rows to the trash. Security definer because the updated rows are no longer visible to
+-- the caller, which RLS would refuse; branch access is checked here instead. All or nothing.
+CREATE OR REPLACE FUNCTION public.trash_records(p_org_id UUID, p_table TEXT, p_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_requested INTEGER;
+  v_changed INTEGER;
+BEGIN
+  PERFORM public.assert_trash_table(p_table);
+  SELECT COUNT(DISTINCT id) INTO v_requested FROM unnest(p_ids) AS id;
+
+  EXECUTE format(
+    'UPDATE public.%I SET deleted_at = now(), deleted_by = auth.uid()
+     WHERE org_id = $1 AND id = ANY($2) AND deleted_at IS NULL AND public.can_write_branch(org_id, branch)',
+    p_table
+  ) USING p_org_id, p_ids;
+
+  GET DIAGNOSTICS v_changed = ROW_COUNT;
+  IF v_changed < v_requested THEN
+    RAISE EXCEPTION '% of the % selected records can''t be deleted by you or no longer exist',
+      v_requested - v_changed, v_requested;
+  END IF;
+
+  RETURN v_changed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_records(p_org_id UUID, p_table TEXT, p_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_requested INTEGER;
+  v_changed INTEGER;
+BEGIN
+  PERFORM public.assert_trash_table(p_table);
+  SELECT COUNT(DISTINCT id) INTO v_requested FROM unnest(p_ids) AS id;
+
+  EXECUTE format(
+    'UPDATE public.%I SET deleted_at = NULL, deleted_by = NULL
+     WHERE org_id = $1 AND id = ANY($2) AND deleted_at IS NOT NULL AND public.can_write_branch(org_id, branch)',
+    p_table
+  ) USING p_org_id, p_ids;
+
+  GET DIAGNOSTICS v_changed = ROW_COUNT;
+  IF v_changed < v_requested THEN
+    RAISE EXCEPTION '% of the % selected records can''t be restored by you or are no longer in the trash',
+      v_requested - v_changed, v_requested;
+  END IF;
+
+  RETURN v_changed;
+END;
+$$;
+
+-- Permanent deletion is reserved for admins and only applies to rows already in the trash
+CREATE OR REPLACE FUNCTION public.purge_records(p_org_id UUID, p_table TEXT, p_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_purged INTEGER;
+BEGIN
+  PERFORM public.assert_trash_table(p_table);
+  IF public.org_role(p_org_id) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can permanently delete records';
+  END IF;
+
+  EXECUTE format(
+    'DELETE FROM public.%I WHERE org_id = $1 AND id = ANY($2) AND deleted_at IS NOT NULL',
+    p_table
+  ) USING p_org_id, p_ids;
+
+  GET DIAGNOSTICS v_purged = ROW_COUNT;
+  RETURN v_purged;
+END;
+$$;
+
+-- Everything in the trash the caller could restore, newest first, in one list for the Trash page
+CREATE OR REPLACE FUNCTION public.get_trash(p_org_id UUID)
+RETURNS TABLE (
+  table_name TEXT,
+  id UUID,
+  branch TEXT,
+  record_date DATE,
+  label TEXT,
+  amount NUMERIC,
+  photos TEXT[],
+  deleted_at TIMESTAMPTZ,
+  deleted_by_email TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.table_name, t.id, t.branch, t.record_date, t.label, t.amount, t.photos, t.deleted_at, u.email::TEXT
+  FROM (
+    SELECT 'sales_entries'::TEXT, s.id, s.branch, s.date, s.name, s.amount, '{}'::TEXT[], s.deleted_at, s.deleted_by
+    FROM public.sales_entries s
+    WHERE s.org_id = p_org_id AND s.deleted_at IS NOT NULL
+
+    UNION ALL
+
+    SELECT 'extra_area_entries', e.id, e.branch, e.entry_date,
+      e.location_area || ' · ' || e.category,
+      (SELECT COALESCE(SUM(x.amount), 0) FROM public.extra_area_sales x WHERE x.entry_id = e.id),
+      e.photos_approved_boss || e.photos_loi || e.photos_msas,
+      e.deleted_at, e.deleted_by
+    FROM public.extra_area_entries e
+    WHERE e.org_id = p_org_id AND e.deleted_at IS NOT NULL
+
+    UNION ALL
+
+    SELECT 'branch_calendar_tasks', c.id, c.branch, c.task_date, c.title, NULL, '{}'::TEXT[], c.deleted_at, c.deleted_by
+    FROM public.branch_calendar_tasks c
+    WHERE c.org_id = p_org_id AND c.deleted_at IS NOT NULL
+  ) AS t (table_name, id, branch, record_date, label, amount, photos, deleted_at, deleted_by)
+  LEFT JOIN auth.users u ON u.id = t.deleted_by
+  WHERE public.can_write_branch(p_org_id, t.branch)
+  ORDER BY t.deleted_at DESC;
+$$;
+
+-- Clear All now empties into the trash
+CREATE OR REPLACE FUNCTION public.clear_sales_entries(p_org_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  IF public.org_role(p_org_id) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can clear all entries';
+  END IF;
+
+  UPDATE public.sales_entries
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE org_id = p_org_id AND deleted_at IS NULL;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+-- Same as before, except bulk delete moves the selection to the trash
+CREATE OR REPLACE FUNCTION public.bulk_update_sales_entries(
+  p_org_id UUID,
+  p_ids UUID[],
+  p_action TEXT,
+  p_value TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_requested INTEGER;
+  v_changed INTEGER;
+BEGIN
+  IF p_action = 'delete' THEN
+    RETURN public.trash_records(p_org_id, 'sales_entries', p_ids);
+  END IF;
+
+  SELECT COUNT(DISTINCT id) INTO v_requested FROM unnest(p_ids) AS id;
+
+  IF NULLIF(btrim(p_value), '') IS NULL THEN
+    RAISE EXCEPTION 'A new % is required', p_action;
+  END IF;
+
+  IF p_action = 'branch' THEN
+    UPDATE public.sales_entries SET branch = btrim(p_value)
+    WHERE org_id = p_org_id AND id = ANY(p_ids);
+  ELSIF p_action = 'date' THEN
+    UPDATE public.sales_entries SET date = p_value::DATE
+    WHERE org_id = p_org_id AND id = ANY(p_ids);
+  ELSIF p_action = 'category' THEN
+    UPDATE public.sales_entries SET category = btrim(p_value)
+    WHERE org_id = p_org_id AND id = ANY(p_ids);
+  ELSE
+    RAISE EXCEPTION 'Unknown bulk action "%"', p_action;
+  END IF;
+
+  GET DIAGNOSTICS v_changed = ROW_COUNT;
+  IF v_changed < v_requested THEN
+    RAISE EXCEPTION '% of the % selected entries can''t be changed by you or no longer exist',
+      v_requested - v_changed, v_requested;
+  END IF;
+
+  RETURN v_changed;
+END;
+$$;
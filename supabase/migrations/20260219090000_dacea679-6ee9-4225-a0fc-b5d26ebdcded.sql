@@ -0,0 +1,43 @@
+-- Realtime: the app subscribes to changes on these tables to keep open pages current.
+-- updated_by records who made the last change so clients can tell a teammate's edit from their own.
+ALTER TABLE public.sales_entries
+  ADD COLUMN updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.extra_area_entries
+  ADD COLUMN updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.branch_calendar_tasks
+  ADD COLUMN updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.set_updated_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_sales_entries_updated_by
+BEFORE INSERT OR UPDATE ON public.sales_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_by();
+
+CREATE TRIGGER set_extra_area_entries_updated_by
+BEFORE INSERT OR UPDATE ON public.extra_area_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_by();
+
+CREATE TRIGGER set_branch_calendar_tasks_updated_by
+BEFORE INSERT OR UPDATE ON public.branch_calendar_tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_by();
+
+-- extra_area_sales rides along: an extra area report's amounts live there
+ALTER PUBLICATION supabase_realtime ADD TABLE
+  public.sales_entries,
+  public.extra_area_entries,
+  public.extra_area_sales,
+  public.branch_calendar_tasks;
@@ -0,0 +1,401 @@
+-- Reference and import data move into organizations too, so members share one branch, category,
+-- product and product code list, and one set of saved column mappings. Each organization starts
+-- with a copy of its creator's lists; organizations without one get the default lists.
+ALTER TABLE public.branches ADD COLUMN org_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.categories ADD COLUMN org_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.collection_items ADD COLUMN org_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.product_code_schemas ADD COLUMN org_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.import_column_profiles ADD COLUMN org_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+ALTER TABLE public.branches DROP CONSTRAINT branches_user_id_code_key;
+ALTER TABLE public.categories DROP CONSTRAINT categories_user_id_code_key;
+ALTER TABLE public.collection_items DROP CONSTRAINT collection_items_user_id_upc_key;
+ALTER TABLE public.product_code_schemas DROP CONSTRAINT product_code_schemas_user_id_key;
+
+INSERT INTO public.branches (org_id, user_id, code, name, is_active, sort_order, created_at)
+SELECT o.id, b.user_id, b.code, b.name, b.is_active, b.sort_order, b.created_at
+FROM public.organizations o
+JOIN public.branches b ON b.user_id = o.created_by AND b.org_id IS NULL;
+
+INSERT INTO public.categories (org_id, user_id, code, name, is_active, sort_order, created_at)
+SELECT o.id, c.user_id, c.code, c.name, c.is_active, c.sort_order, c.created_at
+FROM public.organizations o
+JOIN public.categories c ON c.user_id = o.created_by AND c.org_id IS NULL;
+
+INSERT INTO public.collection_items (org_id, user_id, name, upc, description, category, price, created_at)
+SELECT o.id, i.user_id, i.name, i.upc, i.description, i.category, i.price, i.created_at
+FROM public.organizations o
+JOIN public.collection_items i ON i.user_id = o.created_by AND i.org_id IS NULL;
+
+INSERT INTO public.product_code_schemas (org_id, user_id, segments, separator, category_format, created_at)
+SELECT o.id, p.user_id, p.segments, p.separator, p.category_format, p.created_at
+FROM public.organizations o
+JOIN public.product_code_schemas p ON p.user_id = o.created_by AND p.org_id IS NULL;
+
+INSERT INTO public.import_column_profiles (org_id, user_id, name, branch, mapping, headers, day_only_dates, created_at)
+SELECT o.id, p.user_id, p.name, p.branch, p.mapping, p.headers, p.day_only_dates, p.created_at
+FROM public.organizations o
+JOIN public.import_column_profiles p ON p.user_id = o.created_by AND p.org_id IS NULL;
+
+DELETE FROM public.branches WHERE org_id IS NULL;
+DELETE FROM public.categories WHERE org_id IS NULL;
+DELETE FROM public.collection_items WHERE org_id IS NULL;
+DELETE FROM public.product_code_schemas WHERE org_id IS NULL;
+DELETE FROM public.import_column_profiles WHERE org_id IS NULL;
+
+ALTER TABLE public.branches ALTER COLUMN org_id SET NOT NULL;
+ALTER TABLE public.categories ALTER COLUMN org_id SET NOT NULL;
+ALTER TABLE public.collection_items ALTER COLUMN org_id SET NOT NULL;
+ALTER TABLE public.product_code_schemas ALTER COLUMN org_id SET NOT NULL;
+ALTER TABLE public.import_column_profiles ALTER COLUMN org_id SET NOT NULL;
+
+ALTER TABLE public.branches ADD CONSTRAINT branches_org_id_code_key UNIQUE (org_id, code);
+ALTER TABLE public.categories ADD CONSTRAINT categories_org_id_code_key UNIQUE (org_id, code);
+ALTER TABLE public.collection_items ADD CONSTRAINT collection_items_org_id_upc_key UNIQUE (org_id, upc);
+ALTER TABLE public.product_code_schemas ADD CONSTRAINT product_code_schemas_org_id_key UNIQUE (org_id);
+
+CREATE INDEX idx_import_column_profiles_org_id ON public.import_column_profiles(org_id);
+
+-- Shared rows outlive the member who wrote them; user_id now only records who added the row
+ALTER TABLE public.sales_entries
+  DROP CONSTRAINT sales_entries_user_id_fkey,
+  ADD CONSTRAINT sales_entries_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL,
+  ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.extra_area_entries
+  DROP CONSTRAINT extra_area_entries_user_id_fkey,
+  ADD CONSTRAINT extra_area_entries_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL,
+  ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.extra_area_sales
+  DROP CONSTRAINT extra_area_sales_user_id_fkey,
+  ADD CONSTRAINT extra_area_sales_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL,
+  ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.branch_calendar_tasks
+  ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.import_batches
+  DROP CONSTRAINT import_batches_user_id_fkey,
+  ADD CONSTRAINT import_batches_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL,
+  ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.branches
+  DROP CONSTRAINT branches_user_id_fkey,
+  ADD CONSTRAINT branches_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL,
+  ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.categories
+  DROP CONSTRAINT categories_user_id_fkey,
+  ADD CONSTRAINT categories_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL,
+  ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.collection_items
+  DROP CONSTRAINT collection_items_user_id_fkey,
+  ADD CONSTRAINT collection_items_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL,
+  ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.product_code_schemas
+  DROP CONSTRAINT product_code_schemas_user_id_fkey,
+  ADD CONSTRAINT product_code_schemas_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL,
+  ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.import_column_profiles
+  DROP CONSTRAINT import_column_profiles_user_id_fkey,
+  ADD CONSTRAINT import_column_profiles_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL,
+  ALTER COLUMN user_id DROP NOT NULL;
+
+-- RLS: every member reads the lists; admins maintain branches, categories and the product code
+-- rules, and members who can write entries maintain products and column mappings
+DROP POLICY "Users can view their own branches" ON public.branches;
+DROP POLICY "Users can insert their own branches" ON public.branches;
+DROP POLICY "Users can update their own branches" ON public.branches;
+DROP POLICY "Users can delete their own branches" ON public.branches;
+
+CREATE POLICY "Members can view their organization's branches"
+  ON public.branches
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+CREATE POLICY "Admins can insert their organization's branches"
+  ON public.branches
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.org_role(org_id) = 'admin');
+
+CREATE POLICY "Admins can update their organization's branches"
+  ON public.branches
+  FOR UPDATE
+  USING (public.org_role(org_id) = 'admin')
+  WITH CHECK (public.org_role(org_id) = 'admin');
+
+CREATE POLICY "Admins can delete their organization's branches"
+  ON public.branches
+  FOR DELETE
+  USING (public.org_role(org_id) = 'admin');
+
+DROP POLICY "Users can view their own categories" ON public.categories;
+DROP POLICY "Users can insert their own categories" ON public.categories;
+DROP POLICY "Users can update their own categories" ON public.categories;
+DROP POLICY "Users can delete their own categories" ON public.categories;
+
+CREATE POLICY "Members can view their organization's categories"
+  ON public.categories
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+CREATE POLICY "Admins can insert their organization's categories"
+  ON public.categories
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.org_role(org_id) = 'admin');
+
+CREATE POLICY "Admins can update their organization's categories"
+  ON public.categories
+  FOR UPDATE
+  USING (public.org_role(org_id) = 'admin')
+  WITH CHECK (public.org_role(org_id) = 'admin');
+
+CREATE POLICY "Admins can delete their organization's categories"
+  ON public.categories
+  FOR DELETE
+  USING (public.org_role(org_id) = 'admin');
+
+DROP POLICY "Users can view their own product code schema" ON public.product_code_schemas;
+DROP POLICY "Users can insert their own product code schema" ON public.product_code_schemas;
+DROP POLICY "Users can update their own product code schema" ON public.product_code_schemas;
+DROP POLICY "Users can delete their own product code schema" ON public.product_code_schemas;
+
+CREATE POLICY "Members can view their organization's product code schema"
+  ON public.product_code_schemas
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+CREATE POLICY "Admins can insert their organization's product code schema"
+  ON public.product_code_schemas
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.org_role(org_id) = 'admin');
+
+CREATE POLICY "Admins can update their organization's product code schema"
+  ON public.product_code_schemas
+  FOR UPDATE
+  USING (public.org_role(org_id) = 'admin')
+  WITH CHECK (public.org_role(org_id) = 'admin');
+
+CREATE POLICY "Admins can delete their organization's product code schema"
+  ON public.product_code_schemas
+  FOR DELETE
+  USING (public.org_role(org_id) = 'admin');
+
+DROP POLICY "Users can view their own collection items" ON public.collection_items;
+DROP POLICY "Users can insert their own collection items" ON public.collection_items;
+DROP POLICY "Users can update their own collection items" ON public.collection_items;
+DROP POLICY "Users can delete their own collection items" ON public.collection_items;
+
+CREATE POLICY "Members can view their organization's collection items"
+  ON public.collection_items
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+CREATE POLICY "Writers can insert their organization's collection items"
+  ON public.collection_items
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.org_role(org_id) IN ('admin', 'area_manager', 'encoder')
+  );
+
+CREATE POLICY "Writers can update their organization's collection items"
+  ON public.collection_items
+  FOR UPDATE
+  USING (public.org_role(org_id) IN ('admin', 'area_manager', 'encoder'))
+  WITH CHECK (public.org_role(org_id) IN ('admin', 'area_manager', 'encoder'));
+
+CREATE POLICY "Writers can delete their organization's collection items"
+  ON public.collection_items
+  FOR DELETE
+  USING (public.org_role(org_id) IN ('admin', 'area_manager', 'encoder'));
+
+DROP POLICY "Users can view their own column profiles" ON public.import_column_profiles;
+DROP POLICY "Users can insert their own column profiles" ON public.import_column_profiles;
+DROP POLICY "Users can update their own column profiles" ON public.import_column_profiles;
+DROP POLICY "Users can delete their own column profiles" ON public.import_column_profiles;
+
+CREATE POLICY "Members can view their organization's column profiles"
+  ON public.import_column_profiles
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+CREATE POLICY "Writers can insert their organization's column profiles"
+  ON public.import_column_profiles
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.org_role(org_id) IN ('admin', 'area_manager', 'encoder')
+  );
+
+CREATE POLICY "Writers can update their organization's column profiles"
+  ON public.import_column_profiles
+  FOR UPDATE
+  USING (public.org_role(org_id) IN ('admin', 'area_manager', 'encoder'))
+  WITH CHECK (public.org_role(org_id) IN ('admin', 'area_manager', 'encoder'));
+
+CREATE POLICY "Writers can delete their organization's column profiles"
+  ON public.import_column_profiles
+  FOR DELETE
+  USING (public.org_role(org_id) IN ('admin', 'area_manager', 'encoder'));
+
+-- Default lists are seeded per organization instead of per sign-up
+DROP TRIGGER on_auth_user_created_seed_reference_data ON auth.users;
+DROP FUNCTION public.handle_new_user_reference_data();
+DROP FUNCTION public.seed_reference_data(UUID);
+
+CREATE OR REPLACE FUNCTION public.seed_reference_data(p_org_id UUID, p_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.branches (org_id, user_id, code, name, sort_order)
+  SELECT p_org_id, p_user_id, seed.code, seed.code, seed.sort_order
+  FROM (VALUES ('MHB', 1), ('MLP', 2), ('MSH', 3), ('MUM', 4), ('MQC', 5)) AS seed(code, sort_order)
+  ON CONFLICT (org_id, code) DO NOTHING;
+
+  INSERT INTO public.categories (org_id, user_id, code, name, sort_order)
+  SELECT p_org_id, p_user_id, seed.code, seed.code, seed.sort_order
+  FROM (VALUES ('MHB', 1), ('MLP', 2), ('MSH', 3), ('MUM', 4)) AS seed(code, sort_order)
+  ON CONFLICT (org_id, code) DO NOTHING;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.seed_reference_data(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_organization_reference_data()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.seed_reference_data(NEW.id, NEW.created_by);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_organization_created_seed_reference_data
+AFTER INSERT ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_organization_reference_data();
+
+SELECT public.seed_reference_data(o.id, o.created_by)
+FROM public.organizations o
+WHERE NOT EXISTS (SELECT 1 FROM public.branches b WHERE b.org_id = o.id);
+
+-- Same as before, but branches and categories are checked against the organization's lists
+CREATE OR REPLACE FUNCTION public.promote_import_batch(
+  p_batch_id UUID,
+  p_replace_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  row_index INTEGER,
+  message TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.import_batches%ROWTYPE;
+BEGIN
+  SELECT * INTO v_batch
+  FROM public.import_batches
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found', p_batch_id;
+  END IF;
+
+  IF v_batch.status <> 'pending' THEN
+    RAISE EXCEPTION 'Import batch % has already been promoted', p_batch_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT s.row_index, problem.message
+  FROM public.sales_import_staging s
+  CROSS JOIN LATERAL (
+    VALUES
+      (CASE WHEN NULLIF(btrim(s.date), '') IS NULL THEN 'Missing date' END),
+      (CASE WHEN NULLIF(btrim(s.date), '') IS NOT NULL AND public.try_parse_date(s.date) IS NULL
+        THEN format('Invalid date "%s"', s.date) END),
+      (CASE WHEN NULLIF(btrim(s.name), '') IS NULL THEN 'Missing name' END),
+      (CASE WHEN NULLIF(btrim(s.description), '') IS NULL THEN 'Missing product' END),
+      (CASE WHEN NULLIF(btrim(s.branch), '') IS NULL THEN 'Missing branch' END),
+      (CASE WHEN NULLIF(btrim(s.branch), '') IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.branches b
+        WHERE b.org_id = v_batch.org_id AND b.code = btrim(s.branch) AND b.is_active
+      ) THEN format('Unknown branch "%s"', btrim(s.branch)) END),
+      (CASE WHEN NULLIF(btrim(s.branch), '') IS NOT NULL
+        AND NOT public.can_write_branch(v_batch.org_id, btrim(s.branch))
+        THEN format('You can''t add entries for branch "%s"', btrim(s.branch)) END),
+      (CASE WHEN NULLIF(btrim(s.category), '') IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.categories c
+        WHERE c.org_id = v_batch.org_id AND c.code = btrim(s.category) AND c.is_active
+      ) THEN format('Unknown category "%s"', btrim(s.category)) END),
+      (CASE WHEN s.upc IS NULL THEN 'Missing UPC' END),
+      (CASE WHEN s.qty IS NULL OR s.qty <> trunc(s.qty) THEN 'Quantity must be a whole number' END),
+      (CASE WHEN abs(COALESCE(s.amount, 0)) >= 10000000000 THEN 'Amount is out of range' END),
+      (CASE WHEN abs(COALESCE(s.price, 0)) >= 10000000000 THEN 'Price is out of range' END),
+      (CASE WHEN abs(COALESCE(s.discount_percent, 0)) >= 1000 THEN 'Discount is out of range' END)
+  ) AS problem(message)
+  WHERE s.batch_id = p_batch_id
+    AND problem.message IS NOT NULL
+  ORDER BY s.row_index;
+
+  -- Validation failed: leave everything untouched
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_replace_ids IS NOT NULL THEN
+    DELETE FROM public.sales_entries
+    WHERE id = ANY(p_replace_ids) AND org_id = v_batch.org_id;
+  END IF;
+
+  INSERT INTO public.sales_entries (
+    user_id, org_id, date, upc, name, description, qty, category,
+    price, discount_percent, amount, branch, import_batch_id
+  )
+  SELECT
+    v_batch.user_id,
+    v_batch.org_id,
+    public.try_parse_date(s.date),
+    s.upc,
+    btrim(s.name),
+    s.description,
+    s.qty::INTEGER,
+    COALESCE(s.category, ''),
+    COALESCE(s.price, 0),
+    COALESCE(s.discount_percent, 0),
+    COALESCE(s.amount, 0),
+    btrim(s.branch),
+    p_batch_id
+  FROM public.sales_import_staging s
+  WHERE s.batch_id = p_batch_id
+  ORDER BY s.row_index;
+
+  UPDATE public.import_batches b
+  SET
+    status = 'completed',
+    row_count = totals.row_count,
+    total_qty = totals.total_qty,
+    total_amount = totals.total_amount
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS row_count,
+      COALESCE(SUM(s.qty), 0)::INTEGER AS total_qty,
+      COALESCE(SUM(s.amount), 0) AS total_amount
+    FROM public.sales_import_staging s
+    WHERE s.batch_id = p_batch_id
+  ) totals
+  WHERE b.id = p_batch_id;
+
+  DELETE FROM public.sales_import_staging WHERE batch_id = p_batch_id;
+END;
+$$;
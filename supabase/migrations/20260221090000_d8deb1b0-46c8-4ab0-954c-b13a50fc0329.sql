@@ -0,0 +1,35 @@
+-- Renaming a branch or category code now carries over to every row of the organization, not only
+-- the ones the renaming admin wrote. Security definer so rows the admin can't see, including ones
+-- in the trash, are renamed too; only admins can change codes in the first place.
+CREATE OR REPLACE FUNCTION public.rename_branch_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.sales_entries SET branch = NEW.code WHERE org_id = NEW.org_id AND branch = OLD.code;
+  UPDATE public.extra_area_entries SET branch = NEW.code WHERE org_id = NEW.org_id AND branch = OLD.code;
+  UPDATE public.branch_calendar_tasks SET branch = NEW.code WHERE org_id = NEW.org_id AND branch = OLD.code;
+  UPDATE public.import_column_profiles SET branch = NEW.code WHERE org_id = NEW.org_id AND branch = OLD.code;
+  -- Members assigned to the branch keep their access
+  UPDATE public.organization_members SET branches = array_replace(branches, OLD.code, NEW.code)
+  WHERE org_id = NEW.org_id AND OLD.code = ANY(branches);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rename_category_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.sales_entries SET category = NEW.code WHERE org_id = NEW.org_id AND category = OLD.code;
+  UPDATE public.extra_area_entries SET category = NEW.code WHERE org_id = NEW.org_id AND category = OLD.code;
+  UPDATE public.extra_area_sales SET category = NEW.code WHERE org_id = NEW.org_id AND category = OLD.code;
+  UPDATE public.collection_items SET category = NEW.code WHERE org_id = NEW.org_id AND category = OLD.code;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,96 @@
+-- Import rollback no longer deletes the batch row. Deleting it cascaded to its entries past RLS,
+-- so an importer who had since lost write access could still wipe them. Rollback now moves the
+-- entries to the trash through a role-checked function and keeps the batch as 'rolled_back'.
+ALTER TABLE public.sales_entries
+  DROP CONSTRAINT sales_entries_import_batch_id_fkey,
+  ADD CONSTRAINT sales_entries_import_batch_id_fkey
+    FOREIGN KEY (import_batch_id) REFERENCES public.import_batches(id) ON DELETE SET NULL;
+
+ALTER TABLE public.import_batches
+  DROP CONSTRAINT import_batches_status_check,
+  ADD CONSTRAINT import_batches_status_check CHECK (status IN ('pending', 'completed', 'rolled_back'));
+
+CREATE INDEX idx_import_batches_org_created ON public.import_batches(org_id, created_at DESC);
+
+-- Every member sees the organization's imports; only the importer touches a pending one, and
+-- nobody deletes a completed one
+DROP POLICY "Users can view their own import batches" ON public.import_batches;
+DROP POLICY "Users can update their own import batches" ON public.import_batches;
+DROP POLICY "Users can delete their own import batches" ON public.import_batches;
+
+CREATE POLICY "Members can view their organization's import batches"
+  ON public.import_batches
+  FOR SELECT
+  USING (public.is_org_member(org_id));
+
+CREATE POLICY "Writers can update their own pending import batches"
+  ON public.import_batches
+  FOR UPDATE
+  USING (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND public.org_role(org_id) IN ('admin', 'area_manager', 'encoder')
+  )
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.org_role(org_id) IN ('admin', 'area_manager', 'encoder')
+  );
+
+CREATE POLICY "Users can discard their own pending import batches"
+  ON public.import_batches
+  FOR DELETE
+  USING (auth.uid() = user_id AND status = 'pending');
+
+-- Moves every entry of a completed import to the trash. All or nothing: if any of them is in a
+-- branch the caller can't write, nothing changes.
+CREATE OR REPLACE FUNCTION public.rollback_import_batch(p_batch_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.import_batches%ROWTYPE;
+  v_refused INTEGER;
+  v_trashed INTEGER;
+BEGIN
+  SELECT * INTO v_batch
+  FROM public.import_batches
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_org_member(v_batch.org_id) THEN
+    RAISE EXCEPTION 'Import batch % not found', p_batch_id;
+  END IF;
+
+  IF public.org_role(v_batch.org_id) NOT IN ('admin', 'area_manager', 'encoder') THEN
+    RAISE EXCEPTION 'Viewers can''t roll back imports';
+  END IF;
+
+  IF v_batch.status <> 'completed' THEN
+    RAISE EXCEPTION 'Import batch % can''t be rolled back', p_batch_id;
+  END IF;
+
+  SELECT COUNT(*) INTO v_refused
+  FROM public.sales_entries
+  WHERE org_id = v_batch.org_id
+    AND import_batch_id = p_batch_id
+    AND deleted_at IS NULL
+    AND NOT public.can_write_branch(org_id, branch);
+
+  IF v_refused > 0 THEN
+    RAISE EXCEPTION '% entries from this import are in branches you can''t delete from', v_refused;
+  END IF;
+
+  UPDATE public.sales_entries
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE org_id = v_batch.org_id
+    AND import_batch_id = p_batch_id
+    AND deleted_at IS NULL;
+  GET DIAGNOSTICS v_trashed = ROW_COUNT;
+
+  UPDATE public.import_batches SET status = 'rolled_back' WHERE id = p_batch_id;
+
+  RETURN v_trashed;
+END;
+$$;
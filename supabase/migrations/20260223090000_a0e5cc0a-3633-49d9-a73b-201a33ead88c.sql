@@ -0,0 +1,117 @@
+-- Only purge_records hard-deletes sales entries, extra area reports and calendar tasks. Writers
+-- could still delete them straight through the API, skipping the trash.
+DROP POLICY "Writers can delete their organization's sales entries" ON public.sales_entries;
+DROP POLICY "Writers can delete their organization's extra area entries" ON public.extra_area_entries;
+DROP POLICY "Writers can delete their organization's calendar tasks" ON public.branch_calendar_tasks;
+
+-- Same as before, except entries replaced by a re-import are moved to the trash
+CREATE OR REPLACE FUNCTION public.promote_import_batch(
+  p_batch_id UUID,
+  p_replace_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  row_index INTEGER,
+  message TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.import_batches%ROWTYPE;
+BEGIN
+  SELECT * INTO v_batch
+  FROM public.import_batches
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found', p_batch_id;
+  END IF;
+
+  IF v_batch.status <> 'pending' THEN
+    RAISE EXCEPTION 'Import batch % has already been promoted', p_batch_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT s.row_index, problem.message
+  FROM public.sales_import_staging s
+  CROSS JOIN LATERAL (
+    VALUES
+      (CASE WHEN NULLIF(btrim(s.date), '') IS NULL THEN 'Missing date' END),
+      (CASE WHEN NULLIF(btrim(s.date), '') IS NOT NULL AND public.try_parse_date(s.date) IS NULL
+        THEN format('Invalid date "%s"', s.date) END),
+      (CASE WHEN NULLIF(btrim(s.name), '') IS NULL THEN 'Missing name' END),
+      (CASE WHEN NULLIF(btrim(s.description), '') IS NULL THEN 'Missing product' END),
+      (CASE WHEN NULLIF(btrim(s.branch), '') IS NULL THEN 'Missing branch' END),
+      (CASE WHEN NULLIF(btrim(s.branch), '') IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.branches b
+        WHERE b.org_id = v_batch.org_id AND b.code = btrim(s.branch) AND b.is_active
+      ) THEN format('Unknown branch "%s"', btrim(s.branch)) END),
+      (CASE WHEN NULLIF(btrim(s.branch), '') IS NOT NULL
+        AND NOT public.can_write_branch(v_batch.org_id, btrim(s.branch))
+        THEN format('You can''t add entries for branch "%s"', btrim(s.branch)) END),
+      (CASE WHEN NULLIF(btrim(s.category), '') IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.categories c
+        WHERE c.org_id = v_batch.org_id AND c.code = btrim(s.category) AND c.is_active
+      ) THEN format('Unknown category "%s"', btrim(s.category)) END),
+      (CASE WHEN s.upc IS NULL THEN 'Missing UPC' END),
+      (CASE WHEN s.qty IS NULL OR s.qty <> trunc(s.qty) THEN 'Quantity must be a whole number' END),
+      (CASE WHEN abs(COALESCE(s.amount, 0)) >= 10000000000 THEN 'Amount is out of range' END),
+      (CASE WHEN abs(COALESCE(s.price, 0)) >= 10000000000 THEN 'Price is out of range' END),
+      (CASE WHEN abs(COALESCE(s.discount_percent, 0)) >= 1000 THEN 'Discount is out of range' END)
+  ) AS problem(message)
+  WHERE s.batch_id = p_batch_id
+    AND problem.message IS NOT NULL
+  ORDER BY s.row_index;
+
+  -- Validation failed: leave everything untouched
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Replaced entries go to the trash like any other delete
+  IF p_replace_ids IS NOT NULL THEN
+    PERFORM public.trash_records(v_batch.org_id, 'sales_entries', p_replace_ids);
+  END IF;
+
+  INSERT INTO public.sales_entries (
+    user_id, org_id, date, upc, name, description, qty, category,
+    price, discount_percent, amount, branch, import_batch_id
+  )
+  SELECT
+    v_batch.user_id,
+    v_batch.org_id,
+    public.try_parse_date(s.date),
+    s.upc,
+    btrim(s.name),
+    s.description,
+    s.qty::INTEGER,
+    COALESCE(s.category, ''),
+    COALESCE(s.price, 0),
+    COALESCE(s.discount_percent, 0),
+    COALESCE(s.amount, 0),
+    btrim(s.branch),
+    p_batch_id
+  FROM public.sales_import_staging s
+  WHERE s.batch_id = p_batch_id
+  ORDER BY s.row_index;
+
+  UPDATE public.import_batches b
+  SET
+    status = 'completed',
+    row_count = totals.row_count,
+    total_qty = totals.total_qty,
+    total_amount = totals.total_amount
+  FROM (
+    SELECT
+      COUNT(*)::INTEGER AS row_count,
+      COALESCE(SUM(s.qty), 0)::INTEGER AS total_qty,
+      COALESCE(SUM(s.amount), 0) AS total_amount
+    FROM public.sales_import_staging s
+    WHERE s.batch_id = p_batch_id
+  ) totals
+  WHERE b.id = p_batch_id;
+
+  DELETE FROM public.sales_import_staging WHERE batch_id = p_batch_id;
+END;
+$$;
@@ -0,0 +1,68 @@
+-- Saves an extra area report and replaces its per-category sales in one transaction, so a failed
+-- sales insert no longer leaves the report without its amounts. Runs as the caller, so the usual
+-- write policies apply. Zero amounts aren't stored. Returns the report's id.
+CREATE OR REPLACE FUNCTION public.save_extra_area_entry(
+  p_org_id UUID,
+  p_entry JSONB,
+  p_sales JSONB,
+  p_entry_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID := p_entry_id;
+BEGIN
+  IF v_entry_id IS NULL THEN
+    INSERT INTO public.extra_area_entries (
+      user_id, org_id, branch, category, location_area, rental_rate, no_fixtures, entry_date, no_days,
+      photos_approved_boss, photos_loi, photos_msas, remarks
+    )
+    VALUES (
+      auth.uid(),
+      p_org_id,
+      p_entry->>'branch',
+      p_entry->>'category',
+      p_entry->>'location_area',
+      COALESCE((p_entry->>'rental_rate')::NUMERIC, 0),
+      p_entry->>'no_fixtures',
+      (p_entry->>'entry_date')::DATE,
+      COALESCE((p_entry->>'no_days')::INTEGER, 0),
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_entry->'photos_approved_boss', '[]'))),
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_entry->'photos_loi', '[]'))),
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_entry->'photos_msas', '[]'))),
+      p_entry->>'remarks'
+    )
+    RETURNING id INTO v_entry_id;
+  ELSE
+    UPDATE public.extra_area_entries
+    SET
+      branch = p_entry->>'branch',
+      category = p_entry->>'category',
+      location_area = p_entry->>'location_area',
+      rental_rate = COALESCE((p_entry->>'rental_rate')::NUMERIC, 0),
+      no_fixtures = p_entry->>'no_fixtures',
+      entry_date = (p_entry->>'entry_date')::DATE,
+      no_days = COALESCE((p_entry->>'no_days')::INTEGER, 0),
+      photos_approved_boss = ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_entry->'photos_approved_boss', '[]'))),
+      photos_loi = ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_entry->'photos_loi', '[]'))),
+      photos_msas = ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_entry->'photos_msas', '[]'))),
+      remarks = p_entry->>'remarks'
+    WHERE id = v_entry_id AND org_id = p_org_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Extra area report % can''t be changed by you or no longer exists', v_entry_id;
+    END IF;
+  END IF;
+
+  DELETE FROM public.extra_area_sales WHERE entry_id = v_entry_id;
+
+  INSERT INTO public.extra_area_sales (entry_id, user_id, org_id, category, amount)
+  SELECT v_entry_id, auth.uid(), p_org_id, s.key, s.value::NUMERIC
+  FROM jsonb_each_text(COALESCE(p_sales, '{}')) AS s
+  WHERE s.value::NUMERIC <> 0;
+
+  RETURN v_entry_id;
+END;
+$$;
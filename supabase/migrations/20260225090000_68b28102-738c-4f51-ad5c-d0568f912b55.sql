@@ -0,0 +1,133 @@
+-- Members join an organization only by accepting an invitation. Admins used to add any existing
+-- account straight into their organization; now they invite an email address and the account
+-- holder accepts or declines it after signing in.
+DROP FUNCTION public.add_organization_member(UUID, TEXT, TEXT, TEXT[]);
+
+CREATE TABLE public.organization_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- Stored lowercased so it matches however the invitee typed their address
+  email TEXT NOT NULL CHECK (email = lower(btrim(email)) AND email <> ''),
+  role TEXT NOT NULL DEFAULT 'viewer'
+    CHECK (role IN ('admin', 'area_manager', 'encoder', 'viewer')),
+  branches TEXT[] NOT NULL DEFAULT '{}',
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (org_id, email)
+);
+
+CREATE INDEX idx_organization_invitations_email ON public.organization_invitations(email);
+
+-- The caller's email, only once it is confirmed, so an unconfirmed sign-up can't claim someone
+-- else's invitations
+CREATE OR REPLACE FUNCTION public.current_user_email()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lower(u.email) FROM auth.users u
+  WHERE u.id = auth.uid() AND u.email_confirmed_at IS NOT NULL;
+$$;
+
+ALTER TABLE public.organization_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and invitees can view invitations"
+  ON public.organization_invitations
+  FOR SELECT
+  USING (public.org_role(org_id) = 'admin' OR email = public.current_user_email());
+
+-- Admins revoke, invitees decline
+CREATE POLICY "Admins and invitees can delete invitations"
+  ON public.organization_invitations
+  FOR DELETE
+  USING (public.org_role(org_id) = 'admin' OR email = public.current_user_email());
+
+-- Invitees see the name of the organization they are invited to
+CREATE POLICY "Invitees can view organizations they are invited to"
+  ON public.organizations
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.organization_invitations i
+      WHERE i.org_id = id AND i.email = public.current_user_email()
+    )
+  );
+
+-- Invites an email address with the role it will get; inviting again updates the pending invitation
+CREATE OR REPLACE FUNCTION public.invite_organization_member(
+  p_org_id UUID,
+  p_email TEXT,
+  p_role TEXT DEFAULT 'viewer',
+  p_branches TEXT[] DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT := lower(btrim(p_email));
+  v_invitation_id UUID;
+BEGIN
+  IF public.org_role(p_org_id) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can invite members';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.organization_members m
+    JOIN auth.users u ON u.id = m.user_id
+    WHERE m.org_id = p_org_id AND lower(u.email) = v_email
+  ) THEN
+    RAISE EXCEPTION '% is already a member of this organization', v_email;
+  END IF;
+
+  INSERT INTO public.organization_invitations (org_id, email, role, branches, invited_by)
+  VALUES (
+    p_org_id,
+    v_email,
+    p_role,
+    CASE WHEN p_role = 'admin' THEN '{}' ELSE COALESCE(p_branches, '{}') END,
+    auth.uid()
+  )
+  ON CONFLICT (org_id, email) DO UPDATE
+  SET role = EXCLUDED.role,
+      branches = EXCLUDED.branches,
+      invited_by = EXCLUDED.invited_by,
+      created_at = now()
+  RETURNING id INTO v_invitation_id;
+
+  RETURN v_invitation_id;
+END;
+$$;
+
+-- Joins the organization with the invited role; returns the organization's id
+CREATE OR REPLACE FUNCTION public.accept_organization_invitation(p_invitation_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation public.organization_invitations%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM public.organization_invitations
+  WHERE id = p_invitation_id AND email = public.current_user_email()
+  RETURNING * INTO v_invitation;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  INSERT INTO public.organization_members (org_id, user_id, role, branches)
+  VALUES (v_invitation.org_id, auth.uid(), v_invitation.role, v_invitation.branches)
+  ON CONFLICT (org_id, user_id) DO NOTHING;
+
+  RETURN v_invitation.org_id;
+END;
+$$;
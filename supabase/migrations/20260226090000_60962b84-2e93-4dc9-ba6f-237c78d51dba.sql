@@ -0,0 +1,44 @@
+-- Accounts an organization created from its Users page. Admins can only set the password of, or
+-- disable, accounts their organization created and that belong to no other organization, so they
+-- can't take over or lock out an account that someone else also relies on.
+CREATE TABLE public.organization_managed_accounts (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_organization_managed_accounts_org_id ON public.organization_managed_accounts(org_id);
+
+-- No policies: only the create-admin-user function reads and writes it, with the service role
+ALTER TABLE public.organization_managed_accounts ENABLE ROW LEVEL SECURITY;
+
+-- Members whose account the organization may manage. Every account also gets a personal
+-- workspace, which doesn't count as long as nobody else has joined it.
+CREATE OR REPLACE FUNCTION public.managed_account_ids(p_org_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.user_id
+  FROM public.organization_managed_accounts a
+  JOIN public.organization_members m ON m.org_id = a.org_id AND m.user_id = a.user_id
+  WHERE a.org_id = p_org_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.organization_members other
+      JOIN public.organizations o ON o.id = other.org_id
+      WHERE other.user_id = a.user_id
+        AND other.org_id <> p_org_id
+        AND (
+          o.created_by IS DISTINCT FROM a.user_id
+          OR EXISTS (
+            SELECT 1 FROM public.organization_members x
+            WHERE x.org_id = o.id AND x.user_id <> a.user_id
+          )
+        )
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.managed_account_ids(UUID) FROM PUBLIC, anon, authenticated;
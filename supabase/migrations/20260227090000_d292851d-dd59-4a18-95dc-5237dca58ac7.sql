@@ -0,0 +1,66 @@
+-- Realtime for the trash. Moving a row to the trash hides it from the SELECT policy, so the update
+-- never reaches other members through postgres_changes, and neither does a restore. Both are now
+-- broadcast on the private "trash:<org id>" topic instead, once per statement. Rows are only
+-- deleted for good after they are in the trash, so clients don't need delete events.
+CREATE OR REPLACE FUNCTION public.broadcast_trash_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_change RECORD;
+BEGIN
+  FOR v_change IN
+    SELECT n.org_id, n.deleted_at IS NOT NULL AS trashed, array_agg(n.id) AS ids
+    FROM new_rows n
+    JOIN old_rows o ON o.id = n.id
+    WHERE (o.deleted_at IS NULL) <> (n.deleted_at IS NULL)
+    GROUP BY n.org_id, n.deleted_at IS NOT NULL
+  LOOP
+    PERFORM realtime.send(
+      jsonb_build_object(
+        'table', TG_TABLE_NAME,
+        'action', CASE WHEN v_change.trashed THEN 'trashed' ELSE 'restored' END,
+        -- Large moves (Clear All, a big rollback) leave the ids out; clients reload instead
+        'ids', CASE WHEN cardinality(v_change.ids) <= 500 THEN to_jsonb(v_change.ids) END,
+        'user_id', auth.uid()
+      ),
+      'trash',
+      'trash:' || v_change.org_id,
+      true
+    );
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER broadcast_sales_entries_trash
+AFTER UPDATE ON public.sales_entries
+REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.broadcast_trash_change();
+
+CREATE TRIGGER broadcast_extra_area_entries_trash
+AFTER UPDATE ON public.extra_area_entries
+REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.broadcast_trash_change();
+
+CREATE TRIGGER broadcast_branch_calendar_tasks_trash
+AFTER UPDATE ON public.branch_calendar_tasks
+REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.broadcast_trash_change();
+
+-- Only ids are sent, so every member may listen; what they can load afterwards still follows RLS
+CREATE POLICY "Members can receive their organization's trash changes"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND split_part(realtime.topic(), ':', 1) = 'trash'
+    AND public.is_org_member(NULLIF(split_part(realtime.topic(), ':', 2), '')::UUID)
+  );
@@ -0,0 +1,53 @@
+-- The invitee policy on organizations compared the invitation with itself (the unqualified id
+-- resolved to organization_invitations.id), so invitees never saw the organization they were
+-- invited to and the app dropped every pending invitation.
+DROP POLICY "Invitees can view organizations they are invited to" ON public.organizations;
+
+CREATE POLICY "Invitees can view organizations they are invited to"
+  ON public.organizations
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.organization_invitations i
+      WHERE i.org_id = organizations.id AND i.email = public.current_user_email()
+    )
+  );
+
+-- The last admin can't leave or be removed either, as long as anyone else is still in the
+-- organization. Deleting the organization itself, or its last member, is still allowed.
+CREATE OR REPLACE FUNCTION public.ensure_org_has_admin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'admin'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'admin')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.organization_members m
+      WHERE m.org_id = OLD.org_id AND m.role = 'admin' AND m.id <> OLD.id
+    )
+    AND (
+      TG_OP = 'UPDATE'
+      OR EXISTS (
+        SELECT 1 FROM public.organization_members m
+        JOIN public.organizations o ON o.id = m.org_id
+        WHERE m.org_id = OLD.org_id AND m.id <> OLD.id
+      )
+    )
+  THEN
+    RAISE EXCEPTION 'An organization needs at least one admin';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ensure_org_keeps_admin_on_delete
+BEFORE DELETE ON public.organization_members
+FOR EACH ROW
+EXECUTE FUNCTION public.ensure_org_has_admin();
@@ -0,0 +1,37 @@
+-- Extra area photos can only be deleted once no report uses them, including reports in the trash.
+-- Any member could delete any of the organization's photos before, which undid keeping a trashed
+-- report's photos until it is purged. Purging removes photos through the purge-trash function,
+-- which also covers photos stored under the uploader's id from before organizations.
+DROP POLICY "Members can delete their organization's extra area photos" ON storage.objects;
+DROP POLICY "Users can delete their own extra area photos" ON storage.objects;
+
+CREATE OR REPLACE FUNCTION public.is_extra_area_photo_in_use(p_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.extra_area_entries e,
+      unnest(e.photos_approved_boss || e.photos_loi || e.photos_msas) AS url
+    WHERE right(url, length(p_name) + 19) = '/extra-area-photos/' || p_name
+  );
+$$;
+
+-- Photos removed from a report before saving, or dropped by saving it without them
+CREATE POLICY "Uploaders and admins can delete unused extra area photos"
+  ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'extra-area-photos'
+    AND (
+      owner_id = auth.uid()::text
+      OR (storage.foldername(name))[1] IN (
+        SELECT m.org_id::text FROM public.organization_members m
+        WHERE m.user_id = auth.uid() AND m.role = 'admin'
+      )
+    )
+    AND NOT public.is_extra_area_photo_in_use(name)
+  );
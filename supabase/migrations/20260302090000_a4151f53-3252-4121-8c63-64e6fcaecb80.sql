@@ -0,0 +1,62 @@
+-- Bulk branch and category changes wrote whatever code they were given. They now have to name
+-- one of the organization's active branches or categories, as imported rows do.
+CREATE OR REPLACE FUNCTION public.bulk_update_sales_entries(
+  p_org_id UUID,
+  p_ids UUID[],
+  p_action TEXT,
+  p_value TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_requested INTEGER;
+  v_changed INTEGER;
+BEGIN
+  IF p_action = 'delete' THEN
+    RETURN public.trash_records(p_org_id, 'sales_entries', p_ids);
+  END IF;
+
+  SELECT COUNT(DISTINCT id) INTO v_requested FROM unnest(p_ids) AS id;
+
+  IF NULLIF(btrim(p_value), '') IS NULL THEN
+    RAISE EXCEPTION 'A new % is required', p_action;
+  END IF;
+
+  IF p_action = 'branch' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.branches b
+      WHERE b.org_id = p_org_id AND b.code = btrim(p_value) AND b.is_active
+    ) THEN
+      RAISE EXCEPTION 'Unknown branch "%"', btrim(p_value);
+    END IF;
+
+    UPDATE public.sales_entries SET branch = btrim(p_value)
+    WHERE org_id = p_org_id AND id = ANY(p_ids);
+  ELSIF p_action = 'date' THEN
+    UPDATE public.sales_entries SET date = p_value::DATE
+    WHERE org_id = p_org_id AND id = ANY(p_ids);
+  ELSIF p_action = 'category' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.categories c
+      WHERE c.org_id = p_org_id AND c.code = btrim(p_value) AND c.is_active
+    ) THEN
+      RAISE EXCEPTION 'Unknown category "%"', btrim(p_value);
+    END IF;
+
+    UPDATE public.sales_entries SET category = btrim(p_value)
+    WHERE org_id = p_org_id AND id = ANY(p_ids);
+  ELSE
+    RAISE EXCEPTION 'Unknown bulk action "%"', p_action;
+  END IF;
+
+  GET DIAGNOSTICS v_changed = ROW_COUNT;
+  IF v_changed < v_requested THEN
+    RAISE EXCEPTION '% of the % selected entries can''t be changed by you or no longer exist',
+      v_requested - v_changed, v_requested;
+  END IF;
+
+  RETURN v_changed;
+END;
+$$;
@@ -0,0 +1,68 @@
+-- Run with `supabase test db`
+BEGIN;
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email, email_confirmed_at)
+VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'admin@example.com', now()),
+  ('00000000-0000-0000-0000-00000000000b', 'invitee@example.com', now());
+
+INSERT INTO public.organizations (id, name, created_by)
+VALUES ('00000000-0000-0000-0000-0000000000f1', 'North Region', '00000000-0000-0000-0000-00000000000a');
+
+INSERT INTO public.organization_members (org_id, user_id, role)
+VALUES ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', 'admin');
+
+INSERT INTO public.organization_invitations (id, org_id, email, role, invited_by)
+VALUES (
+  '00000000-0000-0000-0000-0000000000e1',
+  '00000000-0000-0000-0000-0000000000f1',
+  'invitee@example.com',
+  'encoder',
+  '00000000-0000-0000-0000-00000000000a'
+);
+
+-- As the invitee
+SET LOCAL ROLE authenticated;
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-0000-0000-00000000000b", "role": "authenticated"}',
+  true
+);
+
+SELECT results_eq(
+  $$ SELECT name FROM public.organizations WHERE id = '00000000-0000-0000-0000-0000000000f1' $$,
+  $$ VALUES ('North Region'::TEXT) $$,
+  'Invitees can view the organization they are invited to'
+);
+
+SELECT is(
+  public.accept_organization_invitation('00000000-0000-0000-0000-0000000000e1'),
+  '00000000-0000-0000-0000-0000000000f1'::UUID,
+  'Accepting an invitation joins its organization'
+);
+
+-- As the admin
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}',
+  true
+);
+
+SELECT throws_ok(
+  $$ DELETE FROM public.organization_members
+     WHERE org_id = '00000000-0000-0000-0000-0000000000f1'
+       AND user_id = '00000000-0000-0000-0000-00000000000a' $$,
+  'An organization needs at least one admin',
+  'The last admin can''t leave while others remain'
+);
+
+RESET ROLE;
+
+SELECT lives_ok(
+  $$ DELETE FROM public.organizations WHERE id = '00000000-0000-0000-0000-0000000000f1' $$,
+  'Deleting the organization removes its last admin too'
+);
+
+SELECT * FROM finish();
+ROLLBACK;